@@ -7,68 +7,84 @@
 import { Effect } from "effect"
 import { LoadBalancer, endpoint } from "@blank-utils/load-balancer"
 
-// Different backend pools for different services
-const services = {
-    auth: LoadBalancer.live({
-        endpoints: [
-            endpoint("https://auth1.example.com", { healthCheckPath: "/health" }),
-            endpoint("https://auth2.example.com", { healthCheckPath: "/health" }),
+// Different backend pools for different services, in a single load balancer.
+// Each service is mounted under a public prefix that differs from its internal paths:
+// the rewrite rules translate the public path before the request is forwarded.
+const lb = LoadBalancer.live({
+    router: {
+        // The first matching route wins; the last one catches everything else
+        routes: [
+            { name: "auth", pool: "auth", match: { pathPrefix: "/auth" } },
+            { name: "users", pool: "users", match: { pathPrefix: "/users" } },
+            { name: "catalog", pool: "products", match: { pathPrefix: "/catalog" } },
+            { name: "orders", pool: "orders", match: { pathPrefix: "/orders" } },
+            { name: "default", pool: "default" },
         ],
-    }),
+        pools: {
+            // /auth/login -> https://auth1.example.com/login
+            auth: {
+                endpoints: ["https://auth1.example.com", "https://auth2.example.com"].map((url) =>
+                    endpoint(url, {
+                        healthCheckPath: "/health",
+                        rewrite: [{ type: "strip-prefix", prefix: "/auth" }],
+                    }),
+                ),
+            },
 
-    users: LoadBalancer.live({
-        endpoints: [
-            endpoint("https://users1.example.com", { healthCheckPath: "/health" }),
-            endpoint("https://users2.example.com", { healthCheckPath: "/health" }),
-        ],
-    }),
-
-    products: LoadBalancer.live({
-        endpoints: [
-            endpoint("https://products1.example.com", { healthCheckPath: "/health" }),
-            endpoint("https://products2.example.com", { healthCheckPath: "/health" }),
-            endpoint("https://products3.example.com", { healthCheckPath: "/health" }),
-        ],
-    }),
+            // /users/42 -> https://users1.example.com/v2/accounts/42
+            users: {
+                endpoints: ["https://users1.example.com/v2", "https://users2.example.com/v2"].map((url) =>
+                    endpoint(url, {
+                        healthCheckPath: "/health",
+                        rewrite: [
+                            { type: "strip-prefix", prefix: "/users" },
+                            { type: "add-prefix", prefix: "/accounts" },
+                        ],
+                    }),
+                ),
+            },
 
-    orders: LoadBalancer.live({
-        endpoints: [
-            endpoint("https://orders1.example.com", { healthCheckPath: "/health" }),
-            endpoint("https://orders2.example.com", { healthCheckPath: "/health" }),
-        ],
-    }),
+            // /catalog/shoes -> https://products1.example.com/products/shoes
+            products: {
+                endpoints: [
+                    "https://products1.example.com",
+                    "https://products2.example.com",
+                    "https://products3.example.com",
+                ].map((url) =>
+                    endpoint(url, {
+                        healthCheckPath: "/health",
+                        rewrite: [{ type: "replace", pattern: "^/catalog(?=/|$)", replacement: "/products" }],
+                    }),
+                ),
+                steering: { type: "round-robin" },
+            },
 
-    // Default/fallback service
-    default: LoadBalancer.live({
-        endpoints: [endpoint("https://api.example.com", { healthCheckPath: "/health" })],
-    }),
-}
+            // /orders/7?debug=1 -> https://orders1.example.com/orders/7?channel=web
+            orders: {
+                endpoints: ["https://orders1.example.com", "https://orders2.example.com"].map((url) =>
+                    endpoint(url, {
+                        healthCheckPath: "/health",
+                        rewrite: [
+                            { type: "remove-query", params: ["debug"] },
+                            { type: "set-query", params: { channel: "web" } },
+                        ],
+                    }),
+                ),
+            },
 
-// Route matcher - determine which service handles this request
-function getServiceLayer(pathname: string) {
-    if (pathname.startsWith("/auth") || pathname.startsWith("/login") || pathname.startsWith("/oauth")) {
-        return services.auth
-    }
-    if (pathname.startsWith("/users") || pathname.startsWith("/profile")) {
-        return services.users
-    }
-    if (pathname.startsWith("/products") || pathname.startsWith("/catalog")) {
-        return services.products
-    }
-    if (pathname.startsWith("/orders") || pathname.startsWith("/checkout")) {
-        return services.orders
-    }
-    return services.default
-}
+            // Default/fallback service
+            default: {
+                endpoints: [endpoint("https://api.example.com", { healthCheckPath: "/health" })],
+            },
+        },
+    },
+})
 
 export default {
     async fetch(request: Request): Promise<Response> {
-        const url = new URL(request.url)
-        const layer = getServiceLayer(url.pathname)
-
         return Effect.gen(function* () {
-            const lb = yield* LoadBalancer
-            return yield* lb.handleRequest(request)
-        }).pipe(Effect.provide(layer), Effect.runPromise)
+            const loadBalancer = yield* LoadBalancer
+            return yield* loadBalancer.handleRequest(request)
+        }).pipe(Effect.provide(lb), Effect.runPromise)
     },
 }
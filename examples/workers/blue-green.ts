@@ -4,7 +4,7 @@
  * Gradually shift traffic between two deployment environments.
  * Control the split via environment variable or Cloudflare KV.
  */
-import { Effect } from "effect"
+import { Effect, type Layer } from "effect"
 import { LoadBalancer, endpoint } from "@blank-utils/load-balancer"
 
 // Environment binding for traffic split (set via wrangler.toml or dashboard)
@@ -24,28 +24,38 @@ const greenEndpoints = [
     endpoint("https://green-2.api.example.com", { healthCheckPath: "/health" }),
 ]
 
-export default {
-    async fetch(request: Request, env: Env): Promise<Response> {
-        // Get traffic split percentage (default: 0% to green)
-        const greenPercent = parseInt(env.GREEN_TRAFFIC_PERCENT || "0", 10) / 100
+// One layer per split percentage, built once and reused across requests
+const layers = new Map<number, Layer.Layer<LoadBalancer>>()
 
-        // Decide which deployment to use
-        const useGreen = Math.random() < greenPercent
-
-        const layer = LoadBalancer.live({
-            endpoints: useGreen ? greenEndpoints : blueEndpoints,
+function getLayer(greenPercent: number): Layer.Layer<LoadBalancer> {
+    let layer = layers.get(greenPercent)
+    if (!layer) {
+        layer = LoadBalancer.live({
             availability: { type: "fail-forward", failoverOnStatuses: [502, 503, 504] },
+            trafficSplit: {
+                // Each user stays on the same deployment while the split is unchanged,
+                // and users already on green stay there as its share grows
+                key: { type: "cookie", name: "user_id" },
+                pools: {
+                    green: { percent: greenPercent, endpoints: greenEndpoints },
+                    blue: { percent: 100 - greenPercent, endpoints: blueEndpoints },
+                },
+            },
         })
+        layers.set(greenPercent, layer)
+    }
+    return layer
+}
 
-        const response = await Effect.gen(function* () {
+export default {
+    async fetch(request: Request, env: Env): Promise<Response> {
+        // Get traffic split percentage (default: 0% to green)
+        const greenPercent = Math.min(100, Math.max(0, parseInt(env.GREEN_TRAFFIC_PERCENT || "0", 10) || 0))
+
+        // X-Load-Balancer-Pool indicates which deployment served the request
+        return Effect.gen(function* () {
             const lb = yield* LoadBalancer
             return yield* lb.handleRequest(request)
-        }).pipe(Effect.provide(layer), Effect.runPromise)
-
-        // Add header to indicate which deployment served the request
-        const newResponse = new Response(response.body, response)
-        newResponse.headers.set("X-Deployment", useGreen ? "green" : "blue")
-
-        return newResponse
+        }).pipe(Effect.provide(getLayer(greenPercent)), Effect.runPromise)
     },
 }
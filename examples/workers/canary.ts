@@ -1,62 +1,49 @@
 /**
  * Canary Deployment Example
- * 
+ *
  * Route specific users (beta testers, internal team, etc.) to canary backend.
  * Other users go to stable backends.
  */
 import { Effect } from "effect"
-import { LoadBalancer, endpoint } from "@blank-utils/load-balancer"
-
-interface Env {
-    CANARY_COOKIE_NAME?: string
-    CANARY_HEADER_NAME?: string
-}
-
-// Stable production backends
-const stableLayer = LoadBalancer.live({
-    endpoints: [
-        endpoint("https://stable-1.api.example.com", { healthCheckPath: "/health" }),
-        endpoint("https://stable-2.api.example.com", { healthCheckPath: "/health" }),
-        endpoint("https://stable-3.api.example.com", { healthCheckPath: "/health" }),
-    ],
-    availability: { type: "fail-forward", failoverOnStatuses: [502, 503, 504] },
-})
-
-// Canary backend (new version being tested)
-const canaryLayer = LoadBalancer.live({
-    endpoints: [endpoint("https://canary.api.example.com", { healthCheckPath: "/health" })],
+import { LoadBalancer, endpoint, type CanaryRule } from "@blank-utils/load-balancer"
+
+// Who gets the canary: any matching rule is enough
+const canaryRules: ReadonlyArray<CanaryRule> = [
+    // Opt-in header and cookie
+    { type: "header", name: "X-Canary", equals: "true" },
+    { type: "cookie", name: "canary", equals: "true" },
+    // Internal testing tools
+    { type: "user-agent", pattern: "InternalTestBot" },
+    // Office network and corporate VPN
+    { type: "ip", cidrs: ["198.51.100.0/24", "2001:db8:1234::/48"] },
+    { type: "asn", asns: [64496] },
+]
+
+// Built once and reused across requests
+const layer = LoadBalancer.live({
     availability: { type: "fail-forward", failoverOnStatuses: [502, 503, 504] },
+    trafficSplit: {
+        targeting: { pool: "canary", rules: canaryRules },
+        pools: {
+            // Stable production backends
+            stable: {
+                percent: 100,
+                endpoints: [
+                    endpoint("https://stable-1.api.example.com", { healthCheckPath: "/health" }),
+                    endpoint("https://stable-2.api.example.com", { healthCheckPath: "/health" }),
+                    endpoint("https://stable-3.api.example.com", { healthCheckPath: "/health" }),
+                ],
+            },
+            // Canary backend (new version being tested), only reached by targeted requests
+            canary: {
+                endpoints: [endpoint("https://canary.api.example.com", { healthCheckPath: "/health" })],
+            },
+        },
+    },
 })
 
-function isCanaryUser(request: Request, env: Env): boolean {
-    const cookieName = env.CANARY_COOKIE_NAME || "canary"
-    const headerName = env.CANARY_HEADER_NAME || "X-Canary"
-
-    // Check for canary header
-    if (request.headers.get(headerName) === "true") {
-        return true
-    }
-
-    // Check for canary cookie
-    const cookies = request.headers.get("Cookie") || ""
-    if (cookies.includes(`${cookieName}=true`)) {
-        return true
-    }
-
-    // Check for specific user agents (e.g., internal testing tools)
-    const userAgent = request.headers.get("User-Agent") || ""
-    if (userAgent.includes("InternalTestBot")) {
-        return true
-    }
-
-    return false
-}
-
 export default {
-    async fetch(request: Request, env: Env): Promise<Response> {
-        const useCanary = isCanaryUser(request, env)
-        const layer = useCanary ? canaryLayer : stableLayer
-
+    async fetch(request: Request): Promise<Response> {
         const response = await Effect.gen(function* () {
             const lb = yield* LoadBalancer
             return yield* lb.handleRequest(request)
@@ -64,7 +51,7 @@ export default {
 
         // Add header to indicate which version served the request
         const newResponse = new Response(response.body, response)
-        newResponse.headers.set("X-Version", useCanary ? "canary" : "stable")
+        newResponse.headers.set("X-Version", response.headers.get("X-Load-Balancer-Pool") ?? "stable")
 
         return newResponse
     },
@@ -3,18 +3,60 @@
  *
  * Availability methods (failover strategies)
  */
-import { Effect, Schema } from "effect"
+import { Context, Deferred, Duration, Effect, type Either, Option, Schema } from "effect"
+import { CircuitBreaker } from "./CircuitBreaker.js"
 import type { Endpoint } from "./Endpoint.js"
-import { NoHealthyEndpointsError } from "./Errors.js"
-import { bufferRequestBody, forwardRequest, type BufferedBody } from "./Forward.js"
+import {
+    DeadlineExceededError,
+    EndpointUnhealthyError,
+    NoHealthyEndpointsError,
+    RequestForwardError,
+    type RequestTooLargeError,
+} from "./Errors.js"
+import {
+    decideFailover,
+    decideReplay,
+    isConnectFailure,
+    type FailoverPolicy,
+} from "./FailoverPolicy.js"
+import {
+    BodyNotReplayable,
+    checkBodyLimit,
+    DurationInput,
+    forwardRequestWithRetry,
+    isBodyReplayable,
+    prepareRequestBody,
+    type RequestBody,
+    type RequestBodyOptions,
+    type RetryOptions,
+} from "./Forward.js"
 import { addLoadBalancerHeaders } from "./Headers.js"
 import { HealthChecker } from "./HealthChecker.js"
+import { getHealthRecord } from "./HealthStore.js"
+import { classifyOutcome, OutlierDetector } from "./OutlierDetector.js"
+import { StateStore } from "./StateStore.js"
 
 /**
  * Default HTTP status codes that trigger failover
  */
 export const DEFAULT_FAILOVER_STATUSES = [502, 503, 504] as const
 
+/**
+ * Default time to wait for a response before sending a hedged request
+ */
+export const DEFAULT_HEDGE_DELAY: Duration.DurationInput = "100 millis"
+
+/**
+ * Successful responses an endpoint needs before its p95 is used as hedge delay
+ * (the percentile of a handful of samples is just one of them)
+ */
+export const P95_HEDGE_MINIMUM_SAMPLES = 20
+
+/**
+ * How long promise-any waits for a healthy endpoint when the request has no deadline
+ */
+const HEALTH_RACE_TIMEOUT: Duration.DurationInput = "10 seconds"
+
 /**
  * Availability method types
  */
@@ -22,6 +64,8 @@ export const AvailabilityMethodType = Schema.Literal(
     "fail-forward",
     "async-block",
     "promise-any",
+    "cached-health",
+    "hedged",
 )
 export type AvailabilityMethodType = typeof AvailabilityMethodType.Type
 
@@ -56,6 +100,49 @@ export const PromiseAnyOptions = Schema.Struct({
 })
 export type PromiseAnyOptions = typeof PromiseAnyOptions.Type
 
+/**
+ * Cached-health options (health from `runHealthChecks` instead of inline probes)
+ */
+export const CachedHealthOptions = Schema.Struct({
+    type: Schema.Literal("cached-health"),
+    /**
+     * HTTP status codes that should trigger failover
+     * @default [502, 503, 504]
+     */
+    failoverOnStatuses: Schema.optionalWith(Schema.Array(Schema.Number), { exact: true }),
+    /**
+     * Try every endpoint anyway when all of them are cached as unhealthy
+     * @default true
+     */
+    failOpen: Schema.optionalWith(Schema.Boolean, { exact: true }),
+})
+export type CachedHealthOptions = typeof CachedHealthOptions.Type
+
+/**
+ * Hedged options (send the request to the next endpoint when the first one is slow)
+ */
+export const HedgedOptions = Schema.Struct({
+    type: Schema.Literal("hedged"),
+    /**
+     * How long to wait for a response before sending a hedged request: a duration,
+     * or "p95" for the endpoint's observed 95th percentile response time
+     * (`DEFAULT_HEDGE_DELAY` until `P95_HEDGE_MINIMUM_SAMPLES` responses have been measured)
+     * @default "100 millis"
+     */
+    delay: Schema.optionalWith(Schema.Union(DurationInput, Schema.Literal("p95")), { exact: true }),
+    /**
+     * Maximum number of hedged requests sent on top of the first one
+     * @default 1
+     */
+    maxHedges: Schema.optionalWith(Schema.Number.pipe(Schema.int(), Schema.nonNegative()), { exact: true }),
+    /**
+     * HTTP status codes that should trigger failover
+     * @default [502, 503, 504]
+     */
+    failoverOnStatuses: Schema.optionalWith(Schema.Array(Schema.Number), { exact: true }),
+})
+export type HedgedOptions = typeof HedgedOptions.Type
+
 /**
  * Union of all availability method configurations
  */
@@ -63,46 +150,312 @@ export const AvailabilityMethod = Schema.Union(
     FailForwardOptions,
     AsyncBlockOptions,
     PromiseAnyOptions,
+    CachedHealthOptions,
+    HedgedOptions,
 )
 export type AvailabilityMethod = typeof AvailabilityMethod.Type
 
+/**
+ * Time budget shared by every attempt of a request
+ */
+export interface RequestDeadline {
+    /**
+     * The total budget, in milliseconds
+     */
+    readonly budgetMs: number
+    /**
+     * When the budget runs out (epoch millis)
+     */
+    readonly expiresAt: number
+}
+
+/**
+ * Options applied to every forwarding attempt of an availability method
+ */
+export interface AttemptOptions {
+    /**
+     * Retry policy applied to each endpoint before failing over to the next one.
+     * `Endpoint.retry` overrides it field by field.
+     */
+    readonly retry?: RetryOptions
+
+    /**
+     * Decides whether a failed request may be retried or failed over.
+     * By default only idempotent methods and requests with an `Idempotency-Key`
+     * header are replayed; other requests are only replayed when the connection
+     * to the endpoint could not be established.
+     */
+    readonly failoverPolicy?: FailoverPolicy
+
+    /**
+     * Wraps every forwarding attempt to an endpoint (including its retries),
+     * e.g. to count in-flight requests
+     */
+    readonly trackAttempt?: (
+        endpoint: Endpoint,
+        attempt: Effect.Effect<Response, RequestForwardError>,
+    ) => Effect.Effect<Response, RequestForwardError>
+
+    /**
+     * Deadline for the whole request: each attempt (including its retries) is
+     * cut short when the remaining budget runs out, and no further endpoint is
+     * tried after that (the method fails with `DeadlineExceededError`)
+     */
+    readonly deadline?: RequestDeadline
+
+    /**
+     * How the request body is prepared: buffered (default, can always be
+     * replayed) or streamed to the first endpoint with a bounded copy for
+     * retries and failover. A streamed body too large for its copy is not
+     * replayed: failover stops with the `body-streamed` failover decision.
+     */
+    readonly requestBody?: RequestBodyOptions
+}
+
+/**
+ * Check whether the request deadline (if any) has passed
+ */
+const pastDeadline = (deadline: RequestDeadline | undefined): deadline is RequestDeadline =>
+    deadline !== undefined && Date.now() >= deadline.expiresAt
+
+/**
+ * Fail `effect` with `onTimeout` if it has not completed when the request deadline (if any) passes,
+ * or once it has used `maxMs` (when given)
+ */
+const withinDeadline = <A, E>(
+    effect: Effect.Effect<A, E>,
+    deadline: RequestDeadline | undefined,
+    onTimeout: () => E,
+    maxMs: (remainingMs: number) => number = (remainingMs) => remainingMs,
+): Effect.Effect<A, E> =>
+    deadline === undefined
+        ? effect
+        : Effect.suspend(() =>
+            Effect.timeoutFail(effect, {
+                duration: maxMs(Math.max(0, deadline.expiresAt - Date.now())),
+                onTimeout,
+            }),
+        )
+
+/**
+ * Message of the timeout that cuts an attempt short at its share of the request deadline
+ */
+const DEADLINE_TIMEOUT_MESSAGE = "Request deadline exceeded"
+
+/**
+ * Check whether a forward error is an attempt cut short by the request deadline
+ * (the client's time budget ran out, which says nothing about the endpoint)
+ */
+const isDeadlineTimeout = (error: RequestForwardError): boolean =>
+    error.cause instanceof DOMException &&
+    error.cause.name === "TimeoutError" &&
+    error.cause.message === DEADLINE_TIMEOUT_MESSAGE
+
+/**
+ * Check whether a forward error is the endpoint's failure, and not an attempt
+ * cut short by the request deadline or a streamed body that could not be sent again
+ */
+const isEndpointFailure = (error: RequestForwardError): boolean =>
+    !isDeadlineTimeout(error) && !(error.cause instanceof BodyNotReplayable)
+
+/**
+ * Check whether a forwarding result tells something about the endpoint's health
+ */
+const isEndpointOutcome = (result: Either.Either<Response, RequestForwardError>): boolean =>
+    result._tag === "Right" || isEndpointFailure(result.left)
+
+const deadlineExceeded = (
+    deadline: RequestDeadline,
+    triedEndpoints: ReadonlyArray<Endpoint>,
+    lastError: unknown,
+) =>
+    new DeadlineExceededError({
+        deadlineMs: deadline.budgetMs,
+        triedEndpoints: [...triedEndpoints],
+        lastError,
+    })
+
+/**
+ * Forward a request to an endpoint with its effective retry policy.
+ * Unless configured otherwise, the given statuses are retried like network errors.
+ * Requests that are not safe to replay are only retried on connection failures.
+ * With a request deadline, the attempt gets an even share of the remaining
+ * budget among the `endpointsLeft` (at most the endpoint's `timeoutMs`), so a
+ * hanging endpoint cannot use up the time of the next ones; it is cut short
+ * when its share runs out (failing like a fetch timeout). The attempt is wrapped
+ * with `trackAttempt` when one is given, and its outcome is recorded by the
+ * OutlierDetector when one is provided (unless the deadline cut it short).
+ */
+const forwardAttempt = (
+    endpoint: Endpoint,
+    request: Request,
+    bufferedBody: RequestBody,
+    options: AttemptOptions | undefined,
+    retryStatuses: ReadonlyArray<number>,
+    endpointsLeft = 1,
+) => {
+    const replay = decideReplay(request, options?.failoverPolicy)
+
+    const attempt = withinDeadline(
+        forwardRequestWithRetry(
+            endpoint,
+            request,
+            bufferedBody,
+            {
+                retryOnStatuses: retryStatuses,
+                ...options?.retry,
+                ...endpoint.retry,
+                ...(!replay.allowed && { retryOnStatuses: [] }),
+            },
+            replay.allowed ? undefined : isConnectFailure,
+        ),
+        options?.deadline,
+        () => new RequestForwardError({
+            endpoint,
+            cause: new DOMException(DEADLINE_TIMEOUT_MESSAGE, "TimeoutError"),
+        }),
+        (remainingMs) => Math.min(remainingMs / Math.max(1, endpointsLeft), endpoint.timeoutMs),
+    )
+
+    const tracked = options?.trackAttempt ? options.trackAttempt(endpoint, attempt) : attempt
+
+    // Feed the outcome to outlier detection (when provided)
+    return Effect.serviceOption(OutlierDetector).pipe(
+        Effect.flatMap(
+            Option.match({
+                onNone: () => tracked,
+                onSome: (detector) =>
+                    tracked.pipe(
+                        Effect.tapBoth({
+                            onFailure: (error) =>
+                                isEndpointFailure(error) ? detector.record(endpoint, classifyOutcome(error)) : Effect.void,
+                            onSuccess: (response) => detector.record(endpoint, classifyOutcome(response)),
+                        }),
+                    ),
+            }),
+        ),
+    )
+}
+
+/**
+ * Ask the outlier detector and circuit breaker (when provided) whether an endpoint may be tried
+ */
+const allowRequest = (
+    breaker: Option.Option<Context.Tag.Service<CircuitBreaker>>,
+    detector: Option.Option<Context.Tag.Service<OutlierDetector>>,
+    endpoint: Endpoint,
+) =>
+    Option.match(detector, {
+        onNone: () => Effect.void,
+        onSome: (od) => od.allowRequest(endpoint),
+    }).pipe(
+        // Checked second so an ejected endpoint does not take the circuit's half-open probe
+        Effect.zipRight(
+            Option.match(breaker, {
+                onNone: () => Effect.void,
+                onSome: (cb) => cb.allowRequest(endpoint),
+            }),
+        ),
+    )
+
+/**
+ * Check whether `allowRequest` would let a request through, without taking
+ * the circuit's half-open probe
+ */
+const checkRequest = (
+    breaker: Option.Option<Context.Tag.Service<CircuitBreaker>>,
+    detector: Option.Option<Context.Tag.Service<OutlierDetector>>,
+    endpoint: Endpoint,
+) =>
+    Option.match(detector, {
+        onNone: () => Effect.void,
+        onSome: (od) => od.allowRequest(endpoint),
+    }).pipe(
+        Effect.zipRight(
+            Option.match(breaker, {
+                onNone: () => Effect.void,
+                onSome: (cb) => cb.checkRequest(endpoint),
+            }),
+        ),
+    )
+
+/**
+ * Report the outcome of a request or health check to the circuit breaker (when one is provided)
+ */
+const recordOutcome = (
+    breaker: Option.Option<Context.Tag.Service<CircuitBreaker>>,
+    endpoint: Endpoint,
+    success: boolean,
+) =>
+    Option.match(breaker, {
+        onNone: () => Effect.void,
+        onSome: (cb) => (success ? cb.recordSuccess(endpoint) : cb.recordFailure(endpoint)),
+    })
+
 /**
  * Fail-forward strategy:
  * Try endpoints in order, failover only on specific status codes or network errors.
  * 
- * Body is buffered once at the start to support retry across multiple endpoints.
+ * Body is buffered once at the start to support retry across multiple endpoints
+ * (or streamed with a bounded copy, see `AttemptOptions.requestBody`).
+ * Endpoints with an open circuit or ejected by outlier detection are skipped.
+ * With a retry policy, each endpoint is retried (including on failover statuses)
+ * before failing over to the next one.
+ * Failover stops when the failover policy says the request is not safe to replay,
+ * or when the request deadline has passed.
  */
 export const failForward = (
     endpoints: ReadonlyArray<Endpoint>,
     request: Request,
     failoverStatuses: ReadonlyArray<number> = [...DEFAULT_FAILOVER_STATUSES],
-): Effect.Effect<Response, NoHealthyEndpointsError> =>
+    options?: AttemptOptions,
+): Effect.Effect<Response, NoHealthyEndpointsError | DeadlineExceededError | RequestTooLargeError> =>
     Effect.gen(function* () {
         const startTime = Date.now()
+        const breaker = yield* Effect.serviceOption(CircuitBreaker)
+        const detector = yield* Effect.serviceOption(OutlierDetector)
+        const deadline = options?.deadline
         const tried: Endpoint[] = []
         let lastError: unknown
 
         // Buffer body once for all retry attempts (fixes body consumption issue)
-        const bufferedBody: BufferedBody = yield* bufferRequestBody(request).pipe(
-            Effect.catchAll((error) => {
+        const bufferedBody: RequestBody = yield* prepareRequestBody(request, options?.requestBody).pipe(
+            Effect.catchTag("RequestForwardError", (error) => {
                 lastError = error
                 return Effect.succeed(null)
             }),
         )
 
-        for (const endpoint of endpoints) {
+        for (const [index, endpoint] of endpoints.entries()) {
+            if (pastDeadline(deadline)) {
+                return yield* deadlineExceeded(deadline, tried, lastError)
+            }
+
+            // Skip endpoints whose circuit is open or that are ejected
+            const permit = yield* allowRequest(breaker, detector, endpoint).pipe(Effect.either)
+            if (permit._tag === "Left") {
+                lastError = permit.left
+                continue
+            }
+
             tried.push(endpoint)
             const gatherTime = Date.now()
 
-            const result = yield* forwardRequest(endpoint, request, bufferedBody).pipe(
-                Effect.either,
-            )
+            const result = yield* forwardAttempt(
+                endpoint,
+                request,
+                bufferedBody,
+                options,
+                failoverStatuses,
+                endpoints.length - index,
+            ).pipe(Effect.either)
 
             if (result._tag === "Right") {
                 const response = result.right
 
                 // Check if we should failover based on status code
                 if (!failoverStatuses.includes(response.status)) {
+                    yield* recordOutcome(breaker, endpoint, true)
                     return addLoadBalancerHeaders(
                         response,
                         endpoint,
@@ -117,6 +470,34 @@ export const failForward = (
                 // Network/forward error, try next endpoint
                 lastError = result.left
             }
+            // A body over the size limit fails the request, not the endpoint
+            yield* checkBodyLimit(bufferedBody)
+            // Neither does an attempt cut short by the request deadline
+            if (isEndpointOutcome(result)) {
+                yield* recordOutcome(breaker, endpoint, false)
+            }
+
+            // Out of time: do not try another endpoint
+            if (pastDeadline(deadline)) {
+                return yield* deadlineExceeded(deadline, tried, lastError)
+            }
+
+            // Stop if replaying the request on the next endpoint is not safe
+            if (index < endpoints.length - 1) {
+                const decision = decideFailover(
+                    request,
+                    result._tag === "Right" ? result.right.status : result.left,
+                    options?.failoverPolicy,
+                    yield* isBodyReplayable(bufferedBody),
+                )
+                if (!decision.allowed) {
+                    return yield* new NoHealthyEndpointsError({
+                        triedEndpoints: tried,
+                        lastError,
+                        failoverDecision: decision,
+                    })
+                }
+            }
         }
 
         return yield* new NoHealthyEndpointsError({
@@ -129,37 +510,71 @@ export const failForward = (
  * Async-block strategy:
  * Sequentially check each endpoint's health, use the first healthy one.
  * 
- * Body is buffered once at the start to support retry across multiple endpoints.
+ * Body is buffered once at the start to support retry across multiple endpoints
+ * (or streamed with a bounded copy, see `AttemptOptions.requestBody`).
+ * Endpoints with an open circuit or ejected by outlier detection are skipped.
+ * A failed forward only moves on to the next endpoint when the failover policy allows it.
+ * Health checks and forwards stop when the request deadline passes.
  */
 export const asyncBlock = (
     endpoints: ReadonlyArray<Endpoint>,
     request: Request,
-): Effect.Effect<Response, NoHealthyEndpointsError, HealthChecker> =>
+    options?: AttemptOptions,
+): Effect.Effect<Response, NoHealthyEndpointsError | DeadlineExceededError | RequestTooLargeError, HealthChecker> =>
     Effect.gen(function* () {
         const startTime = Date.now()
         const checker = yield* HealthChecker
+        const breaker = yield* Effect.serviceOption(CircuitBreaker)
+        const detector = yield* Effect.serviceOption(OutlierDetector)
+        const deadline = options?.deadline
         const tried: Endpoint[] = []
         let lastError: unknown
 
         // Buffer body once for all retry attempts
-        const bufferedBody: BufferedBody = yield* bufferRequestBody(request).pipe(
-            Effect.catchAll((error) => {
+        const bufferedBody: RequestBody = yield* prepareRequestBody(request, options?.requestBody).pipe(
+            Effect.catchTag("RequestForwardError", (error) => {
                 lastError = error
                 return Effect.succeed(null)
             }),
         )
 
-        for (const endpoint of endpoints) {
+        for (const [index, endpoint] of endpoints.entries()) {
+            if (pastDeadline(deadline)) {
+                return yield* deadlineExceeded(deadline, tried, lastError)
+            }
+
+            // Skip endpoints whose circuit is open or that are ejected
+            const permit = yield* allowRequest(breaker, detector, endpoint).pipe(Effect.either)
+            if (permit._tag === "Left") {
+                lastError = permit.left
+                continue
+            }
+
             tried.push(endpoint)
             const gatherTime = Date.now()
 
-            const healthResult = yield* checker.check(endpoint).pipe(Effect.either)
+            const healthResult = yield* withinDeadline(
+                checker.check(endpoint),
+                deadline,
+                () => new EndpointUnhealthyError({ endpoint, reason: "timeout" }),
+            ).pipe(Effect.either)
 
             if (healthResult._tag === "Right") {
                 // Endpoint is healthy, forward the request
-                const forwardResult = yield* forwardRequest(endpoint, request, bufferedBody).pipe(
-                    Effect.either,
-                )
+                const forwardResult = yield* forwardAttempt(
+                    endpoint,
+                    request,
+                    bufferedBody,
+                    options,
+                    DEFAULT_FAILOVER_STATUSES,
+                    endpoints.length - index,
+                ).pipe(Effect.either)
+                if (forwardResult._tag === "Left") {
+                    yield* checkBodyLimit(bufferedBody)
+                }
+                if (isEndpointOutcome(forwardResult)) {
+                    yield* recordOutcome(breaker, endpoint, forwardResult._tag === "Right")
+                }
 
                 if (forwardResult._tag === "Right") {
                     return addLoadBalancerHeaders(
@@ -171,8 +586,34 @@ export const asyncBlock = (
                     )
                 }
                 lastError = forwardResult.left
+
+                if (pastDeadline(deadline)) {
+                    return yield* deadlineExceeded(deadline, tried, lastError)
+                }
+
+                // Stop if replaying the request on the next endpoint is not safe
+                if (index < endpoints.length - 1) {
+                    const decision = decideFailover(
+                        request,
+                        forwardResult.left,
+                        options?.failoverPolicy,
+                        yield* isBodyReplayable(bufferedBody),
+                    )
+                    if (!decision.allowed) {
+                        return yield* new NoHealthyEndpointsError({
+                            triedEndpoints: tried,
+                            lastError,
+                            failoverDecision: decision,
+                        })
+                    }
+                }
             } else {
                 lastError = healthResult.left
+                // A check cut short by the deadline says nothing about the endpoint
+                if (pastDeadline(deadline)) {
+                    return yield* deadlineExceeded(deadline, tried, lastError)
+                }
+                yield* recordOutcome(breaker, endpoint, false)
             }
         }
 
@@ -187,55 +628,104 @@ export const asyncBlock = (
  * Check all endpoints' health in parallel, use the first one that responds healthy.
  * 
  * Body is buffered once at the start before forwarding.
+ * Endpoints with an open circuit or ejected by outlier detection are left out of the race;
+ * a half-open probe is only taken for the winner, the endpoint actually forwarded to.
+ * The race lasts until the request deadline, or 10 seconds without one.
  */
 export const promiseAny = (
     endpoints: ReadonlyArray<Endpoint>,
     request: Request,
-): Effect.Effect<Response, NoHealthyEndpointsError, HealthChecker> =>
+    options?: AttemptOptions,
+): Effect.Effect<Response, NoHealthyEndpointsError | DeadlineExceededError | RequestTooLargeError, HealthChecker> =>
     Effect.gen(function* () {
         const startTime = Date.now()
         const checker = yield* HealthChecker
+        const breaker = yield* Effect.serviceOption(CircuitBreaker)
+        const detector = yield* Effect.serviceOption(OutlierDetector)
+        const deadline = options?.deadline
+
+        // Leave out endpoints whose circuit is open or that are ejected
+        let lastError: unknown
+        const candidates = yield* Effect.filter(endpoints, (endpoint) =>
+            checkRequest(breaker, detector, endpoint).pipe(
+                Effect.as(true),
+                Effect.catchAll((error) => {
+                    lastError = error
+                    return Effect.succeed(false)
+                }),
+            ),
+        )
 
-        if (endpoints.length === 0) {
+        if (candidates.length === 0) {
             return yield* new NoHealthyEndpointsError({
                 triedEndpoints: [],
+                lastError,
             })
         }
 
         // Buffer body once before forwarding
-        const bufferedBody: BufferedBody = yield* bufferRequestBody(request).pipe(
-            Effect.catchAll(() => Effect.succeed(null)),
+        const bufferedBody: RequestBody = yield* prepareRequestBody(request, options?.requestBody).pipe(
+            Effect.catchTag("RequestForwardError", () => Effect.succeed(null)),
         )
 
         // Race all health checks, first healthy wins
         const healthyEndpointResult = yield* Effect.raceAll(
-            endpoints.map((endpoint) =>
+            candidates.map((endpoint) =>
                 checker.check(endpoint).pipe(
                     Effect.map(() => endpoint),
+                    Effect.tapError(() => recordOutcome(breaker, endpoint, false)),
                     Effect.catchAll(() => Effect.never),
                 ),
             ),
         ).pipe(
-            Effect.timeout("10 seconds"),
+            Effect.timeout(
+                deadline === undefined ? HEALTH_RACE_TIMEOUT : Math.max(0, deadline.expiresAt - Date.now()),
+            ),
             Effect.option,
         )
 
         if (healthyEndpointResult._tag === "None") {
+            if (pastDeadline(deadline)) {
+                return yield* deadlineExceeded(deadline, candidates, lastError)
+            }
             return yield* new NoHealthyEndpointsError({
-                triedEndpoints: [...endpoints],
+                triedEndpoints: [...candidates],
             })
         }
 
         const endpoint = healthyEndpointResult.value
         const gatherTime = Date.now()
 
+        // Take the probe of a cooled-down circuit now (another request may have taken it during the race)
+        yield* allowRequest(breaker, Option.none(), endpoint).pipe(
+            Effect.mapError((error) => new NoHealthyEndpointsError({ triedEndpoints: [], lastError: error })),
+        )
+
         // FIX #3: Report all endpoints as tried, not just the one that failed
-        const response = yield* forwardRequest(endpoint, request, bufferedBody).pipe(
-            Effect.mapError((error) =>
-                new NoHealthyEndpointsError({
-                    triedEndpoints: [...endpoints],  // Fixed: was [endpoint]
-                    lastError: error,
-                }),
+        const response = yield* forwardAttempt(
+            endpoint,
+            request,
+            bufferedBody,
+            options,
+            DEFAULT_FAILOVER_STATUSES,
+        ).pipe(
+            Effect.tapError(() => checkBodyLimit(bufferedBody)),
+            Effect.tapBoth({
+                onFailure: (error) =>
+                    error._tag === "RequestForwardError" && isEndpointFailure(error)
+                        ? recordOutcome(breaker, endpoint, false)
+                        : Effect.void,
+                onSuccess: () => recordOutcome(breaker, endpoint, true),
+            }),
+            Effect.catchTag("RequestForwardError", (error) =>
+                Effect.fail(
+                    pastDeadline(deadline)
+                        ? deadlineExceeded(deadline, candidates, error)
+                        : new NoHealthyEndpointsError({
+                            triedEndpoints: [...candidates],  // Fixed: was [endpoint]
+                            lastError: error,
+                        }),
+                ),
             ),
         )
 
@@ -247,3 +737,210 @@ export const promiseAny = (
             gatherTime,
         )
     })
+
+/**
+ * Cached-health strategy:
+ * Skip endpoints that the last `runHealthChecks` run found unhealthy, then
+ * fail forward through the rest. No health check runs on the request path.
+ *
+ * Endpoints without a (fresh) health record are treated as healthy. When every
+ * endpoint is cached as unhealthy, all of them are tried anyway unless
+ * `failOpen` is false.
+ */
+export const cachedHealth = (
+    endpoints: ReadonlyArray<Endpoint>,
+    request: Request,
+    config?: {
+        readonly failoverOnStatuses?: ReadonlyArray<number>
+        readonly failOpen?: boolean
+    },
+    options?: AttemptOptions,
+): Effect.Effect<Response, NoHealthyEndpointsError | DeadlineExceededError | RequestTooLargeError, StateStore> =>
+    Effect.gen(function* () {
+        const store = yield* StateStore
+        const records = yield* Effect.forEach(
+            endpoints,
+            (endpoint) => getHealthRecord(store, endpoint),
+            { concurrency: "unbounded" },
+        )
+
+        const available = endpoints.filter((_, index) => records[index]?.healthy !== false)
+
+        if (available.length === 0 && endpoints.length > 0 && config?.failOpen === false) {
+            const endpoint = endpoints[endpoints.length - 1]!
+            const record = records[endpoints.length - 1]
+            return yield* new NoHealthyEndpointsError({
+                triedEndpoints: [],
+                lastError: new EndpointUnhealthyError({
+                    endpoint,
+                    reason: record?.reason ?? "status",
+                    ...(record?.statusCode !== undefined && { statusCode: record.statusCode }),
+                }),
+            })
+        }
+
+        return yield* failForward(
+            available.length > 0 ? available : endpoints,
+            request,
+            config?.failoverOnStatuses,
+            options,
+        )
+    })
+
+/**
+ * Hedged strategy:
+ * Forward to the first endpoint and, if no response arrives within the hedge
+ * delay, send the same buffered request to the next endpoint. Whichever answers
+ * first wins and the other request is aborted. A failed request (or failover
+ * status) moves on to the next endpoint right away, as with fail-forward.
+ *
+ * Only requests that are safe to replay (see the failover policy) are hedged;
+ * other requests fail forward. A streamed body too large for its copy is only
+ * sent to the first endpoint. Endpoints with an open circuit or ejected by
+ * outlier detection are skipped, and no request is sent once the request
+ * deadline has passed. The `X-Load-Balancer-Hedged` header tells whether a
+ * hedged request won, when one was sent.
+ */
+export const hedged = (
+    endpoints: ReadonlyArray<Endpoint>,
+    request: Request,
+    config?: {
+        /**
+         * Hedge delay, or a function returning the delay for the endpoint being waited on
+         */
+        readonly delay?: Duration.DurationInput | ((endpoint: Endpoint) => Effect.Effect<Duration.DurationInput>)
+        readonly maxHedges?: number
+        readonly failoverOnStatuses?: ReadonlyArray<number>
+    },
+    options?: AttemptOptions,
+): Effect.Effect<Response, NoHealthyEndpointsError | DeadlineExceededError | RequestTooLargeError> =>
+    Effect.gen(function* () {
+        const failoverStatuses = config?.failoverOnStatuses ?? [...DEFAULT_FAILOVER_STATUSES]
+
+        // Sending the request twice must not duplicate side effects
+        if (!decideReplay(request, options?.failoverPolicy).allowed) {
+            return yield* failForward(endpoints, request, failoverStatuses, options)
+        }
+
+        const startTime = Date.now()
+        const breaker = yield* Effect.serviceOption(CircuitBreaker)
+        const detector = yield* Effect.serviceOption(OutlierDetector)
+        const delay = config?.delay ?? DEFAULT_HEDGE_DELAY
+        const deadline = options?.deadline
+        const tried: Endpoint[] = []
+        let lastError: unknown
+        let hedgesSent = 0
+        let nextIndex = 0
+
+        // Buffer body once for every endpoint
+        const bufferedBody: RequestBody = yield* prepareRequestBody(request, options?.requestBody).pipe(
+            Effect.catchTag("RequestForwardError", (error) => {
+                lastError = error
+                return Effect.succeed(null)
+            }),
+        )
+
+        // Next endpoint whose circuit is not open and that is not ejected (none past the deadline)
+        const nextEndpoint = Effect.gen(function* () {
+            while (nextIndex < endpoints.length && !pastDeadline(deadline)) {
+                const endpoint = endpoints[nextIndex++]!
+                const permit = yield* allowRequest(breaker, detector, endpoint).pipe(Effect.either)
+                if (permit._tag === "Right") {
+                    return Option.some(endpoint)
+                }
+                lastError = permit.left
+            }
+            return Option.none<Endpoint>()
+        })
+
+        interface Winner {
+            readonly response: Response
+            readonly endpoint: Endpoint
+            readonly gatherTime: number
+            readonly hedge: boolean
+        }
+
+        // Forward to the next endpoint, and race it against the following endpoint,
+        // which starts after the hedge delay (while hedges are left) or once this one fails
+        const launch = (hedgesLeft: number, hedge: boolean): Effect.Effect<Winner, void> =>
+            Effect.gen(function* () {
+                const next = yield* nextEndpoint
+                if (Option.isNone(next)) {
+                    return yield* Effect.fail(undefined)
+                }
+
+                const endpoint = next.value
+                tried.push(endpoint)
+                if (hedge) hedgesSent++
+                const gatherTime = Date.now()
+                const failed = yield* Deferred.make<void>()
+
+                const attempt = forwardAttempt(endpoint, request, bufferedBody, options, failoverStatuses).pipe(
+                    Effect.either,
+                    Effect.flatMap((result) => {
+                        if (result._tag === "Right" && !failoverStatuses.includes(result.right.status)) {
+                            return recordOutcome(breaker, endpoint, true).pipe(
+                                Effect.as<Winner>({ response: result.right, endpoint, gatherTime, hedge }),
+                            )
+                        }
+                        if (result._tag === "Right") {
+                            // Failover status: discard the response and try the next endpoint
+                            void result.right.body?.cancel().catch(() => undefined)
+                            lastError = new Error(`Endpoint returned status ${result.right.status}`)
+                        } else {
+                            lastError = result.left
+                        }
+                        return (isEndpointOutcome(result) ? recordOutcome(breaker, endpoint, false) : Effect.void).pipe(
+                            Effect.zipRight(Deferred.succeed(failed, undefined)),
+                            Effect.zipRight(Effect.fail(undefined)),
+                        )
+                    }),
+                )
+
+                const waitFor = typeof delay === "function" ? yield* delay(endpoint) : delay
+                const trigger = hedgesLeft > 0
+                    ? Effect.race(
+                        Effect.sleep(waitFor).pipe(Effect.as(true)),
+                        Deferred.await(failed).pipe(Effect.as(false)),
+                    )
+                    : Deferred.await(failed).pipe(Effect.as(false))
+                // A streamed body too large for its copy cannot be sent to another endpoint
+                const following = trigger.pipe(
+                    Effect.flatMap((timedOut) =>
+                        isBodyReplayable(bufferedBody).pipe(
+                            Effect.flatMap((replayable) =>
+                                replayable
+                                    ? launch(timedOut ? hedgesLeft - 1 : hedgesLeft, timedOut)
+                                    : Effect.fail(undefined),
+                            ),
+                        ),
+                    ),
+                )
+
+                // The loser is interrupted, which aborts its fetch
+                return yield* Effect.race(attempt, following)
+            })
+
+        const winner = yield* launch(config?.maxHedges ?? 1, false).pipe(Effect.option)
+
+        if (Option.isNone(winner)) {
+            yield* checkBodyLimit(bufferedBody)
+            if (pastDeadline(deadline)) {
+                return yield* deadlineExceeded(deadline, tried, lastError)
+            }
+            return yield* new NoHealthyEndpointsError({
+                triedEndpoints: [...tried],
+                lastError,
+            })
+        }
+
+        const { response, endpoint, gatherTime, hedge } = winner.value
+        return addLoadBalancerHeaders(
+            response,
+            endpoint,
+            [...tried],
+            startTime,
+            gatherTime,
+            hedgesSent > 0 ? hedge : undefined,
+        )
+    })
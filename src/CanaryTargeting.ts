@@ -0,0 +1,276 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Canary targeting - declarative rules picking the requests that go to a canary
+ */
+import { Schema } from "effect"
+import { getCookie } from "./Cookies.js"
+import type { CfProperties } from "./GeoSteering.js"
+import { RegExpSource, validateRegExp } from "./Patterns.js"
+import { DEFAULT_CLIENT_IP_HEADER } from "./ProxyHeaders.js"
+
+/**
+ * An IP network: address bytes (4 for IPv4, 16 for IPv6) and prefix length in bits
+ */
+interface Network {
+    readonly bytes: ReadonlyArray<number>
+    readonly prefix: number
+}
+
+/**
+ * Parse an IPv4 address into its 4 bytes
+ */
+const parseIPv4 = (address: string): ReadonlyArray<number> | undefined => {
+    if (!/^\d{1,3}(\.\d{1,3}){3}$/.test(address)) return undefined
+    const bytes = address.split(".").map(Number)
+    return bytes.every((byte) => byte <= 255) ? bytes : undefined
+}
+
+/**
+ * Parse an IPv6 address (with `::` compression and an optional trailing IPv4 part) into its 16 bytes
+ */
+const parseIPv6 = (address: string): ReadonlyArray<number> | undefined => {
+    const halves = address.replace(/%.*$/, "").split("::")
+    if (halves.length > 2) return undefined
+
+    const groupsOf = (part: string): Array<number> | undefined => {
+        if (part === "") return []
+        const groups: Array<number> = []
+        const pieces = part.split(":")
+        for (const [i, piece] of pieces.entries()) {
+            const ipv4 = i === pieces.length - 1 && piece.includes(".") ? parseIPv4(piece) : undefined
+            if (ipv4) {
+                groups.push((ipv4[0]! << 8) | ipv4[1]!, (ipv4[2]! << 8) | ipv4[3]!)
+            } else if (/^[0-9a-f]{1,4}$/i.test(piece)) {
+                groups.push(parseInt(piece, 16))
+            } else {
+                return undefined
+            }
+        }
+        return groups
+    }
+
+    const head = groupsOf(halves[0]!)
+    const tail = halves.length === 2 ? groupsOf(halves[1]!) : []
+    if (head === undefined || tail === undefined) return undefined
+
+    const missing = 8 - head.length - tail.length
+    if (halves.length === 2 ? missing < 1 : missing !== 0) return undefined
+
+    return [...head, ...Array.from({ length: missing }, () => 0), ...tail].flatMap((group) => [
+        group >> 8,
+        group & 0xff,
+    ])
+}
+
+/**
+ * Parse an IP address; IPv4-mapped IPv6 addresses (`::ffff:192.0.2.1`) are read as IPv4
+ */
+const parseIp = (address: string): ReadonlyArray<number> | undefined => {
+    const trimmed = address.trim().replace(/^\[(.*)\]$/, "$1")
+    const bytes = trimmed.includes(":") ? parseIPv6(trimmed) : parseIPv4(trimmed)
+    const mapped = bytes?.length === 16 &&
+        bytes.slice(0, 10).every((byte) => byte === 0) &&
+        bytes[10] === 0xff &&
+        bytes[11] === 0xff
+    return mapped ? bytes.slice(12) : bytes
+}
+
+/**
+ * Parse a CIDR range (`10.0.0.0/8`, `2001:db8::/32`); a bare address is a single-address range
+ */
+const parseCidr = (cidr: string): Network | undefined => {
+    const [address = "", prefix, ...rest] = cidr.split("/")
+    const bytes = parseIp(address)
+    if (bytes === undefined || rest.length > 0) return undefined
+
+    const bits = bytes.length * 8
+    if (prefix === undefined) return { bytes, prefix: bits }
+    if (!/^\d{1,3}$/.test(prefix) || Number(prefix) > bits) return undefined
+    return { bytes, prefix: Number(prefix) }
+}
+
+/**
+ * Check whether a parsed IP address is in a network
+ */
+const inNetwork = (address: ReadonlyArray<number>, network: Network): boolean => {
+    if (address.length !== network.bytes.length) return false
+
+    for (let bit = 0; bit < network.prefix; bit += 8) {
+        const mask = (0xff << (8 - Math.min(8, network.prefix - bit))) & 0xff
+        const i = bit / 8
+        if ((address[i]! & mask) !== (network.bytes[i]! & mask)) return false
+    }
+    return true
+}
+
+/**
+ * Check whether an IP address is in a CIDR range (false when either does not parse)
+ *
+ * @param ip - IPv4 or IPv6 address
+ * @param cidr - Range such as `10.0.0.0/8` or `2001:db8::/32`
+ */
+export const ipInCidr = (ip: string, cidr: string): boolean => {
+    const address = parseIp(ip)
+    const network = parseCidr(cidr)
+    return address !== undefined && network !== undefined && inNetwork(address, network)
+}
+
+/**
+ * CIDR range that must parse
+ */
+const CidrRange = Schema.String.pipe(
+    Schema.filter((cidr) => parseCidr(cidr) !== undefined || `Invalid CIDR range "${cidr}"`),
+)
+
+/**
+ * A header value: exactly `equals`, or matching the `pattern` regular expression
+ * (with neither, the header only has to be present)
+ */
+export const HeaderRule = Schema.Struct({
+    type: Schema.Literal("header"),
+    name: Schema.String,
+    equals: Schema.optionalWith(Schema.String, { exact: true }),
+    pattern: Schema.optionalWith(RegExpSource, { exact: true }),
+})
+
+/**
+ * A cookie value (parsed from the `Cookie` header): exactly `equals`, or
+ * matching the `pattern` regular expression (with neither, the cookie only has to be set)
+ */
+export const CookieRule = Schema.Struct({
+    type: Schema.Literal("cookie"),
+    name: Schema.String,
+    equals: Schema.optionalWith(Schema.String, { exact: true }),
+    pattern: Schema.optionalWith(RegExpSource, { exact: true }),
+})
+
+/**
+ * The `User-Agent` header matching a regular expression, case-insensitively
+ */
+export const UserAgentRule = Schema.Struct({
+    type: Schema.Literal("user-agent"),
+    pattern: RegExpSource,
+})
+
+/**
+ * The client address in one of the CIDR ranges (IPv4 or IPv6)
+ */
+export const IpRule = Schema.Struct({
+    type: Schema.Literal("ip"),
+    cidrs: Schema.Array(CidrRange),
+    /**
+     * Header carrying the client address
+     * @default "CF-Connecting-IP"
+     */
+    header: Schema.optionalWith(Schema.String, { exact: true }),
+})
+
+/**
+ * The client's autonomous system (`cf.asn`) in the list, e.g. a corporate network
+ */
+export const AsnRule = Schema.Struct({
+    type: Schema.Literal("asn"),
+    asns: Schema.Array(Schema.Number),
+})
+
+/**
+ * A condition marking a request for the canary
+ */
+export const CanaryRule = Schema.Union(HeaderRule, CookieRule, UserAgentRule, IpRule, AsnRule)
+export type CanaryRule = typeof CanaryRule.Type
+
+/**
+ * Check that the patterns and CIDR ranges of canary rules are valid
+ * (returns the problem, or undefined when the rules are valid)
+ */
+export const validateCanaryRules = (rules: ReadonlyArray<CanaryRule>): string | undefined => {
+    for (const rule of rules) {
+        const pattern = rule.type === "header" || rule.type === "cookie" || rule.type === "user-agent"
+            ? rule.pattern
+            : undefined
+        const invalid = pattern === undefined ? undefined : validateRegExp(pattern)
+        if (invalid !== undefined) return `Canary ${rule.type} rule: ${invalid}`
+
+        const cidr = rule.type === "ip" ? rule.cidrs.find((cidr) => parseCidr(cidr) === undefined) : undefined
+        if (cidr !== undefined) return `Canary ip rule: invalid CIDR range "${cidr}"`
+    }
+    return undefined
+}
+
+/**
+ * A compiled canary rule or rule set: checks a request and its Cloudflare properties
+ */
+export type CanaryMatcher = (request: Request, cf?: CfProperties) => boolean
+
+/**
+ * Check a value against an exact value and/or a pattern (both must hold when both are given)
+ */
+const matchesValue = (value: string | undefined, equals: string | undefined, pattern: RegExp | undefined): boolean =>
+    value !== undefined &&
+    (equals === undefined || value === equals) &&
+    (pattern === undefined || pattern.test(value))
+
+/**
+ * Compile one canary rule, building its regular expression and networks once
+ * (throws when a pattern does not compile: see `validateCanaryRules`)
+ */
+export const compileCanaryRule = (rule: CanaryRule): CanaryMatcher => {
+    switch (rule.type) {
+        case "header": {
+            const pattern = rule.pattern === undefined ? undefined : new RegExp(rule.pattern)
+            return (request) => matchesValue(request.headers.get(rule.name) ?? undefined, rule.equals, pattern)
+        }
+        case "cookie": {
+            const pattern = rule.pattern === undefined ? undefined : new RegExp(rule.pattern)
+            return (request) => matchesValue(getCookie(request, rule.name), rule.equals, pattern)
+        }
+        case "user-agent": {
+            const pattern = new RegExp(rule.pattern, "i")
+            return (request) => {
+                const userAgent = request.headers.get("User-Agent")
+                return userAgent !== null && pattern.test(userAgent)
+            }
+        }
+        case "ip": {
+            // Ranges that do not parse never match
+            const networks = rule.cidrs.flatMap((cidr) => parseCidr(cidr) ?? [])
+            return (request) => {
+                const address = parseIp(request.headers.get(rule.header ?? DEFAULT_CLIENT_IP_HEADER) ?? "")
+                return address !== undefined && networks.some((network) => inNetwork(address, network))
+            }
+        }
+        case "asn":
+            return (_request, cf) => cf?.asn !== undefined && rule.asns.includes(cf.asn)
+    }
+}
+
+/**
+ * Compile canary rules into one check: a request is a canary request when it meets any of them
+ *
+ * @param rules - Canary rules (none means no request is a canary request)
+ */
+export const makeCanaryMatcher = (rules: ReadonlyArray<CanaryRule>): CanaryMatcher => {
+    const matchers = rules.map(compileCanaryRule)
+    return (request, cf) => matchers.some((matches) => matches(request, cf))
+}
+
+/**
+ * Check whether a request meets one canary rule
+ *
+ * @param rule - The rule
+ * @param request - The incoming request
+ * @param cf - Cloudflare request properties (for `asn` rules)
+ */
+export const matchesCanaryRule = (rule: CanaryRule, request: Request, cf?: CfProperties): boolean =>
+    compileCanaryRule(rule)(request, cf)
+
+/**
+ * Check whether a request meets any of the canary rules
+ *
+ * @param rules - Canary rules (none means no request is a canary request)
+ * @param request - The incoming request
+ * @param cf - Cloudflare request properties (for `asn` rules)
+ */
+export const isCanaryRequest = (rules: ReadonlyArray<CanaryRule>, request: Request, cf?: CfProperties): boolean =>
+    makeCanaryMatcher(rules)(request, cf)
@@ -0,0 +1,226 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * CircuitBreaker service - stop sending traffic to endpoints that keep failing
+ */
+import { Clock, Context, Data, Duration, Effect, HashMap, Layer, Option, Ref } from "effect"
+import type { Endpoint } from "./Endpoint.js"
+import { CircuitOpenError } from "./Errors.js"
+
+/**
+ * Default number of consecutive failures before a circuit opens
+ */
+export const DEFAULT_FAILURE_THRESHOLD = 5
+
+/**
+ * Default time a circuit stays open before a probe request is let through
+ */
+export const DEFAULT_CIRCUIT_COOLDOWN: Duration.DurationInput = "30 seconds"
+
+/**
+ * Circuit state for a single endpoint.
+ *
+ * - `Closed`: requests flow normally, consecutive failures are counted;
+ *   `closedAt` is when the circuit last closed after being open
+ * - `Open`: requests are rejected until the cooldown has elapsed
+ * - `HalfOpen`: a single probe request is in flight; its outcome closes or re-opens the circuit
+ */
+export type CircuitState = Data.TaggedEnum<{
+    Closed: { readonly failures: number; readonly closedAt?: Date }
+    Open: { readonly openedAt: Date; readonly failures: number }
+    HalfOpen: {
+        readonly openedAt: Date
+        readonly failures: number
+        readonly probeStartedAt: Date
+    }
+}>
+export const CircuitState = Data.taggedEnum<CircuitState>()
+
+/**
+ * A change of circuit state for an endpoint
+ */
+export interface CircuitTransition {
+    readonly endpoint: Endpoint
+    readonly from: CircuitState
+    readonly to: CircuitState
+    readonly at: Date
+}
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerOptions {
+    /**
+     * Consecutive failures before the circuit opens
+     * @default 5
+     */
+    readonly failureThreshold?: number
+    /**
+     * How long the circuit stays open before a probe request is let through
+     * @default "30 seconds"
+     */
+    readonly cooldown?: Duration.DurationInput
+    /**
+     * Called whenever an endpoint's circuit changes state (e.g., for logging or metrics)
+     */
+    readonly onStateChange?: (transition: CircuitTransition) => Effect.Effect<void>
+}
+
+/**
+ * CircuitBreaker service interface
+ */
+export class CircuitBreaker extends Context.Tag("@blank-utils/CircuitBreaker")<
+    CircuitBreaker,
+    {
+        /**
+         * Check whether a request may be sent to the endpoint.
+         * Fails with CircuitOpenError while the circuit is open. Once the cooldown
+         * has elapsed the circuit moves to HalfOpen and lets one probe through.
+         */
+        readonly allowRequest: (endpoint: Endpoint) => Effect.Effect<void, CircuitOpenError>
+
+        /**
+         * Check whether `allowRequest` would let a request through, without
+         * changing the circuit (a cooled-down circuit stays Open)
+         */
+        readonly checkRequest: (endpoint: Endpoint) => Effect.Effect<void, CircuitOpenError>
+
+        /**
+         * Record a successful request or health check (closes the circuit)
+         */
+        readonly recordSuccess: (endpoint: Endpoint) => Effect.Effect<void>
+
+        /**
+         * Record a failed request or health check
+         */
+        readonly recordFailure: (endpoint: Endpoint) => Effect.Effect<void>
+
+        /**
+         * Get the current circuit state of an endpoint
+         */
+        readonly getState: (endpoint: Endpoint) => Effect.Effect<CircuitState>
+    }
+>() { }
+
+const initialState: CircuitState = CircuitState.Closed({ failures: 0 })
+
+/**
+ * Why a request was rejected by an open circuit
+ */
+interface Rejection {
+    readonly openedAt: Date
+    readonly failures: number
+}
+
+/**
+ * Create a circuit breaker layer (circuits are keyed by endpoint URL).
+ *
+ * @example
+ * ```ts
+ * const lb = LoadBalancer.live({ endpoints }).pipe(
+ *   Layer.provide(makeCircuitBreaker({ failureThreshold: 3, cooldown: "1 minute" })),
+ * )
+ * ```
+ */
+export const makeCircuitBreaker = (
+    options?: CircuitBreakerOptions,
+): Layer.Layer<CircuitBreaker> => {
+    const failureThreshold = options?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD
+    const cooldownMs = Duration.toMillis(options?.cooldown ?? DEFAULT_CIRCUIT_COOLDOWN)
+    const states = Ref.unsafeMake(HashMap.empty<string, CircuitState>())
+
+    const getState = (endpoint: Endpoint) =>
+        Ref.get(states).pipe(
+            Effect.map((map) =>
+                HashMap.get(map, endpoint.normalizedUrl).pipe(Option.getOrElse(() => initialState)),
+            ),
+        )
+
+    /**
+     * Apply a state update and notify on transitions between states
+     */
+    const update = <A>(
+        endpoint: Endpoint,
+        f: (state: CircuitState, now: Date) => readonly [A, CircuitState],
+    ): Effect.Effect<A> =>
+        Effect.gen(function* () {
+            const now = new Date(yield* Clock.currentTimeMillis)
+            const [result, from, to] = yield* Ref.modify(states, (map) => {
+                const from = HashMap.get(map, endpoint.normalizedUrl).pipe(
+                    Option.getOrElse(() => initialState),
+                )
+                const [result, to] = f(from, now)
+                return [[result, from, to] as const, HashMap.set(map, endpoint.normalizedUrl, to)]
+            })
+
+            if (from._tag !== to._tag && options?.onStateChange) {
+                yield* options.onStateChange({ endpoint, from, to, at: now })
+            }
+
+            return result
+        })
+
+    /**
+     * Decide on a request: the rejection (if any) and the state once it is let through
+     */
+    const admit = (state: CircuitState, now: Date) =>
+        CircuitState.$match(state, {
+            Closed: () => [Option.none<Rejection>(), state] as const,
+            Open: ({ openedAt, failures }) =>
+                now.getTime() - openedAt.getTime() >= cooldownMs
+                    ? [Option.none<Rejection>(), CircuitState.HalfOpen({ openedAt, failures, probeStartedAt: now })] as const
+                    : [Option.some<Rejection>({ openedAt, failures }), state] as const,
+            // Only one probe at a time; a probe that never reports back expires after the cooldown
+            HalfOpen: ({ openedAt, failures, probeStartedAt }) =>
+                now.getTime() - probeStartedAt.getTime() >= cooldownMs
+                    ? [Option.none<Rejection>(), CircuitState.HalfOpen({ openedAt, failures, probeStartedAt: now })] as const
+                    : [Option.some<Rejection>({ openedAt, failures }), state] as const,
+        })
+
+    const rejectIfOpen = (endpoint: Endpoint) =>
+        Option.match({
+            onNone: () => Effect.void,
+            onSome: ({ openedAt, failures }: Rejection) =>
+                Effect.fail(new CircuitOpenError({ endpoint, openedAt, failures })),
+        })
+
+    return Layer.succeed(CircuitBreaker, {
+        allowRequest: (endpoint) =>
+            update(endpoint, admit).pipe(Effect.flatMap(rejectIfOpen(endpoint))),
+
+        checkRequest: (endpoint) =>
+            Effect.gen(function* () {
+                const now = new Date(yield* Clock.currentTimeMillis)
+                const [rejection] = admit(yield* getState(endpoint), now)
+                return yield* rejectIfOpen(endpoint)(rejection)
+            }),
+
+        recordSuccess: (endpoint) =>
+            update(endpoint, (state, now) =>
+                [
+                    undefined,
+                    state._tag === "Closed"
+                        ? CircuitState.Closed({ failures: 0, ...(state.closedAt && { closedAt: state.closedAt }) })
+                        : CircuitState.Closed({ failures: 0, closedAt: now }),
+                ] as const,
+            ),
+
+        recordFailure: (endpoint) =>
+            update(endpoint, (state, now) =>
+                CircuitState.$match(state, {
+                    Closed: ({ failures, closedAt }) =>
+                        failures + 1 >= failureThreshold
+                            ? [undefined, CircuitState.Open({ openedAt: now, failures: failures + 1 })] as const
+                            : [undefined, CircuitState.Closed({ failures: failures + 1, ...(closedAt && { closedAt }) })] as const,
+                    // Late failures from requests started before the circuit opened
+                    Open: ({ openedAt, failures }) =>
+                        [undefined, CircuitState.Open({ openedAt, failures: failures + 1 })] as const,
+                    // Failed probe: re-open and restart the cooldown
+                    HalfOpen: ({ failures }) =>
+                        [undefined, CircuitState.Open({ openedAt: now, failures: failures + 1 })] as const,
+                }),
+            ),
+
+        getState,
+    })
+}
@@ -0,0 +1,62 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Cookie utilities
+ */
+
+/**
+ * Get a cookie value from the request's Cookie header (undefined when missing)
+ */
+export const getCookie = (request: Request, name: string): string | undefined => {
+    const header = request.headers.get("Cookie")
+    if (!header) return undefined
+
+    for (const pair of header.split(";")) {
+        const separator = pair.indexOf("=")
+        if (separator === -1) continue
+
+        if (pair.slice(0, separator).trim() === name) {
+            const value = pair.slice(separator + 1).trim()
+            // Tolerate malformed percent-encoding
+            try {
+                return decodeURIComponent(value)
+            } catch {
+                return value
+            }
+        }
+    }
+
+    return undefined
+}
+
+/**
+ * Attributes of a Set-Cookie header
+ */
+export interface CookieAttributes {
+    readonly maxAgeSeconds?: number
+    readonly path?: string
+    readonly domain?: string
+    readonly secure?: boolean
+    readonly httpOnly?: boolean
+    readonly sameSite?: "Strict" | "Lax" | "None"
+}
+
+/**
+ * Build a Set-Cookie header value (the value is percent-encoded)
+ */
+export const serializeCookie = (
+    name: string,
+    value: string,
+    attributes: CookieAttributes = {},
+): string => {
+    const parts = [`${name}=${encodeURIComponent(value)}`]
+
+    if (attributes.maxAgeSeconds !== undefined) parts.push(`Max-Age=${Math.floor(attributes.maxAgeSeconds)}`)
+    if (attributes.domain !== undefined) parts.push(`Domain=${attributes.domain}`)
+    if (attributes.path !== undefined) parts.push(`Path=${attributes.path}`)
+    if (attributes.secure) parts.push("Secure")
+    if (attributes.httpOnly) parts.push("HttpOnly")
+    if (attributes.sameSite !== undefined) parts.push(`SameSite=${attributes.sameSite}`)
+
+    return parts.join("; ")
+}
@@ -4,6 +4,11 @@
  * Endpoint data type representing a backend URL
  */
 import { Schema } from "effect"
+import { RetryOptions } from "./Forward.js"
+import { HealthCheckOptions } from "./HealthChecker.js"
+import { HostHeaderMode } from "./HostHeader.js"
+import { SlowStartOptions } from "./SlowStart.js"
+import { RewriteRule, rewriteUrl } from "./UrlRewrite.js"
 
 /**
  * Schema for validating endpoint URLs (must be http:// or https://)
@@ -66,6 +71,36 @@ export class Endpoint extends Schema.Class<Endpoint>("Endpoint")({
     timeoutMs: Schema.optionalWith(Schema.Number.pipe(Schema.positive()), {
         default: () => 30000,
     }),
+
+    /**
+     * Retry policy for this endpoint (overrides the load balancer's `retry` option field by field)
+     */
+    retry: Schema.optionalWith(RetryOptions, { exact: true }),
+
+    /**
+     * Health check request and expectations (method, headers, expected statuses, body assertion)
+     * @default GET healthCheckPath, any 2xx is healthy
+     */
+    healthCheck: Schema.optionalWith(HealthCheckOptions, { exact: true }),
+
+    /**
+     * Slow start: after the endpoint recovers (its circuit closes or the health
+     * monitor marks it healthy again), its effective weight ramps up to `weight` over `window`
+     */
+    slowStart: Schema.optionalWith(SlowStartOptions, { exact: true }),
+
+    /**
+     * Host the endpoint receives in the `Host` header and TLS SNI: the endpoint
+     * URL's host, the incoming request's host name (`preserve`), or `{ override }`
+     * @default "endpoint"
+     */
+    hostHeader: Schema.optionalWith(HostHeaderMode, { exact: true }),
+
+    /**
+     * Rewrite rules applied, in order, to the request path and query before
+     * they are appended to the endpoint URL (e.g. strip a public prefix)
+     */
+    rewrite: Schema.optionalWith(Schema.Array(RewriteRule), { exact: true }),
 }) {
     /**
      * Get the normalized URL (without trailing slash)
@@ -82,10 +117,11 @@ export class Endpoint extends Schema.Class<Endpoint>("Endpoint")({
     }
 
     /**
-     * Build target URL by combining endpoint base with request path
+     * Build target URL by combining endpoint base with request path (after the `rewrite` rules)
      */
     buildTargetUrl(pathname: string, search: string): string {
-        return this.normalizedUrl + pathname + search
+        const target = rewriteUrl(this.rewrite ?? [], pathname, search)
+        return this.normalizedUrl + target.pathname + target.search
     }
 }
 
@@ -98,6 +134,11 @@ export const endpoint = (
         readonly healthCheckPath?: string
         readonly weight?: number
         readonly timeoutMs?: number
+        readonly retry?: RetryOptions
+        readonly healthCheck?: HealthCheckOptions
+        readonly slowStart?: SlowStartOptions
+        readonly hostHeader?: HostHeaderMode
+        readonly rewrite?: ReadonlyArray<RewriteRule>
     },
 ): Endpoint =>
     new Endpoint({
@@ -105,4 +146,9 @@ export const endpoint = (
         healthCheckPath: options?.healthCheckPath ?? "/",
         weight: options?.weight ?? 1,
         timeoutMs: options?.timeoutMs ?? 30000,
+        ...(options?.retry !== undefined && { retry: options.retry }),
+        ...(options?.healthCheck !== undefined && { healthCheck: options.healthCheck }),
+        ...(options?.slowStart !== undefined && { slowStart: options.slowStart }),
+        ...(options?.hostHeader !== undefined && { hostHeader: options.hostHeader }),
+        ...(options?.rewrite !== undefined && { rewrite: options.rewrite }),
     })
@@ -5,19 +5,48 @@
  */
 import { Data } from "effect"
 import type { Endpoint } from "./Endpoint.js"
+import type { FailoverDecision } from "./FailoverPolicy.js"
 
 /**
- * Error thrown when no healthy endpoints are available after trying all candidates.
+ * Error thrown when no healthy endpoints are available after trying all candidates,
+ * or when the failover policy refused to replay the request on another endpoint.
  */
 export class NoHealthyEndpointsError extends Data.TaggedError(
     "NoHealthyEndpointsError",
 )<{
     readonly triedEndpoints: ReadonlyArray<Endpoint>
     readonly lastError?: unknown
+    /**
+     * Set when failover stopped because replaying the request was not safe
+     */
+    readonly failoverDecision?: FailoverDecision
 }> {
     override get message() {
         const urls = this.triedEndpoints.map((ep) => ep.url).join(", ")
-        return `No healthy endpoints available. Tried: ${urls || "(none)"}`
+        const refused = this.failoverDecision && !this.failoverDecision.allowed
+            ? ` (failover refused: ${this.failoverDecision.reason} ${this.failoverDecision.method})`
+            : ""
+        return `No healthy endpoints available. Tried: ${urls || "(none)"}${refused}`
+    }
+}
+
+/**
+ * Error thrown when the request deadline runs out before an endpoint answered.
+ * No further endpoints are tried once the deadline has passed.
+ */
+export class DeadlineExceededError extends Data.TaggedError(
+    "DeadlineExceededError",
+)<{
+    /**
+     * The total time budget of the request, in milliseconds
+     */
+    readonly deadlineMs: number
+    readonly triedEndpoints: ReadonlyArray<Endpoint>
+    readonly lastError?: unknown
+}> {
+    override get message() {
+        const urls = this.triedEndpoints.map((ep) => ep.url).join(", ")
+        return `Request deadline of ${this.deadlineMs}ms exceeded. Tried: ${urls || "(none)"}`
     }
 }
 
@@ -28,8 +57,12 @@ export class EndpointUnhealthyError extends Data.TaggedError(
     "EndpointUnhealthyError",
 )<{
     readonly endpoint: Endpoint
-    readonly reason: "timeout" | "status" | "network"
+    readonly reason: "timeout" | "status" | "network" | "body"
     readonly statusCode?: number
+    /**
+     * Which body assertion failed (when `reason` is "body")
+     */
+    readonly detail?: string
 }> {
     override get message() {
         switch (this.reason) {
@@ -39,6 +72,8 @@ export class EndpointUnhealthyError extends Data.TaggedError(
                 return `Endpoint ${this.endpoint.url} returned status ${this.statusCode}`
             case "network":
                 return `Endpoint ${this.endpoint.url} network error`
+            case "body":
+                return `Endpoint ${this.endpoint.url} health check body mismatch: ${this.detail}`
         }
     }
 }
@@ -56,6 +91,19 @@ export class CircuitOpenError extends Data.TaggedError("CircuitOpenError")<{
     }
 }
 
+/**
+ * Error thrown when an endpoint has been ejected by outlier detection.
+ */
+export class EndpointEjectedError extends Data.TaggedError("EndpointEjectedError")<{
+    readonly endpoint: Endpoint
+    readonly ejectedUntil: Date
+    readonly ejections: number
+}> {
+    override get message() {
+        return `Endpoint ${this.endpoint.url} ejected until ${this.ejectedUntil.toISOString()} (ejection #${this.ejections})`
+    }
+}
+
 /**
  * Error thrown when forwarding a request to an endpoint fails.
  */
@@ -69,3 +117,47 @@ export class RequestForwardError extends Data.TaggedError(
         return `Failed to forward request to ${this.endpoint.url}: ${String(this.cause)}`
     }
 }
+
+/**
+ * Error thrown when a request body is larger than the configured limit,
+ * either as declared by its `Content-Length` header or while reading it.
+ * Map it to a 413 response.
+ */
+export class RequestTooLargeError extends Data.TaggedError("RequestTooLargeError")<{
+    readonly maxBytes: number
+    /**
+     * The declared size, when the request was rejected from its `Content-Length` header
+     */
+    readonly contentLength?: number
+}> {
+    override get message() {
+        const declared = this.contentLength !== undefined ? ` (Content-Length: ${this.contentLength})` : ""
+        return `Request body exceeds the limit of ${this.maxBytes} bytes${declared}`
+    }
+}
+
+/**
+ * Error thrown when a request matches none of the router's routes.
+ * Map it to a 404 response, or end the routes with a catch-all route.
+ */
+export class NoRouteError extends Data.TaggedError("NoRouteError")<{
+    readonly method: string
+    readonly url: string
+}> {
+    override get message() {
+        return `No route matches ${this.method} ${this.url}`
+    }
+}
+
+/**
+ * Error thrown when a StateStore operation fails.
+ */
+export class StateStoreError extends Data.TaggedError("StateStoreError")<{
+    readonly operation: "get" | "set" | "delete"
+    readonly key: string
+    readonly cause: unknown
+}> {
+    override get message() {
+        return `State store ${this.operation} failed for key "${this.key}": ${String(this.cause)}`
+    }
+}
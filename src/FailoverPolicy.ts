@@ -0,0 +1,153 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Failover policy - decide whether a failed request may be replayed
+ */
+import { Schema } from "effect"
+import type { RequestForwardError } from "./Errors.js"
+
+/**
+ * Methods that are idempotent per RFC 9110 and safe to replay by default
+ */
+export const DEFAULT_IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "TRACE", "PUT", "DELETE"] as const
+
+/**
+ * Header whose presence marks a request as safe to replay
+ */
+export const DEFAULT_IDEMPOTENCY_KEY_HEADER = "Idempotency-Key"
+
+/**
+ * Error codes meaning the connection was never established,
+ * so the backend cannot have received the request (set by Node and Bun)
+ */
+const CONNECT_ERROR_CODES = [
+    "ECONNREFUSED",
+    "ENOTFOUND",
+    "EAI_AGAIN",
+    "EHOSTUNREACH",
+    "ENETUNREACH",
+    "UND_ERR_CONNECT_TIMEOUT",
+] as const
+
+/**
+ * Failover policy options
+ */
+export const FailoverPolicy = Schema.Struct({
+    /**
+     * Methods that may always be retried or failed over
+     * @default ["GET", "HEAD", "OPTIONS", "TRACE", "PUT", "DELETE"]
+     */
+    idempotentMethods: Schema.optionalWith(Schema.Array(Schema.String), { exact: true }),
+    /**
+     * Header that makes any request safe to replay when present
+     * @default "Idempotency-Key"
+     */
+    idempotencyKeyHeader: Schema.optionalWith(Schema.String, { exact: true }),
+    /**
+     * Replay every request regardless of method (the pre-policy behavior)
+     * @default false
+     */
+    allowNonIdempotent: Schema.optionalWith(Schema.Boolean, { exact: true }),
+})
+export type FailoverPolicy = typeof FailoverPolicy.Type
+
+/**
+ * Why a request was (or was not) allowed to be replayed
+ *
+ * - `idempotent-method`: the method is idempotent
+ * - `idempotency-key`: the request carries an idempotency key header
+ * - `not-delivered`: the connection failed, so the backend never saw the request
+ * - `allow-non-idempotent`: the policy allows replaying every request
+ * - `non-idempotent`: none of the above, replaying could duplicate side effects
+ * - `body-streamed`: the body was streamed to the endpoint and was too large to keep a copy
+ */
+export type FailoverReason =
+    | "idempotent-method"
+    | "idempotency-key"
+    | "not-delivered"
+    | "allow-non-idempotent"
+    | "non-idempotent"
+    | "body-streamed"
+
+/**
+ * Decision on whether a failed request may be retried or failed over
+ */
+export interface FailoverDecision {
+    readonly allowed: boolean
+    readonly reason: FailoverReason
+    readonly method: string
+}
+
+/**
+ * Check whether a forward error happened before the connection was established.
+ *
+ * Only Node and Bun report this, with a system error code such as `ECONNREFUSED`.
+ * Workers fetch errors carry no such code (an unreachable origin is usually a 52x
+ * response from Cloudflare instead), so on Workers this is always false and
+ * non-idempotent requests are not replayed after a network error.
+ */
+export const isConnectFailure = (error: RequestForwardError): boolean => {
+    // Walk the cause chain (fetch wraps the system error in `cause`)
+    let cause: unknown = error.cause
+    for (let depth = 0; depth < 5 && cause !== undefined && cause !== null; depth++) {
+        if (typeof cause === "object") {
+            const code = (cause as { readonly code?: unknown }).code
+            if (typeof code === "string" && (CONNECT_ERROR_CODES as ReadonlyArray<string>).includes(code)) {
+                return true
+            }
+            cause = (cause as { readonly cause?: unknown }).cause
+        } else {
+            return false
+        }
+    }
+    return false
+}
+
+/**
+ * Decide whether a request may be replayed regardless of how it failed
+ */
+export const decideReplay = (request: Request, policy?: FailoverPolicy): FailoverDecision => {
+    const method = request.method.toUpperCase()
+    const idempotentMethods = policy?.idempotentMethods ?? DEFAULT_IDEMPOTENT_METHODS
+
+    if (idempotentMethods.some((m) => m.toUpperCase() === method)) {
+        return { allowed: true, reason: "idempotent-method", method }
+    }
+    if (request.headers.has(policy?.idempotencyKeyHeader ?? DEFAULT_IDEMPOTENCY_KEY_HEADER)) {
+        return { allowed: true, reason: "idempotency-key", method }
+    }
+    if (policy?.allowNonIdempotent) {
+        return { allowed: true, reason: "allow-non-idempotent", method }
+    }
+    return { allowed: false, reason: "non-idempotent", method }
+}
+
+/**
+ * Decide whether a request may be retried or failed over after a failure.
+ *
+ * @param request - The original request
+ * @param failure - The forward error, or the response status that triggered failover
+ * @param policy - Failover policy options
+ * @param bodyReplayable - Whether the request body can be sent again (false when a
+ *   streamed body did not fit in the buffer)
+ */
+export const decideFailover = (
+    request: Request,
+    failure: RequestForwardError | number,
+    policy?: FailoverPolicy,
+    bodyReplayable = true,
+): FailoverDecision => {
+    const decision = decideReplay(request, policy)
+
+    if (!decision.allowed && typeof failure !== "number" && isConnectFailure(failure)) {
+        return bodyReplayable
+            ? { allowed: true, reason: "not-delivered", method: decision.method }
+            : { allowed: false, reason: "body-streamed", method: decision.method }
+    }
+
+    if (decision.allowed && !bodyReplayable) {
+        return { allowed: false, reason: "body-streamed", method: decision.method }
+    }
+
+    return decision
+}
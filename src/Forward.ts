@@ -3,9 +3,11 @@
  *
  * Forward requests to endpoints
  */
-import { Effect, Schedule, Duration } from "effect"
+import { Data, Effect, Schedule, Schema, Duration } from "effect"
 import type { Endpoint } from "./Endpoint.js"
-import { RequestForwardError } from "./Errors.js"
+import { RequestForwardError, RequestTooLargeError } from "./Errors.js"
+import { resolveUpstreamTarget } from "./HostHeader.js"
+import { stripHopByHopHeaders, stripHopByHopResponseHeaders } from "./ProxyHeaders.js"
 
 /**
  * HTTP methods that should NOT have a body
@@ -23,42 +25,173 @@ export const methodSupportsBody = (method: string): boolean =>
  */
 export type BufferedBody = ArrayBuffer | null
 
+/**
+ * Default largest body kept in memory for failover when streaming request bodies (1 MiB)
+ */
+export const DEFAULT_MAX_BUFFER_BYTES = 1024 * 1024
+
+/**
+ * A request body streamed to the first endpoint, with a bounded copy kept for
+ * retries and failover
+ */
+export interface StreamedBody {
+    readonly _tag: "StreamedBody"
+    /**
+     * Body for the next attempt: the stream the first time, the copy afterwards
+     * (fails when the copy could not hold the whole body)
+     */
+    readonly take: Effect.Effect<ReadableStream<Uint8Array> | ArrayBuffer, BodyNotReplayable>
+    /**
+     * Whether the body can be sent again. Waits until the copy holds the whole
+     * body, or has given up because it exceeded the buffer limit.
+     */
+    readonly replayable: Effect.Effect<boolean>
+    /**
+     * Fails once more than `maxBodyBytes` have been read from the body
+     * (the stream is aborted at that point)
+     */
+    readonly withinLimit: Effect.Effect<void, RequestTooLargeError>
+}
+
+/**
+ * A prepared request body: buffered, streamed, or none
+ */
+export type RequestBody = BufferedBody | StreamedBody
+
+/**
+ * Request body handling options
+ */
+export const RequestBodyOptions = Schema.Struct({
+    /**
+     * - `buffer`: read the whole body before the first attempt, so it can always be replayed
+     * - `stream`: stream the body to the first endpoint while keeping a copy of at most
+     *   `maxBufferBytes`; retries and failover are only possible when the copy holds the whole body
+     * @default "buffer"
+     */
+    mode: Schema.optionalWith(Schema.Literal("buffer", "stream"), { exact: true }),
+    /**
+     * Largest body kept in memory for retries and failover in `stream` mode
+     * @default 1048576 (1 MiB)
+     */
+    maxBufferBytes: Schema.optionalWith(Schema.Number.pipe(Schema.int(), Schema.nonNegative()), { exact: true }),
+    /**
+     * Largest request body accepted, checked against `Content-Length` upfront and
+     * while reading the body; larger requests fail with `RequestTooLargeError`
+     * @default no limit
+     */
+    maxBodyBytes: Schema.optionalWith(Schema.Number.pipe(Schema.int(), Schema.nonNegative()), { exact: true }),
+})
+export type RequestBodyOptions = typeof RequestBodyOptions.Type
+
+/**
+ * Schema for Effect duration inputs (a Duration, millis, or e.g. "100 millis")
+ */
+export const DurationInput = Schema.Union(
+    Schema.DurationFromSelf,
+    Schema.Number,
+    Schema.TemplateLiteral(
+        Schema.Number,
+        Schema.Literal(
+            " nanos", " nano", " micros", " micro", " millis", " milli",
+            " seconds", " second", " minutes", " minute", " hours", " hour",
+            " days", " day", " weeks", " week",
+        ),
+    ),
+)
+
 /**
  * Retry policy options for requests to endpoints.
  */
-export interface RetryOptions {
+export const RetryOptions = Schema.Struct({
     /**
      * Maximum number of retries per endpoint
      * @default 0
      */
-    readonly maxRetries?: number
+    maxRetries: Schema.optionalWith(Schema.Number.pipe(Schema.nonNegative()), { exact: true }),
     /**
      * Initial delay before first retry
      * @default "100 millis"
      */
-    readonly initialDelay?: Duration.DurationInput
+    initialDelay: Schema.optionalWith(DurationInput, { exact: true }),
     /**
      * Maximum backoff delay
      * @default "5 seconds"
      */
-    readonly maxDelay?: Duration.DurationInput
+    maxDelay: Schema.optionalWith(DurationInput, { exact: true }),
     /**
      * Exponential backoff factor
      * @default 2
      */
-    readonly factor?: number
+    factor: Schema.optionalWith(Schema.Number.pipe(Schema.positive()), { exact: true }),
+    /**
+     * Randomize each delay (between 80% and 120%) to avoid synchronized retries
+     * @default false
+     */
+    jitter: Schema.optionalWith(Schema.Boolean, { exact: true }),
+    /**
+     * Response status codes that are retried like network errors.
+     * If the last retry still returns one of them, that response is returned.
+     * @default [] (availability methods default to their failover statuses)
+     */
+    retryOnStatuses: Schema.optionalWith(Schema.Array(Schema.Number), { exact: true }),
+})
+export type RetryOptions = typeof RetryOptions.Type
+
+/**
+ * Build the backoff schedule for a retry policy:
+ * exponential delays (optionally jittered), each capped at `maxDelay`,
+ * for at most `maxRetries` retries.
+ */
+export const retrySchedule = (retryOptions: RetryOptions) => {
+    const {
+        maxRetries = 0,
+        initialDelay = "100 millis",
+        maxDelay = "5 seconds",
+        factor = 2,
+        jitter = false,
+    } = retryOptions
+
+    const exponential = Schedule.exponential(initialDelay, factor)
+    const backoff = jitter ? Schedule.jittered(exponential) : exponential
+
+    return backoff.pipe(
+        Schedule.modifyDelay((_, delay) => Duration.min(delay, Duration.decode(maxDelay))),
+        Schedule.intersect(Schedule.recurs(maxRetries)),
+    )
+}
+
+/**
+ * Failure taking a streamed body again once its copy exceeded the buffer limit
+ */
+export class BodyNotReplayable extends Data.TaggedError("BodyNotReplayable")<{
+    readonly maxBufferBytes: number
+}> {
+    override get message() {
+        return `Request body was streamed and is larger than ${this.maxBufferBytes} bytes, so it cannot be sent again`
+    }
 }
 
+/**
+ * Internal failure used to retry responses with a retryable status code
+ */
+class RetryableStatus extends Data.TaggedError("RetryableStatus")<{
+    readonly response: Response
+}> { }
+
 /**
  * Buffer a request body for potential retries.
  * Returns null for methods that don't support body (GET, HEAD, OPTIONS).
  * 
+ * With `maxBodyBytes`, bodies declaring a larger `Content-Length` are rejected
+ * without being read, and reading stops as soon as the body exceeds the limit.
+ * 
  * This should be called ONCE before any forwarding attempts to avoid
  * consuming the ReadableStream multiple times.
  */
 export const bufferRequestBody = (
     request: Request,
-): Effect.Effect<BufferedBody, RequestForwardError> =>
+    maxBodyBytes?: number,
+): Effect.Effect<BufferedBody, RequestForwardError | RequestTooLargeError> =>
     Effect.gen(function* () {
         // Don't buffer body for methods that shouldn't have one
         if (!methodSupportsBody(request.method)) {
@@ -66,13 +199,16 @@ export const bufferRequestBody = (
         }
 
         // If there's no body, return null
-        if (!request.body) {
+        const stream = request.body
+        if (!stream) {
             return null
         }
 
+        yield* checkContentLength(request, maxBodyBytes)
+
         // Buffer the body as ArrayBuffer for retry support
         const body = yield* Effect.tryPromise({
-            try: () => request.arrayBuffer(),
+            try: () => maxBodyBytes === undefined ? request.arrayBuffer() : readUpTo(stream, maxBodyBytes),
             catch: (cause) =>
                 new RequestForwardError({
                     endpoint: { url: request.url } as Endpoint,
@@ -80,77 +216,261 @@ export const bufferRequestBody = (
                 }),
         })
 
+        if (body === null) {
+            return yield* new RequestTooLargeError({ maxBytes: maxBodyBytes ?? 0 })
+        }
+        return body
+    })
+
+/**
+ * Reject a request whose `Content-Length` header declares a body over the limit
+ */
+const checkContentLength = (
+    request: Request,
+    maxBodyBytes: number | undefined,
+): Effect.Effect<void, RequestTooLargeError> => {
+    const contentLength = Number(request.headers.get("Content-Length") ?? NaN)
+    return maxBodyBytes !== undefined && contentLength > maxBodyBytes
+        ? Effect.fail(new RequestTooLargeError({ maxBytes: maxBodyBytes, contentLength }))
+        : Effect.void
+}
+
+/**
+ * Read a stream into memory, giving up (and cancelling it) once it exceeds `maxBytes`.
+ * Resolves to null when the stream is too large.
+ */
+const readUpTo = async (
+    stream: ReadableStream<Uint8Array>,
+    maxBytes: number,
+): Promise<ArrayBuffer | null> => {
+    const reader = stream.getReader()
+    const chunks: Uint8Array[] = []
+    let size = 0
+
+    for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        size += value.byteLength
+        if (size > maxBytes) {
+            await reader.cancel()
+            return null
+        }
+        chunks.push(value)
+    }
+
+    const body = new Uint8Array(size)
+    let offset = 0
+    for (const chunk of chunks) {
+        body.set(chunk, offset)
+        offset += chunk.byteLength
+    }
+    return body.buffer
+}
+
+/**
+ * Prepare a request body for streaming.
+ * Returns null for methods that don't support body (GET, HEAD, OPTIONS).
+ *
+ * The body is split with `tee()`: one branch is streamed to the first endpoint,
+ * the other is copied into memory for retries and failover until it exceeds
+ * `maxBufferBytes`, at which point the copy is dropped and the body can only
+ * be sent once.
+ *
+ * With `maxBodyBytes`, bodies declaring a larger `Content-Length` are rejected
+ * upfront, and the stream is aborted once more than that has been read
+ * (`withinLimit` then fails).
+ *
+ * This should be called ONCE before any forwarding attempts.
+ */
+export const streamRequestBody = (
+    request: Request,
+    maxBufferBytes: number = DEFAULT_MAX_BUFFER_BYTES,
+    maxBodyBytes?: number,
+): Effect.Effect<StreamedBody | null, RequestTooLargeError> =>
+    Effect.gen(function* () {
+        if (!methodSupportsBody(request.method) || !request.body) {
+            return null
+        }
+
+        yield* checkContentLength(request, maxBodyBytes)
+
+        // Abort the body (both branches) once it exceeds the limit
+        let tooLarge: RequestTooLargeError | undefined
+        let size = 0
+        const source = maxBodyBytes === undefined
+            ? request.body
+            : request.body.pipeThrough(
+                new TransformStream<Uint8Array, Uint8Array>({
+                    transform: (chunk, controller) => {
+                        size += chunk.byteLength
+                        if (size > maxBodyBytes) {
+                            tooLarge = new RequestTooLargeError({ maxBytes: maxBodyBytes })
+                            controller.error(tooLarge)
+                        } else {
+                            controller.enqueue(chunk)
+                        }
+                    },
+                }),
+            )
+
+        const [stream, copyBranch] = source.tee()
+        const copy = readUpTo(copyBranch, maxBufferBytes).catch(() => null)
+        let streamed = false
+
+        const body: StreamedBody = {
+            _tag: "StreamedBody",
+            take: Effect.suspend((): StreamedBody["take"] => {
+                if (!streamed) {
+                    streamed = true
+                    return Effect.succeed(stream)
+                }
+                return Effect.promise(() => copy).pipe(
+                    Effect.flatMap((buffer) =>
+                        buffer === null
+                            ? Effect.fail(new BodyNotReplayable({ maxBufferBytes }))
+                            : Effect.succeed(buffer),
+                    ),
+                )
+            }),
+            replayable: Effect.promise(() => copy).pipe(Effect.map((buffer) => buffer !== null)),
+            withinLimit: Effect.suspend(() => (tooLarge ? Effect.fail(tooLarge) : Effect.void)),
+        }
         return body
     })
 
+/**
+ * Prepare a request body according to the request body options:
+ * `bufferRequestBody` by default, `streamRequestBody` in `stream` mode.
+ */
+export const prepareRequestBody = (
+    request: Request,
+    options?: RequestBodyOptions,
+): Effect.Effect<RequestBody, RequestForwardError | RequestTooLargeError> =>
+    options?.mode === "stream"
+        ? streamRequestBody(request, options.maxBufferBytes, options.maxBodyBytes)
+        : bufferRequestBody(request, options?.maxBodyBytes)
+
+/**
+ * Fail when a streamed body turned out to be larger than its `maxBodyBytes`
+ * (buffered bodies are checked by `bufferRequestBody`)
+ */
+export const checkBodyLimit = (body: RequestBody): Effect.Effect<void, RequestTooLargeError> =>
+    body !== null && !(body instanceof ArrayBuffer) ? body.withinLimit : Effect.void
+
+/**
+ * Check whether a prepared body can be sent again (always true unless it is a
+ * streamed body whose copy exceeded the buffer limit)
+ */
+export const isBodyReplayable = (body: RequestBody): Effect.Effect<boolean> =>
+    body !== null && !(body instanceof ArrayBuffer) ? body.replayable : Effect.succeed(true)
+
 /**
  * Forward a request to an endpoint.
  * 
+ * Hop-by-hop headers (`Connection`, `Keep-Alive`, `TE`, ...) are stripped from
+ * both the request and the response. The endpoint receives the host chosen by
+ * `Endpoint.hostHeader`.
+ *
  * @param endpoint - The endpoint to forward to
  * @param request - The original request (used for method, headers, URL path)
- * @param bufferedBody - Pre-buffered body from bufferRequestBody (enables retries)
+ * @param bufferedBody - Body prepared by bufferRequestBody (enables retries) or streamRequestBody
  */
 export const forwardRequest = (
     endpoint: Endpoint,
     request: Request,
-    bufferedBody: BufferedBody = null,
+    bufferedBody: RequestBody = null,
 ): Effect.Effect<Response, RequestForwardError> =>
     Effect.gen(function* () {
-        const url = new URL(request.url)
-        const targetUrl = endpoint.buildTargetUrl(url.pathname, url.search)
+        const target = resolveUpstreamTarget(endpoint, request)
+        // The Host header follows the URL
+        const headers = stripHopByHopHeaders(request.headers)
+        headers.delete("Host")
 
         // Determine body to send
         // - Use buffered body if provided (enables retry support)
+        // - Take the stream (first attempt) or its copy from a streamed body
         // - Strip body for GET/HEAD/OPTIONS even if buffered body exists
-        const body = methodSupportsBody(request.method) ? bufferedBody : null
+        const prepared = methodSupportsBody(request.method) ? bufferedBody : null
+        const body = prepared === null || prepared instanceof ArrayBuffer
+            ? prepared
+            : yield* prepared.take.pipe(
+                Effect.mapError((cause) => new RequestForwardError({ endpoint, cause })),
+            )
 
         const response = yield* Effect.tryPromise({
-            try: () =>
-                fetch(targetUrl, {
+            // Abort on timeout, or when the request is interrupted (e.g. a losing hedged request)
+            try: (signal) =>
+                fetch(target.url, {
                     method: request.method,
-                    headers: request.headers,
+                    headers,
                     body,
+                    // Required to send a stream body
+                    ...(body instanceof ReadableStream && { duplex: "half" }),
                     redirect: "follow",
-                    signal: AbortSignal.timeout(endpoint.timeoutMs),
+                    signal: AbortSignal.any([signal, AbortSignal.timeout(endpoint.timeoutMs)]),
+                    // Connect to the endpoint when the URL carries another host name
+                    ...(target.resolveOverride !== undefined && { cf: { resolveOverride: target.resolveOverride } }),
                 }),
             catch: (cause) => new RequestForwardError({ endpoint, cause }),
         })
 
-        return response
+        return stripHopByHopResponseHeaders(response)
     })
 
 /**
- * Forward a request with retry policy (exponential backoff).
+ * Forward a request with retry policy (capped exponential backoff).
+ * 
+ * Network errors are retried (unless `isRetryable` rejects them); responses
+ * are retried when their status is listed in `retryOnStatuses`. A streamed
+ * body is only retried while its copy holds the whole body.
  * 
  * @param endpoint - The endpoint to forward to
  * @param request - The original request
- * @param bufferedBody - Pre-buffered body for retries
+ * @param bufferedBody - Prepared body for retries
  * @param retryOptions - Retry configuration
+ * @param isRetryable - Which network errors may be retried (default: all)
  */
 export const forwardRequestWithRetry = (
     endpoint: Endpoint,
     request: Request,
-    bufferedBody: BufferedBody = null,
+    bufferedBody: RequestBody = null,
     retryOptions?: RetryOptions,
+    isRetryable: (error: RequestForwardError) => boolean = () => true,
 ): Effect.Effect<Response, RequestForwardError> => {
-    const effect = forwardRequest(endpoint, request, bufferedBody)
-
     if (!retryOptions || (retryOptions.maxRetries ?? 0) <= 0) {
-        return effect
+        return forwardRequest(endpoint, request, bufferedBody)
     }
 
-    const {
-        maxRetries = 0,
-        initialDelay = "100 millis",
-        factor = 2,
-    } = retryOptions
+    const retryOnStatuses = retryOptions.retryOnStatuses ?? []
 
-    // Schedule: Exponential backoff limited by max retries
-    const policy = Schedule.exponential(initialDelay, factor).pipe(
-        Schedule.intersect(Schedule.recurs(maxRetries)),
-    )
+    return Effect.suspend(() => {
+        // Response with a retryable status, returned if retries run out
+        let lastResponse: Response | undefined
 
-    return effect.pipe(Effect.retry(policy))
+        return forwardRequest(endpoint, request, bufferedBody).pipe(
+            Effect.flatMap((response) => {
+                if (!retryOnStatuses.includes(response.status)) {
+                    return Effect.succeed(response)
+                }
+                // Discard the body of the response we are about to replace
+                void lastResponse?.body?.cancel().catch(() => undefined)
+                lastResponse = response
+                return Effect.fail(new RetryableStatus({ response }))
+            }),
+            Effect.retry({
+                schedule: retrySchedule(retryOptions),
+                while: (error) =>
+                    error._tag === "RetryableStatus" || isRetryable(error)
+                        ? isBodyReplayable(bufferedBody)
+                        : false,
+            }),
+            Effect.catchTag("RetryableStatus", ({ response }) => Effect.succeed(response)),
+            // A network error on the last retry still has a response to fall back to
+            Effect.catchTag("RequestForwardError", (error) =>
+                lastResponse ? Effect.succeed(lastResponse) : Effect.fail(error),
+            ),
+        )
+    })
 }
 
 /**
@@ -167,6 +487,9 @@ export const forwardRequestSimple = (
     request: Request,
 ): Effect.Effect<Response, RequestForwardError> =>
     Effect.gen(function* () {
-        const bufferedBody = yield* bufferRequestBody(request)
+        // Without a size limit the body is never too large
+        const bufferedBody = yield* bufferRequestBody(request).pipe(
+            Effect.catchTag("RequestTooLargeError", Effect.die),
+        )
         return yield* forwardRequest(endpoint, request, bufferedBody)
     })
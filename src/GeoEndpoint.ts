@@ -5,6 +5,11 @@
  */
 import { Schema } from "effect"
 import { Endpoint } from "./Endpoint.js"
+import { RetryOptions } from "./Forward.js"
+import { HealthCheckOptions } from "./HealthChecker.js"
+import { HostHeaderMode } from "./HostHeader.js"
+import { SlowStartOptions } from "./SlowStart.js"
+import { RewriteRule } from "./UrlRewrite.js"
 
 /**
  * Continent codes as defined by Cloudflare
@@ -92,6 +97,31 @@ export class GeoEndpoint extends Schema.Class<GeoEndpoint>("GeoEndpoint")({
         default: () => 30000,
     }),
 
+    /**
+     * Retry policy for this endpoint
+     */
+    retry: Schema.optionalWith(RetryOptions, { exact: true }),
+
+    /**
+     * Health check request and expectations
+     */
+    healthCheck: Schema.optionalWith(HealthCheckOptions, { exact: true }),
+
+    /**
+     * Slow-start ramp after the endpoint recovers
+     */
+    slowStart: Schema.optionalWith(SlowStartOptions, { exact: true }),
+
+    /**
+     * Host the endpoint receives in the `Host` header and TLS SNI (see `Endpoint.hostHeader`)
+     */
+    hostHeader: Schema.optionalWith(HostHeaderMode, { exact: true }),
+
+    /**
+     * Rewrite rules applied to the request path and query (see `Endpoint.rewrite`)
+     */
+    rewrite: Schema.optionalWith(Schema.Array(RewriteRule), { exact: true }),
+
     /**
      * Geographic targeting configuration
      */
@@ -106,6 +136,11 @@ export class GeoEndpoint extends Schema.Class<GeoEndpoint>("GeoEndpoint")({
             healthCheckPath: this.healthCheckPath,
             weight: this.weight,
             timeoutMs: this.timeoutMs,
+            ...(this.retry !== undefined && { retry: this.retry }),
+            ...(this.healthCheck !== undefined && { healthCheck: this.healthCheck }),
+            ...(this.slowStart !== undefined && { slowStart: this.slowStart }),
+            ...(this.hostHeader !== undefined && { hostHeader: this.hostHeader }),
+            ...(this.rewrite !== undefined && { rewrite: this.rewrite }),
         })
     }
 
@@ -156,6 +191,11 @@ export const geoEndpoint = (
         readonly healthCheckPath?: string
         readonly weight?: number
         readonly timeoutMs?: number
+        readonly retry?: RetryOptions
+        readonly healthCheck?: HealthCheckOptions
+        readonly slowStart?: SlowStartOptions
+        readonly hostHeader?: HostHeaderMode
+        readonly rewrite?: ReadonlyArray<RewriteRule>
     },
 ): GeoEndpoint =>
     new GeoEndpoint({
@@ -164,4 +204,9 @@ export const geoEndpoint = (
         healthCheckPath: options?.healthCheckPath ?? "/",
         weight: options?.weight ?? 1,
         timeoutMs: options?.timeoutMs ?? 30000,
+        ...(options?.retry !== undefined && { retry: options.retry }),
+        ...(options?.healthCheck !== undefined && { healthCheck: options.healthCheck }),
+        ...(options?.slowStart !== undefined && { slowStart: options.slowStart }),
+        ...(options?.hostHeader !== undefined && { hostHeader: options.hostHeader }),
+        ...(options?.rewrite !== undefined && { rewrite: options.rewrite }),
     })
@@ -7,13 +7,17 @@ import type { Endpoint } from "./Endpoint.js"
 import type { GeoEndpoint } from "./GeoEndpoint.js"
 
 /**
- * Cloudflare request properties for geo data
+ * Cloudflare request properties used for steering (geo data and network)
  */
 export interface CfProperties {
     readonly continent?: string
     readonly country?: string
     readonly regionCode?: string
     readonly colo?: string
+    /**
+     * Autonomous system number of the client's network
+     */
+    readonly asn?: number
 }
 
 /**
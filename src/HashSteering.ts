@@ -0,0 +1,96 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Hash steering - send requests with the same key to the same endpoint
+ */
+import { Schema } from "effect"
+import { getCookie } from "./Cookies.js"
+import type { Endpoint } from "./Endpoint.js"
+
+/**
+ * Where the hash key is read from
+ *
+ * - `header`: a request header (e.g., a tenant ID)
+ * - `cookie`: a cookie value (e.g., a session ID)
+ * - `query`: a query parameter (e.g., a room name)
+ * - `path`: the request pathname
+ * - `ip`: the client IP (`CF-Connecting-IP`, or the first `X-Forwarded-For` entry)
+ */
+export const HashKey = Schema.Union(
+    Schema.Struct({ type: Schema.Literal("header"), name: Schema.String }),
+    Schema.Struct({ type: Schema.Literal("cookie"), name: Schema.String }),
+    Schema.Struct({ type: Schema.Literal("query"), name: Schema.String }),
+    Schema.Struct({ type: Schema.Literal("path") }),
+    Schema.Struct({ type: Schema.Literal("ip") }),
+)
+export type HashKey = typeof HashKey.Type
+
+/**
+ * Extract the hash key from a request (undefined when the request has none)
+ */
+export const extractHashKey = (request: Request, key: HashKey): string | undefined => {
+    switch (key.type) {
+        case "header":
+            return request.headers.get(key.name) ?? undefined
+        case "cookie":
+            return getCookie(request, key.name)
+        case "query":
+            return new URL(request.url).searchParams.get(key.name) ?? undefined
+        case "path":
+            return new URL(request.url).pathname
+        case "ip":
+            return (
+                request.headers.get("CF-Connecting-IP") ??
+                request.headers.get("X-Forwarded-For")?.split(",")[0]?.trim() ??
+                undefined
+            )
+    }
+}
+
+/**
+ * 32-bit FNV-1a hash with a final avalanche step (from MurmurHash3)
+ */
+export const hash32 = (input: string): number => {
+    let h = 0x811c9dc5
+    for (let i = 0; i < input.length; i++) {
+        h ^= input.charCodeAt(i)
+        h = Math.imul(h, 0x01000193)
+    }
+    h ^= h >>> 16
+    h = Math.imul(h, 0x85ebca6b)
+    h ^= h >>> 13
+    h = Math.imul(h, 0xc2b2ae35)
+    h ^= h >>> 16
+    return h >>> 0
+}
+
+/**
+ * Weighted rendezvous score of an endpoint for a key (higher wins)
+ */
+const rendezvousScore = (key: string, endpoint: Endpoint, weight: number): number => {
+    // Map the hash to (0, 1) so the logarithm is finite and negative
+    const unit = (hash32(`${key}\u0000${endpoint.normalizedUrl}`) + 0.5) / 0x100000000
+    return -weight / Math.log(unit)
+}
+
+/**
+ * Order endpoints by weighted rendezvous (highest random weight) hashing.
+ *
+ * The same key always yields the same order, and each endpoint comes first for
+ * a share of keys proportional to its weight. Adding or removing an endpoint only
+ * moves the keys that endpoint wins or won; the others keep their order, so the
+ * next endpoint in the list is a stable failover target.
+ *
+ * @param endpoints - Candidate endpoints
+ * @param key - Hash key extracted from the request
+ * @param weights - Effective weight of each endpoint (defaults to `Endpoint.weight`)
+ */
+export const selectHashEndpoints = (
+    endpoints: ReadonlyArray<Endpoint>,
+    key: string,
+    weights: ReadonlyArray<number> = endpoints.map((ep) => ep.weight),
+): ReadonlyArray<Endpoint> =>
+    endpoints
+        .map((endpoint, i) => ({ endpoint, score: rendezvousScore(key, endpoint, weights[i]!) }))
+        .sort((a, b) => b.score - a.score)
+        .map(({ endpoint }) => endpoint)
@@ -20,10 +20,18 @@ export const HEADERS = {
     TRIED_COUNT: "X-Load-Balancer-Tried-Count",
     /** Comma-separated endpoint URLs tried (only on failover) */
     TRIED_ENDPOINTS: "X-Load-Balancer-Tried-Endpoints",
+    /** Whether the hedged request won ("true") or the original one ("false"), only when a hedge was sent */
+    HEDGED: "X-Load-Balancer-Hedged",
+    /** Name of the router route that matched (only with a router) */
+    ROUTE: "X-Load-Balancer-Route",
+    /** Name of the traffic split pool that served the request (only with a traffic split) */
+    POOL: "X-Load-Balancer-Pool",
 } as const
 
 /**
  * Add load balancer headers to a response
+ *
+ * @param hedgeWon - Whether a hedged request served the response (omit when no hedge was sent)
  */
 export const addLoadBalancerHeaders = (
     response: Response,
@@ -31,6 +39,7 @@ export const addLoadBalancerHeaders = (
     triedEndpoints: ReadonlyArray<Endpoint>,
     startTime: number,
     gatherTime: number,
+    hedgeWon?: boolean,
 ): Response => {
     const endTime = Date.now()
     const headers = new Headers(response.headers)
@@ -48,9 +57,39 @@ export const addLoadBalancerHeaders = (
         )
     }
 
+    if (hedgeWon !== undefined) {
+        headers.set(HEADERS.HEDGED, String(hedgeWon))
+    }
+
+    return new Response(response.body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+    })
+}
+
+/**
+ * Copy a response with one more header
+ */
+const withHeader = (response: Response, name: string, value: string): Response => {
+    const headers = new Headers(response.headers)
+    headers.set(name, value)
+
     return new Response(response.body, {
         status: response.status,
         statusText: response.statusText,
         headers,
     })
 }
+
+/**
+ * Add the name of the matched route to a response
+ */
+export const addRouteHeader = (response: Response, route: string): Response =>
+    withHeader(response, HEADERS.ROUTE, route)
+
+/**
+ * Add the name of the traffic split pool that served the request to a response
+ */
+export const addPoolHeader = (response: Response, pool: string): Response =>
+    withHeader(response, HEADERS.POOL, pool)
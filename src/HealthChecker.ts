@@ -3,9 +3,11 @@
  *
  * HealthChecker service for checking endpoint health
  */
-import { Context, Effect, Layer } from "effect"
+import { Context, Effect, Layer, Schema } from "effect"
 import type { Endpoint } from "./Endpoint.js"
 import { EndpointUnhealthyError } from "./Errors.js"
+import { upstreamTargetWithHost, type UpstreamTarget } from "./HostHeader.js"
+import { RegExpFlags, RegExpSource } from "./Patterns.js"
 
 /**
  * Default health check timeout in milliseconds.
@@ -22,6 +24,221 @@ export const getHealthCheckTimeout = (endpoint: Endpoint): number => {
     return Math.max(1000, Math.min(halfTimeout, 10000))
 }
 
+/**
+ * Expected status code range for health checks (inclusive)
+ */
+export const HealthCheckStatusRange = Schema.Struct({
+    min: Schema.Number,
+    max: Schema.Number,
+})
+export type HealthCheckStatusRange = typeof HealthCheckStatusRange.Type
+
+/**
+ * Assertion on the health check response body
+ *
+ * - `contains`: the body contains `value`
+ * - `regex`: the body matches `pattern` (with optional `flags`)
+ * - `json`: the body is JSON and the value at `path` (e.g. "$.checks.db.status" or
+ *   "items[0].ok") equals `equals`, or exists and is not null when `equals` is omitted
+ */
+export const HealthCheckBodyAssertion = Schema.Union(
+    Schema.Struct({
+        type: Schema.Literal("contains"),
+        value: Schema.String,
+    }),
+    Schema.Struct({
+        type: Schema.Literal("regex"),
+        pattern: RegExpSource,
+        flags: Schema.optionalWith(RegExpFlags, { exact: true }),
+    }),
+    Schema.Struct({
+        type: Schema.Literal("json"),
+        path: Schema.String,
+        equals: Schema.optionalWith(
+            Schema.Union(Schema.String, Schema.Number, Schema.Boolean, Schema.Null),
+            { exact: true },
+        ),
+    }),
+)
+export type HealthCheckBodyAssertion = typeof HealthCheckBodyAssertion.Type
+
+/**
+ * Per-endpoint health check request and expectations
+ */
+export const HealthCheckOptions = Schema.Struct({
+    /**
+     * Request method
+     * @default "GET"
+     */
+    method: Schema.optionalWith(Schema.Literal("GET", "HEAD", "POST"), { exact: true }),
+    /**
+     * Request headers (e.g., an auth token)
+     */
+    headers: Schema.optionalWith(Schema.Record({ key: Schema.String, value: Schema.String }), {
+        exact: true,
+    }),
+    /**
+     * Request body (for POST)
+     */
+    body: Schema.optionalWith(Schema.String, { exact: true }),
+    /**
+     * Host name to send (in the Host header and SNI) instead of the endpoint's.
+     * Like `Endpoint.hostHeader`, it relies on `cf.resolveOverride`, so only
+     * Workers honor it; other runtimes check the endpoint with its own host.
+     */
+    host: Schema.optionalWith(Schema.String, { exact: true }),
+    /**
+     * Status codes or ranges that count as healthy
+     * @default [{ min: 200, max: 299 }]
+     */
+    expectedStatuses: Schema.optionalWith(
+        Schema.Array(Schema.Union(Schema.Number, HealthCheckStatusRange)),
+        { exact: true },
+    ),
+    /**
+     * Assertion on the response body (e.g., to reject a 200 error page from a proxy)
+     */
+    expectBody: Schema.optionalWith(HealthCheckBodyAssertion, { exact: true }),
+})
+export type HealthCheckOptions = typeof HealthCheckOptions.Type
+
+/**
+ * Resolve the URL of an endpoint's health check request (carrying the
+ * configured `host`, as for forwarded requests)
+ */
+export const healthCheckTarget = (endpoint: Endpoint): UpstreamTarget => {
+    const host = endpoint.healthCheck?.host
+    return host === undefined
+        ? { url: endpoint.healthCheckUrl }
+        : upstreamTargetWithHost(endpoint.healthCheckUrl, host)
+}
+
+/**
+ * Build the fetch options for an endpoint's health check request
+ */
+export const healthCheckRequestInit = (endpoint: Endpoint): RequestInit => {
+    const check = endpoint.healthCheck
+    const { resolveOverride } = healthCheckTarget(endpoint)
+
+    return {
+        method: check?.method ?? "GET",
+        headers: new Headers(check?.headers),
+        ...(check?.body !== undefined && check.method === "POST" && { body: check.body }),
+        // Connect to the endpoint when the URL carries another host name
+        ...(resolveOverride !== undefined && { cf: { resolveOverride } }),
+    }
+}
+
+/**
+ * Check whether a status code is one of the expected statuses (2xx by default)
+ */
+export const isExpectedHealthStatus = (
+    status: number,
+    expected?: ReadonlyArray<number | HealthCheckStatusRange>,
+): boolean =>
+    expected === undefined
+        ? status >= 200 && status <= 299
+        : expected.some((e) => (typeof e === "number" ? status === e : status >= e.min && status <= e.max))
+
+/**
+ * Read the value at a simple JSON path ("$.a.b", "a.b[0].c")
+ */
+const readJsonPath = (value: unknown, path: string): unknown =>
+    path
+        .replace(/^\$/, "")
+        .replace(/\[(\d+)\]/g, ".$1")
+        .split(".")
+        .filter((segment) => segment !== "")
+        .reduce<unknown>(
+            (current, segment) =>
+                current !== null && typeof current === "object"
+                    ? (current as Record<string, unknown>)[segment]
+                    : undefined,
+            value,
+        )
+
+/**
+ * Check a response body against an assertion.
+ * Returns a description of the failed assertion, or null if it passed.
+ */
+export const checkHealthBody = (body: string, assertion: HealthCheckBodyAssertion): string | null => {
+    switch (assertion.type) {
+        case "contains":
+            return body.includes(assertion.value) ? null : `body does not contain "${assertion.value}"`
+        case "regex": {
+            let pattern: RegExp
+            try {
+                pattern = new RegExp(assertion.pattern, assertion.flags)
+            } catch (error) {
+                return `body pattern does not compile: ${error instanceof Error ? error.message : String(error)}`
+            }
+            return pattern.test(body) ? null : `body does not match /${assertion.pattern}/${assertion.flags ?? ""}`
+        }
+        case "json": {
+            let json: unknown
+            try {
+                json = JSON.parse(body)
+            } catch {
+                return "body is not JSON"
+            }
+            const actual = readJsonPath(json, assertion.path)
+            if (assertion.equals === undefined) {
+                return actual === undefined || actual === null ? `${assertion.path} is missing` : null
+            }
+            return actual === assertion.equals
+                ? null
+                : `${assertion.path} is ${JSON.stringify(actual)}, expected ${JSON.stringify(assertion.equals)}`
+        }
+    }
+}
+
+const toUnhealthyError = (endpoint: Endpoint) => (cause: unknown) =>
+    cause instanceof Error && cause.name === "TimeoutError"
+        ? new EndpointUnhealthyError({ endpoint, reason: "timeout" })
+        : new EndpointUnhealthyError({ endpoint, reason: "network" })
+
+/**
+ * Send an endpoint's health check request and verify the response
+ * against its expected statuses and body assertion
+ */
+const probe = (endpoint: Endpoint, timeoutMs: number) =>
+    Effect.gen(function* () {
+        // Single timeout via AbortSignal, covering the body read as well
+        const signal = AbortSignal.timeout(timeoutMs)
+
+        const response = yield* Effect.tryPromise({
+            try: () => fetch(healthCheckTarget(endpoint).url, { ...healthCheckRequestInit(endpoint), signal }),
+            catch: toUnhealthyError(endpoint),
+        })
+
+        if (!isExpectedHealthStatus(response.status, endpoint.healthCheck?.expectedStatuses)) {
+            return yield* new EndpointUnhealthyError({
+                endpoint,
+                reason: "status",
+                statusCode: response.status,
+            })
+        }
+
+        const assertion = endpoint.healthCheck?.expectBody
+        if (assertion !== undefined) {
+            const body = yield* Effect.tryPromise({
+                try: () => response.text(),
+                catch: toUnhealthyError(endpoint),
+            })
+            const detail = checkHealthBody(body, assertion)
+            if (detail !== null) {
+                return yield* new EndpointUnhealthyError({
+                    endpoint,
+                    reason: "body",
+                    statusCode: response.status,
+                    detail,
+                })
+            }
+        }
+
+        return true
+    })
+
 /**
  * HealthChecker service interface
  */
@@ -42,40 +259,11 @@ export class HealthChecker extends Context.Tag("@blank-utils/HealthChecker")<
  * Default health checker implementation using fetch.
  * 
  * Uses the endpoint's timeout (halved) for health checks, ensuring health
- * checks fail faster than actual requests.
+ * checks fail faster than actual requests. The request and the expected
+ * response come from the endpoint's `healthCheck` options.
  */
 export const HealthCheckerLive = Layer.succeed(HealthChecker, {
-    check: (endpoint) =>
-        Effect.gen(function* () {
-            // Use endpoint-specific timeout (halved for health checks)
-            const timeoutMs = getHealthCheckTimeout(endpoint)
-
-            const response = yield* Effect.tryPromise({
-                try: () =>
-                    fetch(endpoint.healthCheckUrl, {
-                        method: "GET",
-                        // Single timeout via AbortSignal (removed redundant Effect.timeout)
-                        signal: AbortSignal.timeout(timeoutMs),
-                    }),
-                catch: (cause) => {
-                    // Check if it's a timeout error
-                    if (cause instanceof Error && cause.name === "TimeoutError") {
-                        return new EndpointUnhealthyError({ endpoint, reason: "timeout" })
-                    }
-                    return new EndpointUnhealthyError({ endpoint, reason: "network" })
-                },
-            })
-
-            if (!response.ok) {
-                return yield* new EndpointUnhealthyError({
-                    endpoint,
-                    reason: "status",
-                    statusCode: response.status,
-                })
-            }
-
-            return true
-        }),
+    check: (endpoint) => probe(endpoint, getHealthCheckTimeout(endpoint)),
 })
 
 /**
@@ -95,32 +283,5 @@ export const makeHealthChecker = (options?: {
     readonly timeoutMs?: number
 }): Layer.Layer<HealthChecker> =>
     Layer.succeed(HealthChecker, {
-        check: (endpoint) =>
-            Effect.gen(function* () {
-                const timeoutMs = options?.timeoutMs ?? getHealthCheckTimeout(endpoint)
-
-                const response = yield* Effect.tryPromise({
-                    try: () =>
-                        fetch(endpoint.healthCheckUrl, {
-                            method: "GET",
-                            signal: AbortSignal.timeout(timeoutMs),
-                        }),
-                    catch: (cause) => {
-                        if (cause instanceof Error && cause.name === "TimeoutError") {
-                            return new EndpointUnhealthyError({ endpoint, reason: "timeout" })
-                        }
-                        return new EndpointUnhealthyError({ endpoint, reason: "network" })
-                    },
-                })
-
-                if (!response.ok) {
-                    return yield* new EndpointUnhealthyError({
-                        endpoint,
-                        reason: "status",
-                        statusCode: response.status,
-                    })
-                }
-
-                return true
-            }),
+        check: (endpoint) => probe(endpoint, options?.timeoutMs ?? getHealthCheckTimeout(endpoint)),
     })
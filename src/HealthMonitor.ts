@@ -0,0 +1,236 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * HealthMonitor service - stateful health checks with caching and rise/fall thresholds
+ */
+import { Clock, Context, Data, Deferred, Duration, Effect, type Either, HashMap, Layer, Option, Ref } from "effect"
+import type { Endpoint } from "./Endpoint.js"
+import type { EndpointUnhealthyError } from "./Errors.js"
+import { HealthChecker } from "./HealthChecker.js"
+
+/**
+ * Default number of consecutive successful checks before an unhealthy endpoint is healthy again
+ */
+export const DEFAULT_HEALTH_RISE = 2
+
+/**
+ * Default number of consecutive failed checks before a healthy endpoint is unhealthy
+ */
+export const DEFAULT_HEALTH_FALL = 3
+
+/**
+ * Default time a health check result is reused before the endpoint is probed again
+ */
+export const DEFAULT_HEALTH_CACHE_TTL: Duration.DurationInput = "10 seconds"
+
+/**
+ * Health state of a single endpoint.
+ *
+ * - `Unknown`: never checked; the first check decides the state
+ * - `Healthy`: `since` is when it became healthy, `failures` counts consecutive failed checks
+ *   and `recovered` is true when it was unhealthy before (false after the first check)
+ * - `Unhealthy`: `since` is when it became unhealthy, `successes` counts consecutive
+ *   successful checks and `error` is the failure that is reported until it recovers
+ */
+export type HealthState = Data.TaggedEnum<{
+    Unknown: {}
+    Healthy: {
+        readonly since: Date
+        readonly checkedAt: Date
+        readonly failures: number
+        readonly recovered: boolean
+    }
+    Unhealthy: {
+        readonly since: Date
+        readonly checkedAt: Date
+        readonly successes: number
+        readonly error: EndpointUnhealthyError
+    }
+}>
+export const HealthState = Data.taggedEnum<HealthState>()
+
+/**
+ * A change of health state for an endpoint
+ */
+export interface HealthTransition {
+    readonly endpoint: Endpoint
+    readonly from: HealthState
+    readonly to: HealthState
+    readonly at: Date
+}
+
+/**
+ * Health monitor configuration
+ */
+export interface HealthMonitorOptions {
+    /**
+     * Consecutive successful checks before an unhealthy endpoint is marked healthy
+     * @default 2
+     */
+    readonly rise?: number
+    /**
+     * Consecutive failed checks before a healthy endpoint is marked unhealthy
+     * @default 3
+     */
+    readonly fall?: number
+    /**
+     * How long a check result is reused before probing again (0 disables caching)
+     * @default "10 seconds"
+     */
+    readonly cacheTtl?: Duration.DurationInput
+    /**
+     * Called whenever an endpoint's health state changes (e.g., for logging or metrics)
+     */
+    readonly onStateChange?: (transition: HealthTransition) => Effect.Effect<void>
+}
+
+/**
+ * HealthMonitor service interface
+ */
+export class HealthMonitor extends Context.Tag("@blank-utils/HealthMonitor")<
+    HealthMonitor,
+    {
+        /**
+         * Get the current health state of an endpoint
+         */
+        readonly getState: (endpoint: Endpoint) => Effect.Effect<HealthState>
+    }
+>() { }
+
+const initialState: HealthState = HealthState.Unknown()
+
+/**
+ * Apply the outcome of a probe to an endpoint's health state
+ */
+const nextState = (
+    state: HealthState,
+    result: Either.Either<boolean, EndpointUnhealthyError>,
+    now: Date,
+    rise: number,
+    fall: number,
+): HealthState =>
+    HealthState.$match(state, {
+        Unknown: () =>
+            result._tag === "Right"
+                ? HealthState.Healthy({ since: now, checkedAt: now, failures: 0, recovered: false })
+                : HealthState.Unhealthy({ since: now, checkedAt: now, successes: 0, error: result.left }),
+        Healthy: ({ since, failures, recovered }) =>
+            result._tag === "Right"
+                ? HealthState.Healthy({ since, checkedAt: now, failures: 0, recovered })
+                : failures + 1 >= fall
+                    ? HealthState.Unhealthy({ since: now, checkedAt: now, successes: 0, error: result.left })
+                    : HealthState.Healthy({ since, checkedAt: now, failures: failures + 1, recovered }),
+        Unhealthy: ({ since, successes, error }) =>
+            result._tag === "Left"
+                ? HealthState.Unhealthy({ since, checkedAt: now, successes: 0, error: result.left })
+                : successes + 1 >= rise
+                    ? HealthState.Healthy({ since: now, checkedAt: now, failures: 0, recovered: true })
+                    : HealthState.Unhealthy({ since, checkedAt: now, successes: successes + 1, error }),
+    })
+
+/**
+ * Report a health state the way `HealthChecker.check` does
+ */
+const verdict = (state: HealthState): Effect.Effect<boolean, EndpointUnhealthyError> =>
+    state._tag === "Unhealthy" ? Effect.fail(state.error) : Effect.succeed(true)
+
+/**
+ * Create a stateful health checker layer.
+ *
+ * Wraps the provided HealthChecker: results are cached for `cacheTtl`, a healthy
+ * endpoint only turns unhealthy after `fall` consecutive failed checks and an
+ * unhealthy endpoint only turns healthy again after `rise` consecutive successful
+ * checks, so a single flaky probe does not flip it. Until then `check` keeps
+ * reporting the current state. Concurrent checks of an endpoint share one probe,
+ * which counts once. The layer also provides `HealthMonitor` to read each
+ * endpoint's state and when it last changed.
+ *
+ * @example
+ * ```ts
+ * const lb = LoadBalancer.layer({ endpoints, availability: { type: "async-block" } }).pipe(
+ *   Layer.provide(makeHealthMonitor({ rise: 2, fall: 3, cacheTtl: "10 seconds" })),
+ *   Layer.provide(HealthCheckerLive),
+ * )
+ * ```
+ */
+export const makeHealthMonitor = (
+    options?: HealthMonitorOptions,
+): Layer.Layer<HealthChecker | HealthMonitor, never, HealthChecker> => {
+    const rise = options?.rise ?? DEFAULT_HEALTH_RISE
+    const fall = options?.fall ?? DEFAULT_HEALTH_FALL
+    const cacheTtlMs = Duration.toMillis(options?.cacheTtl ?? DEFAULT_HEALTH_CACHE_TTL)
+    const states = Ref.unsafeMake(HashMap.empty<string, HealthState>())
+    // Probes in flight, resolving to the state they lead to
+    const inFlight = Ref.unsafeMake(HashMap.empty<string, Deferred.Deferred<HealthState>>())
+
+    const getState = (endpoint: Endpoint) =>
+        Ref.get(states).pipe(
+            Effect.map((map) =>
+                HashMap.get(map, endpoint.normalizedUrl).pipe(Option.getOrElse(() => initialState)),
+            ),
+        )
+
+    const checker = Layer.effect(
+        HealthChecker,
+        Effect.gen(function* () {
+            const probe = yield* HealthChecker
+
+            /**
+             * Probe an endpoint and apply the result to its state
+             */
+            const update = (endpoint: Endpoint) =>
+                Effect.gen(function* () {
+                    const result = yield* probe.check(endpoint).pipe(Effect.either)
+                    const now = new Date(yield* Clock.currentTimeMillis)
+                    const [from, to] = yield* Ref.modify(states, (map) => {
+                        const from = HashMap.get(map, endpoint.normalizedUrl).pipe(
+                            Option.getOrElse(() => initialState),
+                        )
+                        const to = nextState(from, result, now, rise, fall)
+                        return [[from, to] as const, HashMap.set(map, endpoint.normalizedUrl, to)]
+                    })
+
+                    if (from._tag !== to._tag && options?.onStateChange) {
+                        yield* options.onStateChange({ endpoint, from, to, at: now })
+                    }
+
+                    return to
+                })
+
+            return {
+                check: (endpoint: Endpoint) =>
+                    Effect.gen(function* () {
+                        const cached = yield* getState(endpoint)
+                        if (cached._tag !== "Unknown") {
+                            const now = yield* Clock.currentTimeMillis
+                            if (now - cached.checkedAt.getTime() < cacheTtlMs) {
+                                return yield* verdict(cached)
+                            }
+                        }
+
+                        // Join the probe in flight, or start one
+                        const started = yield* Deferred.make<HealthState>()
+                        const pending = yield* Ref.modify(inFlight, (map) =>
+                            Option.match(HashMap.get(map, endpoint.normalizedUrl), {
+                                onSome: (pending) => [pending, map] as const,
+                                onNone: () => [started, HashMap.set(map, endpoint.normalizedUrl, started)] as const,
+                            }),
+                        )
+
+                        // Detached, so that a caller giving up (e.g. a lost race) does not strand the others
+                        if (pending === started) {
+                            yield* update(endpoint).pipe(
+                                Effect.intoDeferred(started),
+                                Effect.ensuring(Ref.update(inFlight, HashMap.remove(endpoint.normalizedUrl))),
+                                Effect.forkDaemon,
+                            )
+                        }
+
+                        return yield* verdict(yield* Deferred.await(pending))
+                    }),
+            }
+        }),
+    )
+
+    return Layer.merge(checker, Layer.succeed(HealthMonitor, { getState }))
+}
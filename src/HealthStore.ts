@@ -0,0 +1,162 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Health store - run health checks in the background and cache their results
+ */
+import { Clock, type Context, Duration, Effect } from "effect"
+import type { Endpoint } from "./Endpoint.js"
+import type { EndpointUnhealthyError } from "./Errors.js"
+import type { GeoEndpoint } from "./GeoEndpoint.js"
+import { HealthChecker } from "./HealthChecker.js"
+import { StateStore } from "./StateStore.js"
+
+/**
+ * Default time a health check result stays valid.
+ * Run checks more often than this, or endpoints fall back to "unknown".
+ */
+export const DEFAULT_HEALTH_RECORD_TTL: Duration.DurationInput = "5 minutes"
+
+/**
+ * Cached result of a health check
+ */
+export interface HealthRecord {
+    readonly healthy: boolean
+    /**
+     * When the check ran (epoch millis)
+     */
+    readonly checkedAt: number
+    /**
+     * How long the check took in milliseconds
+     */
+    readonly latencyMs: number
+    /**
+     * Why the endpoint is unhealthy
+     */
+    readonly reason?: EndpointUnhealthyError["reason"]
+    /**
+     * Status code of a failed check (when `reason` is "status")
+     */
+    readonly statusCode?: number
+}
+
+/**
+ * Result of checking one endpoint
+ */
+export interface HealthCheckResult {
+    readonly endpoint: Endpoint
+    readonly record: HealthRecord
+}
+
+/**
+ * Options for `runHealthChecks`
+ */
+export interface RunHealthChecksOptions {
+    /**
+     * Endpoints to check
+     */
+    readonly endpoints?: ReadonlyArray<Endpoint>
+
+    /**
+     * Geo endpoints to check
+     */
+    readonly geoEndpoints?: ReadonlyArray<GeoEndpoint>
+
+    /**
+     * How long each result stays valid in the store
+     * @default "5 minutes"
+     */
+    readonly ttl?: Duration.DurationInput
+
+    /**
+     * Maximum number of checks running at once
+     * @default unbounded
+     */
+    readonly concurrency?: number
+}
+
+/**
+ * StateStore key of an endpoint's health record
+ */
+export const healthRecordKey = (endpoint: Endpoint): string => `health:${endpoint.normalizedUrl}`
+
+/**
+ * Get the cached health record of an endpoint (null when missing, expired or unreadable)
+ */
+export const getHealthRecord = (
+    store: Context.Tag.Service<StateStore>,
+    endpoint: Endpoint,
+): Effect.Effect<HealthRecord | null> =>
+    store.get<HealthRecord>(healthRecordKey(endpoint)).pipe(Effect.orElseSucceed(() => null))
+
+/**
+ * Check every configured endpoint once and write the results to the StateStore.
+ *
+ * Endpoints are deduplicated by URL. Failed store writes are ignored so one bad
+ * write does not hide the other results. Run it from a Workers `scheduled`
+ * handler, or repeat it with a Schedule in long-running runtimes.
+ *
+ * @example
+ * ```ts
+ * export default {
+ *   scheduled(_event, env, ctx) {
+ *     ctx.waitUntil(
+ *       Effect.runPromise(
+ *         runHealthChecks({ endpoints }).pipe(
+ *           Effect.provide(HealthCheckerLive),
+ *           Effect.provide(StateStoreKV(env.LB_HEALTH)),
+ *         ),
+ *       ),
+ *     )
+ *   },
+ * }
+ *
+ * // Node/Bun
+ * runHealthChecks({ endpoints }).pipe(Effect.repeat(Schedule.spaced("30 seconds")))
+ * ```
+ */
+export const runHealthChecks = (
+    options: RunHealthChecksOptions,
+): Effect.Effect<ReadonlyArray<HealthCheckResult>, never, HealthChecker | StateStore> =>
+    Effect.gen(function* () {
+        const checker = yield* HealthChecker
+        const store = yield* StateStore
+        const ttl = options.ttl ?? DEFAULT_HEALTH_RECORD_TTL
+
+        // Deduplicate by URL (geo endpoints often share backends)
+        const endpoints = new Map<string, Endpoint>()
+        for (const endpoint of [
+            ...(options.endpoints ?? []),
+            ...(options.geoEndpoints ?? []).map((geo) => geo.toEndpoint()),
+        ]) {
+            if (!endpoints.has(endpoint.normalizedUrl)) {
+                endpoints.set(endpoint.normalizedUrl, endpoint)
+            }
+        }
+
+        return yield* Effect.forEach(
+            endpoints.values(),
+            (endpoint) =>
+                Effect.gen(function* () {
+                    const checkedAt = yield* Clock.currentTimeMillis
+                    const result = yield* checker.check(endpoint).pipe(Effect.either)
+                    const latencyMs = (yield* Clock.currentTimeMillis) - checkedAt
+
+                    const record: HealthRecord =
+                        result._tag === "Right"
+                            ? { healthy: true, checkedAt, latencyMs }
+                            : {
+                                healthy: false,
+                                checkedAt,
+                                latencyMs,
+                                reason: result.left.reason,
+                                ...(result.left.statusCode !== undefined && {
+                                    statusCode: result.left.statusCode,
+                                }),
+                            }
+
+                    yield* store.set(healthRecordKey(endpoint), record, ttl).pipe(Effect.ignore)
+                    return { endpoint, record }
+                }),
+            { concurrency: options.concurrency ?? "unbounded" },
+        )
+    })
@@ -0,0 +1,114 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Host header - which host name an endpoint receives (Host header and TLS SNI)
+ */
+import { Effect, Schema } from "effect"
+import type { Endpoint } from "./Endpoint.js"
+
+/**
+ * Host an endpoint receives in the `Host` header (and TLS SNI)
+ *
+ * - `endpoint`: the endpoint URL's host (default)
+ * - `preserve`: the host name of the incoming request
+ * - `{ override }`: a fixed host name (e.g. the virtual host of an origin reached by IP)
+ */
+export const HostHeaderMode = Schema.Union(
+    Schema.Literal("endpoint", "preserve"),
+    Schema.Struct({
+        override: Schema.String.pipe(Schema.nonEmptyString()),
+    }),
+)
+export type HostHeaderMode = typeof HostHeaderMode.Type
+
+/**
+ * Where to send a request: the URL to fetch and, when its host is not the
+ * endpoint's, the endpoint host to connect to instead (`cf.resolveOverride`)
+ */
+export interface UpstreamTarget {
+    readonly url: string
+    readonly resolveOverride?: string
+}
+
+/**
+ * Host name an endpoint receives for a request, per `Endpoint.hostHeader`
+ */
+export const upstreamHostname = (endpoint: Endpoint, request: Request): string => {
+    const mode = endpoint.hostHeader ?? "endpoint"
+    if (mode === "endpoint") return new URL(endpoint.url).hostname
+    if (mode === "preserve") return new URL(request.url).hostname
+    return mode.override
+}
+
+/**
+ * Check whether the code runs on Cloudflare Workers, the only runtime that
+ * honors `cf.resolveOverride` (Node and Bun ignore `cf` and connect to the URL's host)
+ */
+export const isWorkersRuntime = (): boolean =>
+    (globalThis as { readonly navigator?: { readonly userAgent?: string } }).navigator?.userAgent ===
+        "Cloudflare-Workers"
+
+/**
+ * Describe the endpoints whose `hostHeader` or `healthCheck.host` would be
+ * ignored on this runtime (returns undefined on Workers or when there are none)
+ */
+export const ignoredHostWarning = (endpoints: ReadonlyArray<Endpoint>): string | undefined => {
+    if (isWorkersRuntime()) return undefined
+    const urls = endpoints
+        .filter((ep) => (ep.hostHeader ?? "endpoint") !== "endpoint" || ep.healthCheck?.host !== undefined)
+        .map((ep) => ep.url)
+    if (urls.length === 0) return undefined
+    return `hostHeader and healthCheck.host only apply on Cloudflare Workers: ` +
+        `${urls.join(", ")} will receive their own host`
+}
+
+let warnedIgnoredHost = false
+
+/**
+ * Log the `ignoredHostWarning` of some endpoints, once per isolate
+ */
+export const warnIgnoredHost = (endpoints: ReadonlyArray<Endpoint>): Effect.Effect<void> =>
+    Effect.suspend(() => {
+        const warning = warnedIgnoredHost ? undefined : ignoredHostWarning(endpoints)
+        if (warning === undefined) return Effect.void
+        warnedIgnoredHost = true
+        return Effect.logWarning(warning)
+    })
+
+/**
+ * Resolve the URL to fetch for a request.
+ *
+ * The Host header and SNI follow the URL, so a different host name is put in
+ * the URL (keeping the endpoint's protocol and port) and the connection is
+ * routed to the endpoint with `cf.resolveOverride`. Outside Workers nothing
+ * would route it there, so the endpoint URL (and host) is used instead.
+ *
+ * @param endpoint - The endpoint to forward to
+ * @param request - The original request (used for the URL path and, with `preserve`, its host)
+ */
+export const resolveUpstreamTarget = (endpoint: Endpoint, request: Request): UpstreamTarget => {
+    const incoming = new URL(request.url)
+    return upstreamTargetWithHost(
+        endpoint.buildTargetUrl(incoming.pathname, incoming.search),
+        upstreamHostname(endpoint, request),
+    )
+}
+
+/**
+ * Resolve the URL to fetch so that an endpoint URL receives another host name
+ * (`cf.resolveOverride` on Workers, the URL unchanged elsewhere)
+ *
+ * @param url - Endpoint URL to fetch
+ * @param hostname - Host name for the Host header and SNI
+ */
+export const upstreamTargetWithHost = (url: string, hostname: string): UpstreamTarget => {
+    const target = new URL(url)
+    const endpointHostname = target.hostname
+
+    if (hostname === endpointHostname || !isWorkersRuntime()) {
+        return { url }
+    }
+
+    target.hostname = hostname
+    return { url: target.toString(), resolveOverride: endpointHostname }
+}
@@ -0,0 +1,208 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Latency steering - prefer endpoints with low response times and error rates
+ */
+import { Clock, Effect, HashMap, Option, Ref } from "effect"
+import type { Endpoint } from "./Endpoint.js"
+
+/**
+ * Default EWMA smoothing factor (weight of the newest sample)
+ */
+export const DEFAULT_LATENCY_ALPHA = 0.3
+
+/**
+ * Default error penalty: a 100% error rate makes an endpoint score
+ * `1 + DEFAULT_ERROR_PENALTY` times its average latency
+ */
+export const DEFAULT_ERROR_PENALTY = 10
+
+/**
+ * Number of recent successful response times kept per endpoint for percentiles
+ */
+export const LATENCY_SAMPLE_SIZE = 100
+
+/**
+ * Exponentially weighted moving averages of an endpoint's response time and error rate
+ */
+export interface LatencyStats {
+    /**
+     * Average response time in milliseconds
+     */
+    readonly latencyMs: number
+    /**
+     * Average error rate between 0 and 1
+     */
+    readonly errorRate: number
+    /**
+     * Number of samples recorded
+     */
+    readonly samples: number
+}
+
+/**
+ * Fold a new sample into an endpoint's stats (the first sample seeds the averages)
+ */
+export const updateLatencyStats = (
+    stats: LatencyStats | undefined,
+    latencyMs: number,
+    success: boolean,
+    alpha: number = DEFAULT_LATENCY_ALPHA,
+): LatencyStats => {
+    const error = success ? 0 : 1
+
+    if (stats === undefined) {
+        return { latencyMs, errorRate: error, samples: 1 }
+    }
+
+    return {
+        latencyMs: alpha * latencyMs + (1 - alpha) * stats.latencyMs,
+        errorRate: alpha * error + (1 - alpha) * stats.errorRate,
+        samples: stats.samples + 1,
+    }
+}
+
+/**
+ * Score an endpoint from its stats (lower is better).
+ * Endpoints without samples score 0 so they are tried and measured.
+ */
+export const latencyScore = (
+    stats: LatencyStats | undefined,
+    errorPenalty: number = DEFAULT_ERROR_PENALTY,
+): number => (stats === undefined ? 0 : stats.latencyMs * (1 + errorPenalty * stats.errorRate))
+
+/**
+ * Order endpoints by power-of-two-choices.
+ *
+ * Two of the remaining endpoints are picked at random and the one with the lower
+ * score goes next, until every endpoint is ordered. Fast endpoints tend to come
+ * first without every isolate sending all of its traffic to the single fastest one.
+ *
+ * @param endpoints - Candidate endpoints
+ * @param scores - Score of each endpoint, in the same order (lower is better)
+ * @param random - Random number source in [0, 1) (injectable for tests)
+ */
+export const selectLatencyEndpoints = (
+    endpoints: ReadonlyArray<Endpoint>,
+    scores: ReadonlyArray<number>,
+    random: () => number = Math.random,
+): ReadonlyArray<Endpoint> => {
+    const remaining = endpoints.map((endpoint, index) => ({ endpoint, score: scores[index] ?? 0 }))
+    const ordered: Endpoint[] = []
+
+    while (remaining.length > 1) {
+        // Two distinct random candidates
+        const first = Math.floor(random() * remaining.length)
+        let second = Math.floor(random() * (remaining.length - 1))
+        if (second >= first) second++
+
+        const index = remaining[second]!.score < remaining[first]!.score ? second : first
+        ordered.push(remaining.splice(index, 1)[0]!.endpoint)
+    }
+
+    ordered.push(...remaining.map(({ endpoint }) => endpoint))
+    return ordered
+}
+
+/**
+ * Records response times and errors per endpoint
+ */
+export interface LatencyTracker {
+    /**
+     * Record a sample for an endpoint
+     */
+    readonly record: (endpoint: Endpoint, latencyMs: number, success: boolean) => Effect.Effect<void>
+
+    /**
+     * Get the stats of an endpoint (None until a sample is recorded)
+     */
+    readonly getStats: (endpoint: Endpoint) => Effect.Effect<Option.Option<LatencyStats>>
+
+    /**
+     * Get a percentile (0-100) of the endpoint's recent successful response times
+     * in milliseconds (None until `minimumSamples` successful samples are recorded, 1 by default)
+     */
+    readonly getPercentile: (
+        endpoint: Endpoint,
+        percentile: number,
+        minimumSamples?: number,
+    ) => Effect.Effect<Option.Option<number>>
+
+    /**
+     * Time a request to an endpoint and record it. Network errors and 5xx
+     * responses count as errors.
+     */
+    readonly trackLatency: <E>(
+        endpoint: Endpoint,
+        attempt: Effect.Effect<Response, E>,
+    ) => Effect.Effect<Response, E>
+}
+
+/**
+ * Create a latency tracker kept in memory (per isolate).
+ *
+ * @param alpha - EWMA smoothing factor between 0 and 1 (higher reacts faster)
+ */
+export const makeLatencyTracker = (alpha: number = DEFAULT_LATENCY_ALPHA): LatencyTracker => {
+    const stats = Ref.unsafeMake(HashMap.empty<string, LatencyStats>())
+    const samples = Ref.unsafeMake(HashMap.empty<string, ReadonlyArray<number>>())
+
+    const record = (endpoint: Endpoint, latencyMs: number, success: boolean) =>
+        Ref.update(stats, (map) =>
+            HashMap.set(
+                map,
+                endpoint.normalizedUrl,
+                updateLatencyStats(
+                    Option.getOrUndefined(HashMap.get(map, endpoint.normalizedUrl)),
+                    latencyMs,
+                    success,
+                    alpha,
+                ),
+            ),
+        ).pipe(
+            Effect.zipRight(
+                success
+                    ? Ref.update(samples, (map) =>
+                        HashMap.modifyAt(map, endpoint.normalizedUrl, (recent) =>
+                            Option.some(
+                                [...Option.getOrElse(recent, () => []), latencyMs].slice(-LATENCY_SAMPLE_SIZE),
+                            ),
+                        ),
+                    )
+                    : Effect.void,
+            ),
+        )
+
+    return {
+        record,
+        getStats: (endpoint) =>
+            Ref.get(stats).pipe(Effect.map((map) => HashMap.get(map, endpoint.normalizedUrl))),
+        getPercentile: (endpoint, percentile, minimumSamples = 1) =>
+            Ref.get(samples).pipe(
+                Effect.map((map) =>
+                    HashMap.get(map, endpoint.normalizedUrl).pipe(
+                        Option.filter((recent) => recent.length >= minimumSamples),
+                        Option.map((recent) => {
+                            // Nearest-rank percentile
+                            const sorted = [...recent].sort((a, b) => a - b)
+                            const rank = Math.ceil((percentile / 100) * sorted.length)
+                            return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]!
+                        }),
+                    ),
+                ),
+            ),
+        trackLatency: (endpoint, attempt) =>
+            Effect.gen(function* () {
+                const start = yield* Clock.currentTimeMillis
+                const result = yield* Effect.either(attempt)
+                const latencyMs = (yield* Clock.currentTimeMillis) - start
+
+                yield* record(
+                    endpoint,
+                    latencyMs,
+                    result._tag === "Right" && result.right.status < 500,
+                )
+                return yield* result
+            }),
+    }
+}
@@ -0,0 +1,24 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Least-outstanding-requests steering - prefer endpoints with fewer requests in flight
+ */
+import type { Endpoint } from "./Endpoint.js"
+
+/**
+ * Order endpoints by their number of in-flight requests, fewest first.
+ *
+ * The sort is stable, so endpoints with the same count keep their relative
+ * order (rotate the input first to spread ties).
+ *
+ * @param endpoints - Candidate endpoints
+ * @param outstanding - In-flight request count of each endpoint, in the same order
+ */
+export const selectLeastOutstandingEndpoints = (
+    endpoints: ReadonlyArray<Endpoint>,
+    outstanding: ReadonlyArray<number>,
+): ReadonlyArray<Endpoint> =>
+    endpoints
+        .map((endpoint, index) => ({ endpoint, count: outstanding[index] ?? 0 }))
+        .sort((a, b) => a.count - b.count)
+        .map(({ endpoint }) => endpoint)
@@ -3,26 +3,62 @@
  *
  * LoadBalancer service - the main entry point
  */
-import { Context, Effect, Layer, Schema } from "effect"
-import type { AvailabilityMethod } from "./AvailabilityMethod.js"
+import { Clock, Context, Duration, Effect, Layer, Option, Schema } from "effect"
+import type { AttemptOptions, AvailabilityMethod } from "./AvailabilityMethod.js"
 import {
     asyncBlock,
+    cachedHealth,
+    DEFAULT_HEDGE_DELAY,
     failForward,
+    hedged,
+    P95_HEDGE_MINIMUM_SAMPLES,
     promiseAny,
 } from "./AvailabilityMethod.js"
+import type { CircuitState } from "./CircuitBreaker.js"
+import type { CanaryRule } from "./CanaryTargeting.js"
+import { makeCanaryMatcher, validateCanaryRules } from "./CanaryTargeting.js"
+import { CircuitBreaker } from "./CircuitBreaker.js"
 import { Endpoint } from "./Endpoint.js"
-import { NoHealthyEndpointsError } from "./Errors.js"
+import type { DeadlineExceededError, RequestTooLargeError } from "./Errors.js"
+import { NoHealthyEndpointsError, NoRouteError } from "./Errors.js"
 import type { GeoEndpoint } from "./GeoEndpoint.js"
+import type { FailoverPolicy } from "./FailoverPolicy.js"
+import type { RequestBodyOptions, RetryOptions } from "./Forward.js"
 import type { CfProperties } from "./GeoSteering.js"
 import { selectGeoEndpoints } from "./GeoSteering.js"
+import { extractHashKey, HashKey, selectHashEndpoints } from "./HashSteering.js"
 import { HealthChecker, HealthCheckerLive } from "./HealthChecker.js"
+import type { HealthState } from "./HealthMonitor.js"
+import { HealthMonitor } from "./HealthMonitor.js"
+import { warnIgnoredHost } from "./HostHeader.js"
+import type { LatencyTracker } from "./LatencySteering.js"
+import { latencyScore, makeLatencyTracker, selectLatencyEndpoints } from "./LatencySteering.js"
+import { selectLeastOutstandingEndpoints } from "./LeastOutstandingSteering.js"
 import type { RecoveryContext, RecoveryFn } from "./Recovery.js"
 import { withRecovery } from "./Recovery.js"
+import { addPoolHeader, addRouteHeader } from "./Headers.js"
+import { OutlierDetector } from "./OutlierDetector.js"
+import type { ProxyHeadersOptions } from "./ProxyHeaders.js"
+import { withProxyHeaders } from "./ProxyHeaders.js"
+import type { RolloutPool } from "./Rollout.js"
+import { RolloutController } from "./Rollout.js"
+import { rotateEndpoints } from "./RoundRobinSteering.js"
+import type { Route } from "./Router.js"
+import { makeRouteFinder, validateRoutes } from "./Router.js"
+import type { AffinityOptions } from "./SessionAffinity.js"
+import { makeSessionAffinity } from "./SessionAffinity.js"
+import { selectSlowStartEndpoints, slowStartFactor } from "./SlowStart.js"
+import { StateStore, StateStoreMemory } from "./StateStore.js"
+import { selectSplitPool, splitBucket, validateSplit } from "./TrafficSplit.js"
+import type { SteeringCounters } from "./SteeringCounters.js"
+import { makeSharedSteeringCounters, makeSteeringCounters } from "./SteeringCounters.js"
+import { validateRewriteRules } from "./UrlRewrite.js"
+import { selectWeightedEndpoints } from "./WeightedSteering.js"
 
 /**
- * Steering configuration
+ * Geo steering configuration
  */
-export const SteeringConfig = Schema.Struct({
+export const GeoSteeringConfig = Schema.Struct({
     type: Schema.Literal("geo"),
     /**
      * Default endpoints to use when no geo match is found
@@ -31,6 +67,77 @@ export const SteeringConfig = Schema.Struct({
         default: () => [],
     }),
 })
+
+/**
+ * Weighted steering configuration (weighted random order, by `Endpoint.weight`)
+ */
+export const WeightedSteeringConfig = Schema.Struct({
+    type: Schema.Literal("weighted"),
+})
+
+/**
+ * Round-robin steering configuration (rotate the first endpoint on every request)
+ */
+export const RoundRobinSteeringConfig = Schema.Struct({
+    type: Schema.Literal("round-robin"),
+    /**
+     * Keep the counters in the provided StateStore instead of per isolate
+     * @default false
+     */
+    shared: Schema.optionalWith(Schema.Boolean, { exact: true }),
+})
+
+/**
+ * Least-outstanding-requests steering configuration (fewest in-flight requests first)
+ */
+export const LeastOutstandingSteeringConfig = Schema.Struct({
+    type: Schema.Literal("least-outstanding"),
+    /**
+     * Keep the counters in the provided StateStore instead of per isolate
+     * @default false
+     */
+    shared: Schema.optionalWith(Schema.Boolean, { exact: true }),
+})
+
+/**
+ * Latency steering configuration (power-of-two-choices on response time EWMAs)
+ */
+export const LatencySteeringConfig = Schema.Struct({
+    type: Schema.Literal("latency"),
+    /**
+     * EWMA smoothing factor between 0 and 1 (higher reacts faster)
+     * @default 0.3
+     */
+    alpha: Schema.optionalWith(Schema.Number.pipe(Schema.between(0, 1)), { exact: true }),
+    /**
+     * How much the error rate inflates an endpoint's latency score
+     * @default 10
+     */
+    errorPenalty: Schema.optionalWith(Schema.NonNegative, { exact: true }),
+})
+
+/**
+ * Hash steering configuration (requests with the same key go to the same endpoint)
+ */
+export const HashSteeringConfig = Schema.Struct({
+    type: Schema.Literal("hash"),
+    /**
+     * Where to read the hash key from
+     */
+    key: HashKey,
+})
+
+/**
+ * Steering configuration
+ */
+export const SteeringConfig = Schema.Union(
+    GeoSteeringConfig,
+    WeightedSteeringConfig,
+    RoundRobinSteeringConfig,
+    LeastOutstandingSteeringConfig,
+    LatencySteeringConfig,
+    HashSteeringConfig,
+)
 export type SteeringConfig = typeof SteeringConfig.Type
 
 /**
@@ -48,12 +155,41 @@ export interface LoadBalancerOptions {
     readonly geoEndpoints?: ReadonlyArray<GeoEndpoint>
 
     /**
-     * Steering configuration (e.g., geo steering)
+     * Steering configuration
+     * - `geo`: order `geoEndpoints` by the client's location
+     * - `weighted`: order `endpoints` by weighted random selection (`Endpoint.weight`)
+     * - `round-robin`: rotate `endpoints` so each request starts at the next one
+     * - `least-outstanding`: order `endpoints` by in-flight requests, fewest first
+     * - `latency`: order `endpoints` fastest first by response time and error rate
+     *   averages, using power-of-two-choices to avoid herding
+     * - `hash`: order `endpoints` by weighted rendezvous hashing of a request key,
+     *   so the same key lands on the same endpoint (requests without the key use
+     *   weighted random order)
+     *
+     * Round-robin and least-outstanding counters are kept per isolate, or in the
+     * StateStore provided to the layer when `shared` is true.
      */
-    readonly steering?: {
-        readonly type: "geo"
-        readonly defaultEndpoints?: ReadonlyArray<Endpoint>
-    }
+    readonly steering?:
+        | {
+            readonly type: "geo"
+            readonly defaultEndpoints?: ReadonlyArray<Endpoint>
+        }
+        | {
+            readonly type: "weighted"
+        }
+        | {
+            readonly type: "round-robin" | "least-outstanding"
+            readonly shared?: boolean
+        }
+        | {
+            readonly type: "latency"
+            readonly alpha?: number
+            readonly errorPenalty?: number
+        }
+        | {
+            readonly type: "hash"
+            readonly key: HashKey
+        }
 
     /**
      * Availability method configuration
@@ -61,10 +197,154 @@ export interface LoadBalancerOptions {
      */
     readonly availability?: AvailabilityMethod
 
+    /**
+     * Retry policy applied to each endpoint before failing over
+     * (overridable per endpoint with `Endpoint.retry`)
+     * @default no retries
+     */
+    readonly retry?: RetryOptions
+
+    /**
+     * Decides whether failed requests may be retried or failed over.
+     * By default non-idempotent requests (e.g. POST, PATCH) without an
+     * `Idempotency-Key` header are only replayed when the connection failed.
+     */
+    readonly failoverPolicy?: FailoverPolicy
+
+    /**
+     * Total time budget of a request across all endpoints, retries and failovers.
+     * Each attempt gets an even share of the remaining budget among the
+     * endpoints left to try (at most its endpoint's `timeoutMs`), so a hanging
+     * endpoint cannot use up the time of the next ones. Once the budget is
+     * spent no further endpoint is tried and the request fails with
+     * `DeadlineExceededError`.
+     * @default no deadline (each attempt only has its endpoint's timeout)
+     */
+    readonly deadline?: Duration.DurationInput
+
+    /**
+     * Request body handling: `buffer` (default) reads the whole body before the
+     * first attempt; `stream` streams it to the first endpoint and keeps a copy
+     * of at most `maxBufferBytes` for retries and failover. When the body does
+     * not fit, it is sent once: the request is not retried or failed over
+     * (`NoHealthyEndpointsError.failoverDecision.reason` is `body-streamed`).
+     *
+     * With `maxBodyBytes`, larger requests fail with `RequestTooLargeError`
+     * (map it to a 413): a larger `Content-Length` is rejected before anything
+     * is sent, and reading (or streaming) the body stops at the limit.
+     */
+    readonly requestBody?: RequestBodyOptions
+
+    /**
+     * Reverse-proxy headers sent to endpoints: the client address from
+     * `CF-Connecting-IP` goes into `X-Forwarded-For` and `Forwarded` (with the
+     * protocol and host), and `Via` names the load balancer. Incoming forwarding
+     * headers are replaced unless `trustForwarded` is set, or `false` to send
+     * the request headers as they are. Hop-by-hop headers are always stripped.
+     */
+    readonly proxyHeaders?: ProxyHeadersOptions | false
+
+    /**
+     * Cookie-based session affinity: the first response sets a signed cookie
+     * naming the endpoint that served it, and later requests with that cookie
+     * try that endpoint first (failing over as usual when it is unavailable)
+     */
+    readonly affinity?: AffinityOptions
+
     /**
      * Recovery function called when all endpoints fail
      */
     readonly recoveryFn?: RecoveryFn
+
+    /**
+     * Route requests to named pools of endpoints. The other options are the
+     * defaults of every pool; each pool overrides them (endpoints, availability,
+     * steering, ...) and keeps its own counters and affinity. Requests matching
+     * no route fail with `NoRouteError`.
+     */
+    readonly router?: RouterConfig
+
+    /**
+     * Split traffic between named pools by percentage (e.g. blue-green or canary
+     * rollouts). The other options are the defaults of every pool. With a `key`,
+     * requests with the same key always go to the same pool. The response names
+     * the pool in `X-Load-Balancer-Pool`.
+     */
+    readonly trafficSplit?: TrafficSplitConfig
+}
+
+/**
+ * Options of one router pool (any LoadBalancer option but `router`)
+ */
+export type PoolOptions = Omit<LoadBalancerOptions, "router">
+
+/**
+ * Options of one traffic split pool: its percentage of requests and any
+ * LoadBalancer option but `router` and `trafficSplit`
+ */
+export type SplitPoolOptions = Omit<LoadBalancerOptions, "router" | "trafficSplit"> & {
+    /**
+     * Percentage of requests sent to this pool (the pools' percentages add up to 100).
+     * Not used for the pools of a rollout, whose shares come from the RolloutController.
+     */
+    readonly percent?: number
+}
+
+/**
+ * Pools of a traffic split driven by a RolloutController
+ */
+export interface RolloutPools {
+    readonly stable: string
+    readonly canary: string
+}
+
+/**
+ * Requests of a traffic split that always go to one pool (e.g. beta testers to the canary)
+ */
+export interface SplitTargeting {
+    /**
+     * Pool that receives the requests matching a rule
+     */
+    readonly pool: string
+    /**
+     * Rules marking a request for the pool (any of them)
+     */
+    readonly rules: ReadonlyArray<CanaryRule>
+}
+
+/**
+ * Traffic split configuration
+ */
+export interface TrafficSplitConfig {
+    /**
+     * Pools in order; each gets a contiguous range of buckets
+     */
+    readonly pools: Readonly<Record<string, SplitPoolOptions>>
+    /**
+     * Bucket requests by this key (e.g. a user ID cookie) so the same key always
+     * goes to the same pool; requests without it, or without a key configured,
+     * are assigned at random
+     */
+    readonly key?: HashKey
+    /**
+     * Let the RolloutController provided while building the layer set the
+     * canary's share (the stable pool gets the rest) and feed it the outcome of
+     * every attempt in both pools. The split must have exactly these two pools.
+     */
+    readonly rollout?: RolloutPools
+    /**
+     * Send the requests matching any rule to one pool, whatever its percentage.
+     * With a canary at 0%, only those requests reach it and everyone else stays on stable.
+     */
+    readonly targeting?: SplitTargeting
+}
+
+/**
+ * Router configuration: ordered routes (the first match wins) and the pools they target
+ */
+export interface RouterConfig {
+    readonly routes: ReadonlyArray<Route>
+    readonly pools: Readonly<Record<string, PoolOptions>>
 }
 
 /**
@@ -85,93 +365,108 @@ export class LoadBalancer extends Context.Tag("@blank-utils/LoadBalancer")<
          */
         readonly handleRequest: (
             request: CfRequest,
-        ) => Effect.Effect<Response, NoHealthyEndpointsError>
+        ) => Effect.Effect<
+            Response,
+            NoHealthyEndpointsError | DeadlineExceededError | RequestTooLargeError | NoRouteError
+        >
     }
 >() {
     /**
-     * Create a LoadBalancer layer with the given options
+     * Create a LoadBalancer layer with the given options.
+     *
+     * A CircuitBreaker is optional: when one is provided while building the
+     * layer (see `makeCircuitBreaker`), endpoints with an open circuit are skipped.
+     * Likewise for an OutlierDetector (see `makeOutlierDetector`): live traffic
+     * outcomes are recorded and ejected endpoints are skipped.
+     *
+     * Endpoints with `slowStart` ramp up after their circuit closes or the
+     * HealthMonitor (see `makeHealthMonitor`) marks them healthy: weighted and
+     * hash steering use their reduced weight, other steering modes move them
+     * behind the other endpoints for a matching share of requests.
+     *
+     * Round-robin and least-outstanding counters and latency averages live in the
+     * returned layer, as does the state of the `makeCircuitBreaker`,
+     * `makeOutlierDetector`, `makeHealthMonitor` and `makeRolloutController`
+     * layers. Create these layers once (e.g., at module scope) so their state is
+     * shared by every request handled by the isolate.
+     * With `shared: true` counters are kept in the StateStore provided while
+     * building the layer instead.
+     *
+     * With a `deadline`, every attempt of a request shares one time budget and
+     * the request fails with `DeadlineExceededError` once it is spent.
+     *
+     * The `cached-health` availability method reads health records from the
+     * StateStore provided while building the layer, or from `StateStoreMemory`
+     * when none is provided.
+     *
+     * The layer dies when an endpoint's `rewrite` rules have a pattern or flags
+     * that do not compile. Outside Workers, it logs a warning (once) when an
+     * endpoint's `hostHeader` or `healthCheck.host` is set, as they are ignored there.
+     *
+     * With a `router`, each request goes to the pool of the first route it
+     * matches, and the response names the route in `X-Load-Balancer-Route`.
+     * The layer dies when a route targets a pool that does not exist or has a
+     * `pathRegex` that does not compile.
+     *
+     * With a `trafficSplit`, each request goes to a pool picked by percentage
+     * (by its key's bucket when a key is set), and the response names the pool
+     * in `X-Load-Balancer-Pool`. The layer dies when the percentages do not add
+     * up to 100. A router pool can itself split its traffic.
+     *
+     * With a `trafficSplit.rollout`, the canary's share follows the schedule of
+     * the RolloutController provided while building the layer (see
+     * `makeRolloutController`), which promotes or rolls it back from the outcomes
+     * of both pools. The layer dies when no RolloutController is provided.
+     *
+     * With a `trafficSplit.targeting`, requests matching any of its rules go to
+     * its pool before percentages are applied, unless that pool is a rollout's
+     * canary that was rolled back. The layer dies when that pool does not exist
+     * or a rule's pattern or CIDR range is invalid.
      */
     static layer(
         options: LoadBalancerOptions,
     ): Layer.Layer<LoadBalancer, never, HealthChecker> {
+        if (options.router === undefined) {
+            return Layer.effect(LoadBalancer, makeHandler(options))
+        }
+
+        const router = options.router
+        const { router: _router, ...shared } = options
+        const pools = Object.entries(router.pools).map(
+            ([name, pool]) => [name, makeHandler({ ...shared, ...pool })] as const,
+        )
+
         return Layer.effect(
             LoadBalancer,
             Effect.gen(function* () {
-                const healthChecker = yield* HealthChecker
+                const handlers = new Map<string, LoadBalancer["Type"]>()
+                for (const [name, pool] of pools) {
+                    handlers.set(name, yield* pool)
+                }
+
+                const unknownPool = router.routes.find((route) => !handlers.has(route.pool))
+                if (unknownPool) {
+                    return yield* Effect.dieMessage(
+                        `Route "${unknownPool.name}" targets unknown pool "${unknownPool.pool}"`,
+                    )
+                }
+                const invalid = validateRoutes(router.routes)
+                if (invalid !== undefined) {
+                    return yield* Effect.dieMessage(invalid)
+                }
+                const findRoute = makeRouteFinder(router.routes)
 
                 return {
                     handleRequest: (request: CfRequest) =>
                         Effect.gen(function* () {
-                            // Determine which endpoints to try
-                            const endpointsToTry = getEndpointsToTry(options, request.cf)
-
-                            if (endpointsToTry.length === 0) {
-                                return yield* new NoHealthyEndpointsError({ triedEndpoints: [] })
-                            }
-
-                            // Get availability method
-                            const availability = options.availability ?? {
-                                type: "fail-forward" as const,
-                                failoverOnStatuses: [502, 503, 504],
-                            }
-
-                            // Create recovery context (mutable per-request state is safe)
-                            let triedEndpoints: Endpoint[] = []
-                            let lastError: unknown
-
-                            const getContext = (): RecoveryContext => ({
-                                triedEndpoints,
-                                lastError,
-                            })
-
-                            // Build the effect based on availability method
-                            const healthCheckerLayer = Layer.succeed(HealthChecker, healthChecker)
-
-                            const runWithMethod = (): Effect.Effect<
-                                Response,
-                                NoHealthyEndpointsError
-                            > => {
-                                switch (availability.type) {
-                                    case "fail-forward": {
-                                        const statuses = "failoverOnStatuses" in availability
-                                            ? availability.failoverOnStatuses
-                                            : [502, 503, 504]
-                                        return failForward(endpointsToTry, request, statuses)
-                                    }
-                                    case "async-block":
-                                        return asyncBlock(endpointsToTry, request).pipe(
-                                            Effect.provide(healthCheckerLayer),
-                                        )
-                                    case "promise-any":
-                                        return promiseAny(endpointsToTry, request).pipe(
-                                            Effect.provide(healthCheckerLayer),
-                                        )
-                                }
-                            }
-
-                            let effect = runWithMethod()
-
-                            // Track tried endpoints from error
-                            effect = effect.pipe(
-                                Effect.tapError((error) =>
-                                    Effect.sync(() => {
-                                        triedEndpoints = [...error.triedEndpoints]
-                                        lastError = error.lastError
-                                    }),
-                                ),
-                            )
-
-                            // Apply recovery function if provided
-                            if (options.recoveryFn) {
-                                effect = withRecovery(
-                                    effect,
-                                    request,
-                                    options.recoveryFn,
-                                    getContext,
-                                )
+                            const route = findRoute(request)
+                            const pool = route && handlers.get(route.pool)
+                            if (!route || !pool) {
+                                return yield* new NoRouteError({ method: request.method, url: request.url })
                             }
 
-                            return yield* effect
+                            const response = yield* pool.handleRequest(request)
+                            return addRouteHeader(response, route.name)
                         }),
                 }
             }),
@@ -187,21 +482,446 @@ export class LoadBalancer extends Context.Tag("@blank-utils/LoadBalancer")<
 }
 
 /**
- * Get the list of endpoints to try based on configuration and geo data
+ * Build the request handler of a pool: a traffic split between pools, or one pool of endpoints
+ */
+function makeHandler(options: PoolOptions): Effect.Effect<LoadBalancer["Type"], never, HealthChecker> {
+    return options.trafficSplit === undefined ? makePool(options) : makeSplit(options, options.trafficSplit)
+}
+
+/**
+ * Build the request handler of a traffic split: each request goes to one pool
+ */
+function makeSplit(
+    options: PoolOptions,
+    split: TrafficSplitConfig,
+): Effect.Effect<LoadBalancer["Type"], never, HealthChecker> {
+    const { trafficSplit: _trafficSplit, ...shared } = options
+    const rolloutPoolOf = (name: string): RolloutPool | undefined =>
+        name === split.rollout?.canary ? "canary" : name === split.rollout?.stable ? "stable" : undefined
+    const pools = Object.entries(split.pools).map(([name, { percent, ...pool }]) => ({
+        name,
+        percent: percent ?? 0,
+        make: makePool({ ...shared, ...pool }, rolloutPoolOf(name)),
+    }))
+    const shares = pools.map(({ name, percent }) => ({ pool: name, percent }))
+
+    return Effect.gen(function* () {
+        const rollout = split.rollout
+        const controller = yield* Effect.serviceOption(RolloutController)
+        if (rollout !== undefined) {
+            const names = pools.map(({ name }) => name)
+            if (names.length !== 2 || !names.includes(rollout.stable) || !names.includes(rollout.canary)) {
+                return yield* Effect.dieMessage(
+                    `A rollout split must have exactly the pools "${rollout.stable}" and "${rollout.canary}"`,
+                )
+            }
+            if (Option.isNone(controller)) {
+                return yield* Effect.dieMessage("A rollout split needs a RolloutController (see makeRolloutController)")
+            }
+        } else {
+            const invalid = validateSplit(shares)
+            if (invalid !== undefined) {
+                return yield* Effect.dieMessage(invalid)
+            }
+        }
+        const targeting = split.targeting
+        if (targeting !== undefined && !pools.some(({ name }) => name === targeting.pool)) {
+            return yield* Effect.dieMessage(`Traffic split targeting sends requests to unknown pool "${targeting.pool}"`)
+        }
+        const invalidTargeting = targeting && validateCanaryRules(targeting.rules)
+        if (invalidTargeting !== undefined) {
+            return yield* Effect.dieMessage(invalidTargeting)
+        }
+        const isTargeted = targeting && makeCanaryMatcher(targeting.rules)
+
+        const handlers = new Map<string, LoadBalancer["Type"]>()
+        for (const { name, make } of pools) {
+            handlers.set(name, yield* make)
+        }
+
+        // The canary comes first so the users it already has stay on it as it grows
+        const currentShares = rollout !== undefined && Option.isSome(controller)
+            ? controller.value.getPercent.pipe(
+                Effect.map((percent) => [
+                    { pool: rollout.canary, percent },
+                    { pool: rollout.stable, percent: 100 - percent },
+                ]),
+            )
+            : Effect.succeed(shares)
+        // A rolled back canary gets no traffic, targeted requests included
+        const targetingOpen = rollout !== undefined && targeting?.pool === rollout.canary && Option.isSome(controller)
+            ? controller.value.getStatus.pipe(Effect.map((status) => status.state._tag !== "RolledBack"))
+            : Effect.succeed(true)
+
+        return {
+            handleRequest: (request: CfRequest) =>
+                Effect.gen(function* () {
+                    const key = split.key && extractHashKey(request, split.key)
+                    const bucket = key === undefined ? Math.random() * 100 : splitBucket(key)
+                    const targeted = targeting !== undefined &&
+                        isTargeted?.(request, request.cf) === true &&
+                        (yield* targetingOpen)
+                    // A valid split always has a pool with a positive percentage
+                    const pool = targeted
+                        ? targeting.pool
+                        : selectSplitPool(yield* currentShares, bucket)!
+
+                    const response = yield* handlers.get(pool)!.handleRequest(request)
+                    return addPoolHeader(response, pool)
+                }),
+        }
+    })
+}
+
+/**
+ * Build the request handler of one pool of endpoints (the whole load balancer without a router).
+ * Counters, latency averages and affinity live in the returned handler.
+ *
+ * @param rolloutPool - Side of a rollout the pool is on (its attempts are recorded by the RolloutController)
+ */
+function makePool(
+    options: LoadBalancerOptions,
+    rolloutPool?: RolloutPool,
+): Effect.Effect<LoadBalancer["Type"], never, HealthChecker> {
+    const localCounters = makeSteeringCounters()
+    const latencyTracker = makeLatencyTracker(
+        options.steering?.type === "latency" ? options.steering.alpha : undefined,
+    )
+    const affinity = options.affinity && makeSessionAffinity(options.affinity)
+    const deadlineMs = options.deadline === undefined ? undefined : Duration.toMillis(options.deadline)
+    const allEndpoints = [
+        ...(options.endpoints ?? []),
+        ...(options.geoEndpoints ?? []).map((geo) => geo.toEndpoint()),
+        ...(options.steering?.type === "geo" ? options.steering.defaultEndpoints ?? [] : []),
+    ]
+    const slowStartEndpoints = allEndpoints.filter((ep) => ep.slowStart !== undefined)
+
+    return Effect.gen(function* () {
+        for (const ep of allEndpoints) {
+            const invalid = validateRewriteRules(ep.rewrite ?? [])
+            if (invalid !== undefined) {
+                return yield* Effect.dieMessage(`Endpoint ${ep.url}: ${invalid}`)
+            }
+        }
+        yield* warnIgnoredHost(allEndpoints)
+
+        const healthChecker = yield* HealthChecker
+        const circuitBreaker = yield* Effect.serviceOption(CircuitBreaker)
+        const outlierDetector = yield* Effect.serviceOption(OutlierDetector)
+        const healthMonitor = yield* Effect.serviceOption(HealthMonitor)
+        const stateStore = yield* Effect.serviceOption(StateStore)
+        const rollout = rolloutPool === undefined
+            ? Option.none()
+            : yield* Effect.serviceOption(RolloutController)
+        const steering = options.steering
+
+        // Health records written by `runHealthChecks` (cached-health availability)
+        const healthStore = Option.isSome(stateStore)
+            ? stateStore.value
+            : yield* StateStore.pipe(Effect.provide(StateStoreMemory))
+
+        const counters =
+            steering !== undefined && "shared" in steering && steering.shared && Option.isSome(stateStore)
+                ? makeSharedSteeringCounters(stateStore.value, localCounters)
+                : localCounters
+
+        return {
+            handleRequest: (request: CfRequest) =>
+                Effect.gen(function* () {
+                    // The deadline budget includes endpoint selection
+                    const receivedAt = Date.now()
+
+                    // Slow start: share of their weight that recently recovered endpoints get
+                    const slowStart = yield* getSlowStartFactors(
+                        slowStartEndpoints,
+                        circuitBreaker,
+                        healthMonitor,
+                    )
+
+                    // Determine which endpoints to try
+                    let endpointsToTry = getEndpointsToTry(options, request, slowStart)
+
+                    if (steering?.type === "round-robin" || steering?.type === "least-outstanding") {
+                        endpointsToTry = yield* orderByCounters(steering.type, endpointsToTry, counters)
+                    }
+                    if (steering?.type === "latency") {
+                        endpointsToTry = yield* orderByLatency(
+                            endpointsToTry,
+                            latencyTracker,
+                            steering.errorPenalty,
+                        )
+                    }
+
+                    // Steering modes without weights demote endpoints in slow start instead
+                    if (slowStart.size > 0 && steering?.type !== "weighted" && steering?.type !== "hash") {
+                        endpointsToTry = selectSlowStartEndpoints(
+                            endpointsToTry,
+                            endpointsToTry.map((ep) => slowStart.get(ep.normalizedUrl) ?? 1),
+                        )
+                    }
+
+                    // Session affinity: the pinned endpoint goes first
+                    const pinnedUrl = affinity
+                        ? yield* affinity.getPinnedUrl(request)
+                        : Option.none<string>()
+                    if (affinity) {
+                        endpointsToTry = affinity.preferPinned(endpointsToTry, pinnedUrl)
+                    }
+
+                    if (endpointsToTry.length === 0) {
+                        return yield* new NoHealthyEndpointsError({ triedEndpoints: [] })
+                    }
+
+                    // Get availability method
+                    const availability = options.availability ?? {
+                        type: "fail-forward" as const,
+                        failoverOnStatuses: [502, 503, 504],
+                    }
+
+                    // Create recovery context (mutable per-request state is safe)
+                    let triedEndpoints: Endpoint[] = []
+                    let lastError: unknown
+
+                    const getContext = (): RecoveryContext => ({
+                        triedEndpoints,
+                        lastError,
+                    })
+
+                    // Response times feed latency steering and p95 hedge delays
+                    const trackLatency = steering?.type === "latency" ||
+                        (availability.type === "hedged" && availability.delay === "p95")
+
+                    const steeringTrack: AttemptOptions["trackAttempt"] = steering?.type === "least-outstanding"
+                        ? trackLatency
+                            ? (endpoint, attempt) =>
+                                counters.trackOutstanding(endpoint, latencyTracker.trackLatency(endpoint, attempt))
+                            : counters.trackOutstanding
+                        : trackLatency
+                            ? latencyTracker.trackLatency
+                            : undefined
+
+                    // Rollout analysis sees every attempt of the pool, like failover does
+                    const trackAttempt: AttemptOptions["trackAttempt"] = Option.isSome(rollout) && rolloutPool
+                        ? (endpoint, attempt) =>
+                            rollout.value.track(rolloutPool, steeringTrack ? steeringTrack(endpoint, attempt) : attempt)
+                        : steeringTrack
+
+                    const attemptOptions: AttemptOptions = {
+                        ...(options.retry && { retry: options.retry }),
+                        ...(options.failoverPolicy && { failoverPolicy: options.failoverPolicy }),
+                        ...(options.requestBody && { requestBody: options.requestBody }),
+                        ...(deadlineMs !== undefined && {
+                            deadline: { budgetMs: deadlineMs, expiresAt: receivedAt + deadlineMs },
+                        }),
+                        ...(trackAttempt && { trackAttempt }),
+                    }
+
+                    // Endpoints get the client address and lose hop-by-hop headers
+                    const upstreamRequest = options.proxyHeaders === false
+                        ? request
+                        : withProxyHeaders(request, options.proxyHeaders)
+
+                    // Build the effect based on availability method
+                    const healthCheckerLayer = Layer.succeed(HealthChecker, healthChecker)
+
+                    const runWithMethod = (): Effect.Effect<
+                        Response,
+                        NoHealthyEndpointsError | DeadlineExceededError | RequestTooLargeError
+                    > => {
+                        switch (availability.type) {
+                            case "fail-forward": {
+                                const statuses = "failoverOnStatuses" in availability
+                                    ? availability.failoverOnStatuses
+                                    : [502, 503, 504]
+                                return failForward(endpointsToTry, upstreamRequest, statuses, attemptOptions)
+                            }
+                            case "async-block":
+                                return asyncBlock(endpointsToTry, upstreamRequest, attemptOptions).pipe(
+                                    Effect.provide(healthCheckerLayer),
+                                )
+                            case "promise-any":
+                                return promiseAny(endpointsToTry, upstreamRequest, attemptOptions).pipe(
+                                    Effect.provide(healthCheckerLayer),
+                                )
+                            case "cached-health":
+                                return cachedHealth(endpointsToTry, upstreamRequest, availability, attemptOptions).pipe(
+                                    Effect.provideService(StateStore, healthStore),
+                                )
+                            case "hedged":
+                                return hedged(
+                                    endpointsToTry,
+                                    upstreamRequest,
+                                    {
+                                        ...availability,
+                                        delay: availability.delay === "p95"
+                                            ? (endpoint) =>
+                                                latencyTracker.getPercentile(endpoint, 95, P95_HEDGE_MINIMUM_SAMPLES).pipe(
+                                                    Effect.map(Option.getOrElse(() => DEFAULT_HEDGE_DELAY)),
+                                                )
+                                            : availability.delay ?? DEFAULT_HEDGE_DELAY,
+                                    },
+                                    attemptOptions,
+                                )
+                        }
+                    }
+
+                    let effect = Option.match(circuitBreaker, {
+                        onNone: () => runWithMethod(),
+                        onSome: (breaker) =>
+                            runWithMethod().pipe(
+                                Effect.provideService(CircuitBreaker, breaker),
+                            ),
+                    })
+                    if (Option.isSome(outlierDetector)) {
+                        effect = effect.pipe(
+                            Effect.provideService(OutlierDetector, outlierDetector.value),
+                        )
+                    }
+
+                    // Track tried endpoints from error
+                    effect = effect.pipe(
+                        Effect.tapError((error) =>
+                            Effect.sync(() => {
+                                if (error._tag === "RequestTooLargeError") return
+                                triedEndpoints = [...error.triedEndpoints]
+                                lastError = error.lastError
+                            }),
+                        ),
+                    )
+
+                    // Apply recovery function if provided
+                    if (options.recoveryFn) {
+                        effect = withRecovery(
+                            effect,
+                            request,
+                            options.recoveryFn,
+                            getContext,
+                        )
+                    }
+
+                    const response = yield* effect
+
+                    return affinity ? yield* affinity.pin(response, pinnedUrl) : response
+                }),
+        }
+    })
+}
+
+/**
+ * Get the list of endpoints to try based on configuration and request data
+ *
+ * @param slowStart - Slow-start factors by normalized URL (applied to weights)
  */
 function getEndpointsToTry(
     options: LoadBalancerOptions,
-    cf: CfProperties | undefined,
+    request: CfRequest,
+    slowStart: ReadonlyMap<string, number>,
 ): ReadonlyArray<Endpoint> {
+    const weightsOf = (endpoints: ReadonlyArray<Endpoint>) =>
+        endpoints.map((ep) => ep.weight * (slowStart.get(ep.normalizedUrl) ?? 1))
+
     // If geo steering is enabled
     if (options.steering?.type === "geo" && options.geoEndpoints) {
         return selectGeoEndpoints(
             options.geoEndpoints,
-            cf,
+            request.cf,
             options.steering.defaultEndpoints,
         )
     }
 
+    // Hash steering: same key, same order; remaining endpoints kept for failover
+    if (options.steering?.type === "hash") {
+        const endpoints = options.endpoints ?? []
+        const key = extractHashKey(request, options.steering.key)
+        return key === undefined
+            ? selectWeightedEndpoints(endpoints, Math.random, weightsOf(endpoints))
+            : selectHashEndpoints(endpoints, key, weightsOf(endpoints))
+    }
+
+    // Weighted steering: weighted random order, remaining endpoints kept for failover
+    if (options.steering?.type === "weighted") {
+        const endpoints = options.endpoints ?? []
+        return selectWeightedEndpoints(endpoints, Math.random, weightsOf(endpoints))
+    }
+
     // Regular endpoints
     return options.endpoints ?? []
 }
+
+/**
+ * Order endpoints using the request counters (round-robin and least-outstanding steering)
+ */
+function orderByCounters(
+    type: "round-robin" | "least-outstanding",
+    endpoints: ReadonlyArray<Endpoint>,
+    counters: SteeringCounters,
+): Effect.Effect<ReadonlyArray<Endpoint>> {
+    return Effect.gen(function* () {
+        // Each distinct set of endpoints has its own rotation
+        const offset = yield* counters.nextOffset(endpoints.map((ep) => ep.normalizedUrl).join(","))
+        const rotated = rotateEndpoints(endpoints, offset)
+
+        if (type === "round-robin") {
+            return rotated
+        }
+
+        // Sorting the rotated list spreads requests across endpoints with the same count
+        const outstanding = yield* counters.getOutstanding(rotated)
+        return selectLeastOutstandingEndpoints(rotated, outstanding)
+    })
+}
+
+/**
+ * Order endpoints by their latency scores (latency steering)
+ */
+function orderByLatency(
+    endpoints: ReadonlyArray<Endpoint>,
+    tracker: LatencyTracker,
+    errorPenalty: number | undefined,
+): Effect.Effect<ReadonlyArray<Endpoint>> {
+    return Effect.forEach(endpoints, (endpoint) =>
+        tracker.getStats(endpoint).pipe(
+            Effect.map((stats) => latencyScore(Option.getOrUndefined(stats), errorPenalty)),
+        ),
+    ).pipe(Effect.map((scores) => selectLatencyEndpoints(endpoints, scores)))
+}
+
+/**
+ * Get the slow-start factors of endpoints that recovered less than their
+ * slow-start window ago, keyed by normalized URL.
+ *
+ * An endpoint recovers when its circuit closes after being open, or when the
+ * health monitor marks it healthy after being unhealthy; the latest of the two counts.
+ */
+function getSlowStartFactors(
+    endpoints: ReadonlyArray<Endpoint>,
+    circuitBreaker: Option.Option<Context.Tag.Service<CircuitBreaker>>,
+    healthMonitor: Option.Option<Context.Tag.Service<HealthMonitor>>,
+): Effect.Effect<ReadonlyMap<string, number>> {
+    return Effect.gen(function* () {
+        const factors = new Map<string, number>()
+        if (endpoints.length === 0 || (Option.isNone(circuitBreaker) && Option.isNone(healthMonitor))) {
+            return factors
+        }
+
+        const now = yield* Clock.currentTimeMillis
+        for (const endpoint of endpoints) {
+            const circuit: CircuitState | undefined = Option.isSome(circuitBreaker)
+                ? yield* circuitBreaker.value.getState(endpoint)
+                : undefined
+            const health: HealthState | undefined = Option.isSome(healthMonitor)
+                ? yield* healthMonitor.value.getState(endpoint)
+                : undefined
+
+            const recoveredAt = Math.max(
+                circuit?._tag === "Closed" && circuit.closedAt ? circuit.closedAt.getTime() : -Infinity,
+                health?._tag === "Healthy" && health.recovered ? health.since.getTime() : -Infinity,
+            )
+            if (recoveredAt === -Infinity) continue
+
+            const factor = slowStartFactor(endpoint, now - recoveredAt)
+            if (factor < 1) factors.set(endpoint.normalizedUrl, factor)
+        }
+        return factors
+    })
+}
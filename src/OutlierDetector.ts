@@ -0,0 +1,339 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * OutlierDetector service - eject endpoints that fail too often in live traffic
+ */
+import { Clock, Context, Duration, Effect, HashMap, Layer, Option, Ref } from "effect"
+import type { Endpoint } from "./Endpoint.js"
+import { EndpointEjectedError, type RequestForwardError } from "./Errors.js"
+
+/**
+ * Default sliding window over which failure rates are measured
+ */
+export const DEFAULT_OUTLIER_WINDOW: Duration.DurationInput = "30 seconds"
+
+/**
+ * Default number of requests in the window before an endpoint can be ejected
+ */
+export const DEFAULT_OUTLIER_MINIMUM_REQUESTS = 10
+
+/**
+ * Default failure rate (0-1) at which an endpoint is ejected
+ */
+export const DEFAULT_OUTLIER_FAILURE_RATE = 0.5
+
+/**
+ * Default duration of the first ejection (multiplied by the ejection count)
+ */
+export const DEFAULT_BASE_EJECTION_TIME: Duration.DurationInput = "30 seconds"
+
+/**
+ * Default upper bound of an ejection
+ */
+export const DEFAULT_MAX_EJECTION_TIME: Duration.DurationInput = "5 minutes"
+
+/**
+ * Default maximum share (in percent) of known endpoints that may be ejected at once
+ */
+export const DEFAULT_MAX_EJECTION_PERCENT = 50
+
+/**
+ * Number of buckets the sliding window is divided into
+ */
+const WINDOW_BUCKETS = 10
+
+/**
+ * Outcome of a request as seen by outlier detection
+ *
+ * - `success`: a response below 500
+ * - `server-error`: a 5xx response
+ * - `timeout`: the request timed out
+ * - `network`: the request failed without a response
+ */
+export type RequestOutcome = "success" | "server-error" | "timeout" | "network"
+
+/**
+ * Classify the result of forwarding a request
+ */
+export const classifyOutcome = (result: Response | RequestForwardError): RequestOutcome => {
+    if (result instanceof Response) {
+        return result.status >= 500 ? "server-error" : "success"
+    }
+    const cause = result.cause
+    return cause instanceof Error && (cause.name === "TimeoutError" || cause.name === "AbortError")
+        ? "timeout"
+        : "network"
+}
+
+/**
+ * An endpoint being ejected
+ */
+export interface OutlierEjection {
+    readonly endpoint: Endpoint
+    readonly ejectedUntil: Date
+    readonly ejections: number
+    readonly failureRate: number
+    readonly requests: number
+}
+
+/**
+ * Current outlier statistics of an endpoint
+ */
+export interface OutlierStats {
+    /**
+     * Requests recorded in the current window
+     */
+    readonly requests: number
+    /**
+     * Failures (5xx, timeouts and network errors) recorded in the current window
+     */
+    readonly failures: number
+    /**
+     * End of the current ejection, if the endpoint is ejected
+     */
+    readonly ejectedUntil: Option.Option<Date>
+    /**
+     * Number of ejections so far (drives the escalating ejection time)
+     */
+    readonly ejections: number
+}
+
+/**
+ * Outlier detection configuration
+ */
+export interface OutlierDetectorOptions {
+    /**
+     * Sliding window over which failure rates are measured
+     * @default "30 seconds"
+     */
+    readonly window?: Duration.DurationInput
+    /**
+     * Requests needed in the window before an endpoint can be ejected
+     * @default 10
+     */
+    readonly minimumRequests?: number
+    /**
+     * Failure rate (0-1) at which an endpoint is ejected
+     * @default 0.5
+     */
+    readonly failureRateThreshold?: number
+    /**
+     * Duration of the first ejection; the n-th ejection lasts n times as long
+     * @default "30 seconds"
+     */
+    readonly baseEjectionTime?: Duration.DurationInput
+    /**
+     * Upper bound of an ejection. An endpoint that stays in for this long after
+     * an ejection starts escalating from the base ejection time again.
+     * @default "5 minutes"
+     */
+    readonly maxEjectionTime?: Duration.DurationInput
+    /**
+     * Maximum share (in percent) of the endpoints seen so far that may be
+     * ejected at the same time
+     * @default 50
+     */
+    readonly maxEjectionPercent?: number
+    /**
+     * Called whenever an endpoint is ejected (e.g., for logging or metrics)
+     */
+    readonly onEjection?: (ejection: OutlierEjection) => Effect.Effect<void>
+}
+
+/**
+ * OutlierDetector service interface
+ */
+export class OutlierDetector extends Context.Tag("@blank-utils/OutlierDetector")<
+    OutlierDetector,
+    {
+        /**
+         * Check whether an endpoint may receive requests.
+         * Fails with EndpointEjectedError while the endpoint is ejected.
+         */
+        readonly allowRequest: (endpoint: Endpoint) => Effect.Effect<void, EndpointEjectedError>
+
+        /**
+         * Record the outcome of a request (may eject the endpoint)
+         */
+        readonly record: (endpoint: Endpoint, outcome: RequestOutcome) => Effect.Effect<void>
+
+        /**
+         * Get the current statistics of an endpoint
+         */
+        readonly getStats: (endpoint: Endpoint) => Effect.Effect<OutlierStats>
+    }
+>() { }
+
+interface Bucket {
+    readonly index: number
+    readonly requests: number
+    readonly failures: number
+}
+
+interface EndpointState {
+    readonly buckets: ReadonlyArray<Bucket>
+    readonly ejectedUntil: number | null
+    readonly ejections: number
+}
+
+const initialState: EndpointState = { buckets: [], ejectedUntil: null, ejections: 0 }
+
+/**
+ * Create an outlier detection layer.
+ *
+ * Outcomes are counted per endpoint URL in a sliding window. Once an endpoint
+ * has seen `minimumRequests` requests in the window and its failure rate reaches
+ * `failureRateThreshold`, it is ejected: every availability method skips it until
+ * the ejection ends. Ejections get longer each time (`baseEjectionTime` times the
+ * ejection count, up to `maxEjectionTime`), and never take out more than
+ * `maxEjectionPercent` of the endpoints seen so far.
+ *
+ * @example
+ * ```ts
+ * const lb = LoadBalancer.live({ endpoints }).pipe(
+ *   Layer.provide(makeOutlierDetector({ failureRateThreshold: 0.3, maxEjectionPercent: 34 })),
+ * )
+ * ```
+ */
+export const makeOutlierDetector = (
+    options?: OutlierDetectorOptions,
+): Layer.Layer<OutlierDetector> => {
+    const windowMs = Duration.toMillis(options?.window ?? DEFAULT_OUTLIER_WINDOW)
+    const bucketMs = windowMs / WINDOW_BUCKETS
+    const minimumRequests = options?.minimumRequests ?? DEFAULT_OUTLIER_MINIMUM_REQUESTS
+    const threshold = options?.failureRateThreshold ?? DEFAULT_OUTLIER_FAILURE_RATE
+    const baseEjectionMs = Duration.toMillis(options?.baseEjectionTime ?? DEFAULT_BASE_EJECTION_TIME)
+    const maxEjectionMs = Duration.toMillis(options?.maxEjectionTime ?? DEFAULT_MAX_EJECTION_TIME)
+    const maxEjectionPercent = options?.maxEjectionPercent ?? DEFAULT_MAX_EJECTION_PERCENT
+    const states = Ref.unsafeMake(HashMap.empty<string, EndpointState>())
+
+    const getState = (map: HashMap.HashMap<string, EndpointState>, endpoint: Endpoint) =>
+        HashMap.get(map, endpoint.normalizedUrl).pipe(Option.getOrElse(() => initialState))
+
+    /**
+     * Buckets that are still inside the window
+     */
+    const liveBuckets = (buckets: ReadonlyArray<Bucket>, current: number) =>
+        buckets.filter((bucket) => bucket.index > current - WINDOW_BUCKETS)
+
+    const totals = (buckets: ReadonlyArray<Bucket>) =>
+        buckets.reduce(
+            (sum, bucket) => ({
+                requests: sum.requests + bucket.requests,
+                failures: sum.failures + bucket.failures,
+            }),
+            { requests: 0, failures: 0 },
+        )
+
+    const isEjected = (state: EndpointState, now: number) =>
+        state.ejectedUntil !== null && now < state.ejectedUntil
+
+    return Layer.succeed(OutlierDetector, {
+        allowRequest: (endpoint) =>
+            Effect.gen(function* () {
+                const now = yield* Clock.currentTimeMillis
+                const state = getState(yield* Ref.get(states), endpoint)
+
+                if (state.ejectedUntil !== null && isEjected(state, now)) {
+                    return yield* new EndpointEjectedError({
+                        endpoint,
+                        ejectedUntil: new Date(state.ejectedUntil),
+                        ejections: state.ejections,
+                    })
+                }
+            }),
+
+        record: (endpoint, outcome) =>
+            Effect.gen(function* () {
+                const now = yield* Clock.currentTimeMillis
+                const current = Math.floor(now / bucketMs)
+                const failure = outcome !== "success"
+
+                const ejection = yield* Ref.modify(states, (map) => {
+                    const state = getState(map, endpoint)
+
+                    // Late outcomes of requests started before the ejection
+                    if (isEjected(state, now)) {
+                        return [Option.none<OutlierEjection>(), map] as const
+                    }
+
+                    const buckets = liveBuckets(state.buckets, current)
+                    const last = buckets[buckets.length - 1]
+                    const updated =
+                        last?.index === current
+                            ? [
+                                ...buckets.slice(0, -1),
+                                {
+                                    index: current,
+                                    requests: last.requests + 1,
+                                    failures: last.failures + (failure ? 1 : 0),
+                                },
+                            ]
+                            : [...buckets, { index: current, requests: 1, failures: failure ? 1 : 0 }]
+
+                    const { requests, failures } = totals(updated)
+                    const ejectedCount = HashMap.reduce(
+                        map,
+                        0,
+                        (count, other) => count + (isEjected(other, now) ? 1 : 0),
+                    )
+                    const known = HashMap.has(map, endpoint.normalizedUrl)
+                        ? HashMap.size(map)
+                        : HashMap.size(map) + 1
+
+                    const shouldEject =
+                        failure &&
+                        requests >= minimumRequests &&
+                        failures / requests >= threshold &&
+                        ejectedCount + 1 <= (known * maxEjectionPercent) / 100
+
+                    if (!shouldEject) {
+                        return [
+                            Option.none<OutlierEjection>(),
+                            HashMap.set(map, endpoint.normalizedUrl, { ...state, buckets: updated }),
+                        ] as const
+                    }
+
+                    // Staying in for maxEjectionTime after the last ejection resets the escalation
+                    const ejections =
+                        state.ejectedUntil !== null && now - state.ejectedUntil >= maxEjectionMs
+                            ? 1
+                            : state.ejections + 1
+                    const ejectedUntil = now + Math.min(baseEjectionMs * ejections, maxEjectionMs)
+
+                    return [
+                        Option.some<OutlierEjection>({
+                            endpoint,
+                            ejectedUntil: new Date(ejectedUntil),
+                            ejections,
+                            failureRate: failures / requests,
+                            requests,
+                        }),
+                        // Start from a clean window when the endpoint comes back
+                        HashMap.set(map, endpoint.normalizedUrl, { buckets: [], ejectedUntil, ejections }),
+                    ] as const
+                })
+
+                if (Option.isSome(ejection) && options?.onEjection) {
+                    yield* options.onEjection(ejection.value)
+                }
+            }),
+
+        getStats: (endpoint) =>
+            Effect.gen(function* () {
+                const now = yield* Clock.currentTimeMillis
+                const state = getState(yield* Ref.get(states), endpoint)
+                const { requests, failures } = totals(liveBuckets(state.buckets, Math.floor(now / bucketMs)))
+
+                return {
+                    requests,
+                    failures,
+                    ejectedUntil:
+                        state.ejectedUntil !== null && isEjected(state, now)
+                            ? Option.some(new Date(state.ejectedUntil))
+                            : Option.none(),
+                    ejections: state.ejections,
+                }
+            }),
+    })
+}
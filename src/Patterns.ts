@@ -0,0 +1,36 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Patterns - regular expressions in configuration (routes, rewrite rules, canary rules)
+ */
+import { Schema } from "effect"
+
+/**
+ * Check that a regular expression compiles
+ * (returns the problem, or undefined when it compiles)
+ *
+ * @param pattern - Regular expression source
+ * @param flags - Regular expression flags
+ */
+export const validateRegExp = (pattern: string, flags?: string): string | undefined => {
+    try {
+        new RegExp(pattern, flags)
+        return undefined
+    } catch (error) {
+        return error instanceof Error ? error.message : `Invalid regular expression /${pattern}/${flags ?? ""}`
+    }
+}
+
+/**
+ * Regular expression source that must compile
+ */
+export const RegExpSource = Schema.String.pipe(
+    Schema.filter((pattern) => validateRegExp(pattern) === undefined || "Pattern must be a valid regular expression"),
+)
+
+/**
+ * Regular expression flags that must be valid (each known flag at most once)
+ */
+export const RegExpFlags = Schema.String.pipe(
+    Schema.filter((flags) => validateRegExp("", flags) === undefined || `Invalid regular expression flags "${flags}"`),
+)
@@ -0,0 +1,180 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Proxy headers - hop-by-hop stripping, X-Forwarded-*, Forwarded (RFC 7239) and Via
+ */
+import { Schema } from "effect"
+
+/**
+ * Headers that only apply to a single connection (RFC 9110 §7.6.1) and are
+ * never forwarded, in either direction
+ */
+export const HOP_BY_HOP_HEADERS = [
+    "connection",
+    "keep-alive",
+    "proxy-authenticate",
+    "proxy-authorization",
+    "proxy-connection",
+    "te",
+    "trailer",
+    "transfer-encoding",
+    "upgrade",
+] as const
+
+/**
+ * Header carrying the client address (set by Cloudflare)
+ */
+export const DEFAULT_CLIENT_IP_HEADER = "CF-Connecting-IP"
+
+/**
+ * Pseudonym the load balancer adds to the `Via` header
+ */
+export const DEFAULT_VIA_PSEUDONYM = "blank-lb"
+
+/**
+ * Forwarding headers that clients could use to spoof their address
+ */
+const FORWARDING_HEADERS = ["forwarded", "x-forwarded-for", "x-forwarded-proto", "x-forwarded-host"] as const
+
+/**
+ * Proxy header options
+ */
+export const ProxyHeadersOptions = Schema.Struct({
+    /**
+     * Keep incoming `X-Forwarded-*` and `Forwarded` headers and append to them.
+     * Only enable this when every request comes through a proxy you trust;
+     * otherwise they are replaced so clients cannot spoof their address.
+     * @default false
+     */
+    trustForwarded: Schema.optionalWith(Schema.Boolean, { exact: true }),
+    /**
+     * Header carrying the client address
+     * @default "CF-Connecting-IP"
+     */
+    clientIpHeader: Schema.optionalWith(Schema.String, { exact: true }),
+    /**
+     * Add `X-Forwarded-For`, `X-Forwarded-Proto` and `X-Forwarded-Host`
+     * @default true
+     */
+    xForwarded: Schema.optionalWith(Schema.Boolean, { exact: true }),
+    /**
+     * Add the RFC 7239 `Forwarded` header
+     * @default true
+     */
+    forwarded: Schema.optionalWith(Schema.Boolean, { exact: true }),
+    /**
+     * Pseudonym added to the `Via` header, or false to leave `Via` untouched
+     * @default "blank-lb"
+     */
+    via: Schema.optionalWith(Schema.Union(Schema.String, Schema.Literal(false)), { exact: true }),
+})
+export type ProxyHeadersOptions = typeof ProxyHeadersOptions.Type
+
+/**
+ * Copy headers without the hop-by-hop headers, including those named in `Connection`
+ */
+export const stripHopByHopHeaders = (headers: Headers): Headers => {
+    const stripped = new Headers(headers)
+    const listed = (headers.get("Connection") ?? "")
+        .split(",")
+        .map((name) => name.trim())
+        .filter((name) => name !== "")
+
+    for (const name of [...HOP_BY_HOP_HEADERS, ...listed]) {
+        stripped.delete(name)
+    }
+    return stripped
+}
+
+/**
+ * Strip hop-by-hop headers from an endpoint's response (returned as is when it has none)
+ */
+export const stripHopByHopResponseHeaders = (response: Response): Response => {
+    const hasHopByHop = HOP_BY_HOP_HEADERS.some((name) => response.headers.has(name))
+    if (!hasHopByHop) return response
+
+    return new Response(response.body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: stripHopByHopHeaders(response.headers),
+    })
+}
+
+/**
+ * Format a `Forwarded` parameter value: tokens as is, anything else quoted,
+ * and IPv6 addresses in brackets (RFC 7239 §6)
+ */
+const forwardedValue = (value: string, isNode = false): string => {
+    const node = isNode && value.includes(":") && !value.startsWith("[") ? `[${value}]` : value
+    return /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(node)
+        ? node
+        : `"${node.replace(/["\\]/g, "\\$&")}"`
+}
+
+/**
+ * Format one `Forwarded` element
+ *
+ * @param client - Client address (`unknown` when not known)
+ * @param proto - Protocol the client used
+ * @param host - Host the client requested
+ */
+export const formatForwardedElement = (client: string | undefined, proto: string, host: string): string =>
+    [
+        `for=${forwardedValue(client ?? "unknown", true)}`,
+        `proto=${forwardedValue(proto)}`,
+        `host=${forwardedValue(host)}`,
+    ].join(";")
+
+/**
+ * Append a value to a comma-separated header
+ */
+const appendToList = (current: string | null, value: string): string =>
+    current === null || current.trim() === "" ? value : `${current}, ${value}`
+
+/**
+ * Build the headers to send to an endpoint: hop-by-hop headers are stripped,
+ * the client is recorded in `X-Forwarded-For`/`-Proto`/`-Host` and `Forwarded`,
+ * and the load balancer adds itself to `Via`.
+ *
+ * @param request - The incoming request
+ * @param options - Proxy header options
+ */
+export const proxyRequestHeaders = (request: Request, options?: ProxyHeadersOptions): Headers => {
+    const headers = stripHopByHopHeaders(request.headers)
+    const url = new URL(request.url)
+    const proto = url.protocol.replace(/:$/, "")
+    const host = url.host
+    const client = request.headers.get(options?.clientIpHeader ?? DEFAULT_CLIENT_IP_HEADER)?.trim() || undefined
+
+    if (!options?.trustForwarded) {
+        for (const name of FORWARDING_HEADERS) {
+            headers.delete(name)
+        }
+    }
+
+    if (options?.xForwarded !== false) {
+        if (client !== undefined) {
+            headers.set("X-Forwarded-For", appendToList(headers.get("X-Forwarded-For"), client))
+        }
+        // A trusted proxy in front already recorded what the client asked for
+        if (!headers.has("X-Forwarded-Proto")) headers.set("X-Forwarded-Proto", proto)
+        if (!headers.has("X-Forwarded-Host")) headers.set("X-Forwarded-Host", host)
+    }
+
+    if (options?.forwarded !== false) {
+        headers.set("Forwarded", appendToList(headers.get("Forwarded"), formatForwardedElement(client, proto, host)))
+    }
+
+    const via = options?.via ?? DEFAULT_VIA_PSEUDONYM
+    if (via !== false) {
+        headers.set("Via", appendToList(headers.get("Via"), `1.1 ${via}`))
+    }
+
+    return headers
+}
+
+/**
+ * Copy a request with the headers from `proxyRequestHeaders`
+ */
+export const withProxyHeaders = (request: Request, options?: ProxyHeadersOptions): Request =>
+    new Request(request, { headers: proxyRequestHeaders(request, options) })
@@ -5,6 +5,7 @@
  */
 import { Effect } from "effect"
 import type { Endpoint } from "./Endpoint.js"
+import { RequestTooLargeError } from "./Errors.js"
 
 /**
  * Context passed to the recovery function
@@ -24,7 +25,7 @@ export interface RecoveryContext {
 /**
  * Recovery function type
  *
- * Called when all endpoints fail. Can:
+ * Called when all endpoints fail (not for requests rejected as too large). Can:
  * - Log failures to external services
  * - Store failed requests for later replay
  * - Return undefined to throw the default error
@@ -36,7 +37,8 @@ export type RecoveryFn = (
 ) => Effect.Effect<Response | undefined>
 
 /**
- * Apply a recovery function to handle total failures
+ * Apply a recovery function to handle total failures.
+ * A `RequestTooLargeError` is the client's fault, so it is passed through unrecovered.
  */
 export const withRecovery = <E>(
     effect: Effect.Effect<Response, E>,
@@ -49,17 +51,19 @@ export const withRecovery = <E>(
     }
 
     return effect.pipe(
-        Effect.catchAll((error) =>
-            Effect.gen(function* () {
-                const context = getContext()
-                const recoveryResponse = yield* recoveryFn(request, context)
+        Effect.catchIf(
+            (error) => !(error instanceof RequestTooLargeError),
+            (error) =>
+                Effect.gen(function* () {
+                    const context = getContext()
+                    const recoveryResponse = yield* recoveryFn(request, context)
 
-                if (recoveryResponse) {
-                    return recoveryResponse
-                }
+                    if (recoveryResponse) {
+                        return recoveryResponse
+                    }
 
-                return yield* Effect.fail(error as E)
-            }),
+                    return yield* Effect.fail(error as E)
+                }),
         ),
     )
 }
@@ -0,0 +1,386 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * RolloutController service - step a canary's traffic share up, or roll it back, by comparing it to stable
+ */
+import { Clock, Context, Data, Duration, Effect, Layer, Option, Ref } from "effect"
+import type { RequestForwardError } from "./Errors.js"
+import { classifyOutcome, type RequestOutcome } from "./OutlierDetector.js"
+
+/**
+ * Default canary percentages, in order
+ */
+export const DEFAULT_ROLLOUT_STEPS: ReadonlyArray<number> = [1, 5, 25, 100]
+
+/**
+ * Default time each step is held before the canary is promoted to the next one
+ */
+export const DEFAULT_ROLLOUT_STEP_DURATION: Duration.DurationInput = "10 minutes"
+
+/**
+ * Default number of canary requests in a step before it can be promoted or rolled back
+ */
+export const DEFAULT_ROLLOUT_MINIMUM_REQUESTS = 100
+
+/**
+ * Default amount (0-1) by which the canary error rate may exceed the stable one
+ */
+export const DEFAULT_ROLLOUT_MAX_ERROR_RATE_INCREASE = 0.05
+
+/**
+ * Default ratio of canary to stable mean latency at which the canary is rolled back
+ */
+export const DEFAULT_ROLLOUT_MAX_LATENCY_RATIO = 1.5
+
+/**
+ * Which side of a rollout a request went to
+ */
+export type RolloutPool = "stable" | "canary"
+
+/**
+ * State of a rollout.
+ *
+ * - `Progressing`: the canary gets `percent` (step `step` of the schedule) since `since`
+ * - `Complete`: the canary reached the last step and keeps its `percent`
+ * - `RolledBack`: a threshold was breached; the canary gets no traffic until restarted
+ */
+export type RolloutState = Data.TaggedEnum<{
+    Progressing: {
+        readonly step: number
+        readonly percent: number
+        readonly since: Date
+    }
+    Complete: {
+        readonly percent: number
+        readonly since: Date
+    }
+    RolledBack: {
+        readonly since: Date
+        readonly reason: string
+    }
+}>
+export const RolloutState = Data.taggedEnum<RolloutState>()
+
+/**
+ * Traffic share of the canary in a rollout state, in percent
+ */
+export const rolloutPercent = (state: RolloutState): number =>
+    state._tag === "RolledBack" ? 0 : state.percent
+
+/**
+ * Outcomes one side of a rollout saw during the current step
+ */
+export interface RolloutPoolStats {
+    /**
+     * Attempts recorded
+     */
+    readonly requests: number
+    /**
+     * Failures (5xx, timeouts and network errors)
+     */
+    readonly failures: number
+    /**
+     * Mean latency of successful attempts, if any
+     */
+    readonly meanLatencyMs: Option.Option<number>
+}
+
+/**
+ * Current state of a rollout and what each side saw during the current step
+ */
+export interface RolloutStatus {
+    readonly state: RolloutState
+    readonly percent: number
+    readonly canary: RolloutPoolStats
+    readonly stable: RolloutPoolStats
+}
+
+/**
+ * A change of rollout state (a promotion, completion or rollback)
+ */
+export interface RolloutTransition {
+    readonly from: RolloutState
+    readonly to: RolloutState
+    readonly at: Date
+}
+
+/**
+ * Rollout configuration
+ */
+export interface RolloutOptions {
+    /**
+     * Canary percentages, in increasing order; reaching the last one completes the rollout
+     * @default [1, 5, 25, 100]
+     */
+    readonly steps?: ReadonlyArray<number>
+    /**
+     * Time each step is held before promoting the canary to the next one
+     * @default "10 minutes"
+     */
+    readonly stepDuration?: Duration.DurationInput
+    /**
+     * Canary requests needed in a step before it is promoted or rolled back
+     * @default 100
+     */
+    readonly minimumRequests?: number
+    /**
+     * Amount (0-1) by which the canary error rate may exceed the stable one
+     * before the canary is rolled back (0.05 allows 1% stable vs 6% canary)
+     * @default 0.05
+     */
+    readonly maxErrorRateIncrease?: number
+    /**
+     * Ratio of canary to stable mean latency (successful attempts) at which
+     * the canary is rolled back
+     * @default 1.5
+     */
+    readonly maxLatencyRatio?: number
+    /**
+     * Called whenever the rollout state changes (e.g., for logging or metrics)
+     */
+    readonly onTransition?: (transition: RolloutTransition) => Effect.Effect<void>
+}
+
+/**
+ * RolloutController service interface
+ */
+export class RolloutController extends Context.Tag("@blank-utils/RolloutController")<
+    RolloutController,
+    {
+        /**
+         * Get the canary's current traffic share, in percent (promotes it when its step is over)
+         */
+        readonly getPercent: Effect.Effect<number>
+
+        /**
+         * Record the outcome and latency of an attempt (may roll the canary back)
+         */
+        readonly record: (pool: RolloutPool, outcome: RequestOutcome, latencyMs: number) => Effect.Effect<void>
+
+        /**
+         * Time a forwarding attempt and record its outcome
+         */
+        readonly track: (
+            pool: RolloutPool,
+            attempt: Effect.Effect<Response, RequestForwardError>,
+        ) => Effect.Effect<Response, RequestForwardError>
+
+        /**
+         * Get the current state and statistics of the rollout
+         */
+        readonly getStatus: Effect.Effect<RolloutStatus>
+
+        /**
+         * Start over from the first step (e.g., after fixing a rolled back canary)
+         */
+        readonly restart: Effect.Effect<void>
+    }
+>() { }
+
+interface PoolCounts {
+    readonly requests: number
+    readonly failures: number
+    readonly successes: number
+    readonly latencyMs: number
+}
+
+interface ControllerState {
+    /**
+     * None until the first request starts the schedule
+     */
+    readonly rollout: Option.Option<RolloutState>
+    readonly canary: PoolCounts
+    readonly stable: PoolCounts
+}
+
+const emptyCounts: PoolCounts = { requests: 0, failures: 0, successes: 0, latencyMs: 0 }
+
+const initialState: ControllerState = { rollout: Option.none(), canary: emptyCounts, stable: emptyCounts }
+
+const errorRate = (counts: PoolCounts) => (counts.requests === 0 ? 0 : counts.failures / counts.requests)
+
+const meanLatency = (counts: PoolCounts): Option.Option<number> =>
+    counts.successes === 0 ? Option.none() : Option.some(counts.latencyMs / counts.successes)
+
+const toStats = (counts: PoolCounts): RolloutPoolStats => ({
+    requests: counts.requests,
+    failures: counts.failures,
+    meanLatencyMs: meanLatency(counts),
+})
+
+const percentage = (rate: number) => `${(rate * 100).toFixed(1)}%`
+
+/**
+ * Check that rollout steps are increasing percentages in (0, 100]
+ * (returns the problem, or undefined when they are valid)
+ */
+export const validateRolloutSteps = (steps: ReadonlyArray<number>): string | undefined => {
+    if (steps.length === 0) return "Rollout needs at least one step"
+    const valid = steps.every((percent, i) => percent > 0 && percent <= 100 && (i === 0 || percent > steps[i - 1]!))
+    return valid
+        ? undefined
+        : `Rollout steps must be increasing percentages between 0 and 100 (got ${steps.join(", ")})`
+}
+
+/**
+ * Create a rollout controller layer.
+ *
+ * The schedule starts with the first request: the canary gets the first step's
+ * share, and once a step has been held for `stepDuration` with at least
+ * `minimumRequests` canary requests, it moves to the next step. Reaching the
+ * last step completes the rollout. Outcomes are compared to the stable side's
+ * during each step: when the canary's error rate exceeds stable's by more than
+ * `maxErrorRateIncrease`, or its mean latency reaches `maxLatencyRatio` times
+ * stable's, it is rolled back to 0% until `restart` is called.
+ *
+ * Steps advance as requests come in (no background fiber), and time comes from
+ * the Effect `Clock`, so a rollout can be driven with `TestClock` in tests.
+ *
+ * The layer dies when the steps are not increasing percentages.
+ *
+ * @example
+ * ```ts
+ * const lb = LoadBalancer.live({
+ *   trafficSplit: { pools: { stable, canary }, rollout: { stable: "stable", canary: "canary" } },
+ * }).pipe(Layer.provide(makeRolloutController({ stepDuration: "30 minutes" })))
+ * ```
+ */
+export const makeRolloutController = (options?: RolloutOptions): Layer.Layer<RolloutController> => {
+    const steps = options?.steps ?? DEFAULT_ROLLOUT_STEPS
+    const stepMs = Duration.toMillis(options?.stepDuration ?? DEFAULT_ROLLOUT_STEP_DURATION)
+    const minimumRequests = options?.minimumRequests ?? DEFAULT_ROLLOUT_MINIMUM_REQUESTS
+    const maxErrorRateIncrease = options?.maxErrorRateIncrease ?? DEFAULT_ROLLOUT_MAX_ERROR_RATE_INCREASE
+    const maxLatencyRatio = options?.maxLatencyRatio ?? DEFAULT_ROLLOUT_MAX_LATENCY_RATIO
+    const invalid = validateRolloutSteps(steps)
+    const state = Ref.unsafeMake(initialState)
+
+    const stepState = (step: number, now: number): RolloutState =>
+        step >= steps.length - 1
+            ? RolloutState.Complete({ percent: steps[steps.length - 1]!, since: new Date(now) })
+            : RolloutState.Progressing({ step, percent: steps[step]!, since: new Date(now) })
+
+    /**
+     * Why the canary should be rolled back, if it should
+     */
+    const breach = (current: ControllerState): string | undefined => {
+        const { canary, stable } = current
+        if (canary.requests < minimumRequests) return undefined
+
+        const canaryRate = errorRate(canary)
+        const stableRate = errorRate(stable)
+        if (canaryRate - stableRate > maxErrorRateIncrease) {
+            return `Canary error rate ${percentage(canaryRate)} exceeds stable ${percentage(stableRate)}`
+        }
+
+        const canaryLatency = meanLatency(canary)
+        const stableLatency = meanLatency(stable)
+        if (
+            Option.isSome(canaryLatency) &&
+            Option.isSome(stableLatency) &&
+            canaryLatency.value >= stableLatency.value * maxLatencyRatio
+        ) {
+            return `Canary mean latency ${Math.round(canaryLatency.value)}ms is ${
+                (canaryLatency.value / stableLatency.value).toFixed(2)
+            }x stable ${Math.round(stableLatency.value)}ms`
+        }
+        return undefined
+    }
+
+    /**
+     * Start the schedule, roll back on a breach, or promote a step that is over
+     */
+    const advance = (current: ControllerState, now: number): readonly [RolloutState, ControllerState] => {
+        if (Option.isNone(current.rollout)) {
+            const started = stepState(0, now)
+            return [started, { ...current, rollout: Option.some(started) }]
+        }
+        const rollout = current.rollout.value
+        if (rollout._tag !== "Progressing") return [rollout, current]
+
+        const reason = breach(current)
+        if (reason !== undefined) {
+            const rolledBack = RolloutState.RolledBack({ since: new Date(now), reason })
+            return [rolledBack, { ...current, rollout: Option.some(rolledBack) }]
+        }
+
+        if (now - rollout.since.getTime() >= stepMs && current.canary.requests >= minimumRequests) {
+            // Each step is judged on its own traffic
+            const promoted = stepState(rollout.step + 1, now)
+            return [promoted, { rollout: Option.some(promoted), canary: emptyCounts, stable: emptyCounts }]
+        }
+        return [rollout, current]
+    }
+
+    /**
+     * Apply `update` and `advance`, then report the state change (if any)
+     */
+    const transition = (update: (current: ControllerState) => ControllerState) =>
+        Effect.gen(function* () {
+            const now = yield* Clock.currentTimeMillis
+            const [from, to] = yield* Ref.modify(state, (current) => {
+                const [rollout, next] = advance(update(current), now)
+                return [[current.rollout, rollout] as const, next] as const
+            })
+
+            if (options?.onTransition && Option.isSome(from) && from.value !== to) {
+                yield* options.onTransition({ from: from.value, to, at: new Date(now) })
+            }
+            return to
+        })
+
+    const record = (pool: RolloutPool, outcome: RequestOutcome, latencyMs: number) =>
+        transition((current) => {
+            // Outcomes arriving after the rollout ended do not change anything
+            if (Option.isSome(current.rollout) && current.rollout.value._tag !== "Progressing") return current
+
+            const counts = current[pool]
+            const success = outcome === "success"
+            return {
+                ...current,
+                [pool]: {
+                    requests: counts.requests + 1,
+                    failures: counts.failures + (success ? 0 : 1),
+                    successes: counts.successes + (success ? 1 : 0),
+                    latencyMs: counts.latencyMs + (success ? latencyMs : 0),
+                },
+            }
+        }).pipe(Effect.asVoid)
+
+    const controller: RolloutController["Type"] = {
+        getPercent: transition((current) => current).pipe(Effect.map(rolloutPercent)),
+
+        record,
+
+        track: (pool, attempt) =>
+            Effect.gen(function* () {
+                const start = yield* Clock.currentTimeMillis
+                const result = yield* Effect.either(attempt)
+                const latencyMs = (yield* Clock.currentTimeMillis) - start
+
+                yield* record(
+                    pool,
+                    classifyOutcome(result._tag === "Right" ? result.right : result.left),
+                    latencyMs,
+                )
+                return yield* result
+            }),
+
+        getStatus: Effect.gen(function* () {
+            const rollout = yield* transition((current) => current)
+            const { canary, stable } = yield* Ref.get(state)
+
+            return {
+                state: rollout,
+                percent: rolloutPercent(rollout),
+                canary: toStats(canary),
+                stable: toStats(stable),
+            }
+        }),
+
+        restart: Ref.set(state, initialState),
+    }
+
+    return invalid === undefined
+        ? Layer.succeed(RolloutController, controller)
+        : Layer.effect(RolloutController, Effect.dieMessage(invalid))
+}
@@ -0,0 +1,25 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Round-robin steering - rotate the starting endpoint on every request
+ */
+import type { Endpoint } from "./Endpoint.js"
+
+/**
+ * Rotate endpoints so the list starts at `offset` (modulo the number of endpoints).
+ *
+ * Every endpoint is returned, so the ones after the first remain available for
+ * failover in the same cyclic order.
+ *
+ * @param endpoints - Candidate endpoints
+ * @param offset - Request counter (any non-negative integer)
+ */
+export const rotateEndpoints = (
+    endpoints: ReadonlyArray<Endpoint>,
+    offset: number,
+): ReadonlyArray<Endpoint> => {
+    if (endpoints.length === 0) return []
+
+    const start = ((offset % endpoints.length) + endpoints.length) % endpoints.length
+    return [...endpoints.slice(start), ...endpoints.slice(0, start)]
+}
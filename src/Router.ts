@@ -0,0 +1,199 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Router - pick a named backend pool from the request path, host, method and headers
+ */
+import { Schema } from "effect"
+import { RegExpSource, validateRegExp } from "./Patterns.js"
+
+/**
+ * Conditions a request must meet for a route to match (all of the given ones)
+ */
+export const RouteMatch = Schema.Struct({
+    /**
+     * Path prefix, matched on whole segments (`/api` matches `/api` and `/api/users`, not `/apiary`)
+     */
+    pathPrefix: Schema.optionalWith(
+        Schema.String.pipe(
+            Schema.pattern(/^\/.*/, {
+                message: () => "Path prefix must start with /",
+            }),
+        ),
+        { exact: true },
+    ),
+    /**
+     * Path glob: `*` matches within a segment, `**` across segments (e.g. `/v*\/users/**`)
+     */
+    pathGlob: Schema.optionalWith(Schema.String, { exact: true }),
+    /**
+     * Regular expression the path must match
+     */
+    pathRegex: Schema.optionalWith(RegExpSource, { exact: true }),
+    /**
+     * Host name, case-insensitive; `*.example.com` matches any subdomain
+     */
+    host: Schema.optionalWith(Schema.String, { exact: true }),
+    /**
+     * Request methods, case-insensitive
+     */
+    methods: Schema.optionalWith(Schema.Array(Schema.String), { exact: true }),
+    /**
+     * Headers that must have exactly these values
+     */
+    headers: Schema.optionalWith(Schema.Record({ key: Schema.String, value: Schema.String }), { exact: true }),
+    /**
+     * Query parameters that must have exactly these values
+     */
+    query: Schema.optionalWith(Schema.Record({ key: Schema.String, value: Schema.String }), { exact: true }),
+    /**
+     * Media type the `Accept` header must list (`type/*` accepts any subtype);
+     * wildcards sent by the client, such as `*\/*`, do not match
+     */
+    accept: Schema.optionalWith(Schema.String, { exact: true }),
+})
+export type RouteMatch = typeof RouteMatch.Type
+
+/**
+ * A route: requests that match go to the named pool
+ */
+export const Route = Schema.Struct({
+    /**
+     * Route name (reported in the `X-Load-Balancer-Route` response header)
+     */
+    name: Schema.String,
+    /**
+     * Conditions to match (an empty match accepts every request)
+     */
+    match: Schema.optionalWith(RouteMatch, { exact: true }),
+    /**
+     * Name of the pool that handles matching requests
+     */
+    pool: Schema.String,
+})
+export type Route = typeof Route.Type
+
+/**
+ * Convert a path glob to an anchored regular expression
+ */
+const globToRegExp = (glob: string): RegExp => {
+    const source = glob
+        .split("**")
+        .map((part) =>
+            part
+                .split("*")
+                .map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+                .join("[^/]*"),
+        )
+        .join(".*")
+    return new RegExp(`^${source}$`)
+}
+
+/**
+ * Check whether a host name matches a pattern (`*.example.com` for subdomains)
+ */
+const matchesHost = (pattern: string, hostname: string): boolean => {
+    const expected = pattern.toLowerCase()
+    const actual = hostname.toLowerCase()
+    return expected.startsWith("*.")
+        ? actual.endsWith(expected.slice(1)) && actual.length > expected.length - 1
+        : actual === expected
+}
+
+/**
+ * Check whether an `Accept` header lists a media type matching `mediaType`
+ * (ranges with `q=0` are refused by the client and never match)
+ */
+const acceptsMediaType = (accept: string | null, mediaType: string): boolean => {
+    if (accept === null) return false
+    const [type, subtype] = mediaType.toLowerCase().split("/")
+
+    return accept.split(",").some((range) => {
+        const [value = "", ...params] = range.split(";").map((part) => part.trim().toLowerCase())
+        const refused = params.some((param) => /^q=0(\.0*)?$/.test(param))
+        const [rangeType, rangeSubtype] = value.split("/")
+        return !refused && rangeType === type && (subtype === "*" || rangeSubtype === subtype)
+    })
+}
+
+/**
+ * Check that the path patterns of routes compile
+ * (returns the problem, or undefined when the routes are valid)
+ */
+export const validateRoutes = (routes: ReadonlyArray<Route>): string | undefined => {
+    for (const route of routes) {
+        const pathRegex = route.match?.pathRegex
+        const invalid = pathRegex === undefined ? undefined : validateRegExp(pathRegex)
+        if (invalid !== undefined) return `Route "${route.name}": ${invalid}`
+    }
+    return undefined
+}
+
+/**
+ * Compile a route match into a check of requests, building its regular expressions once
+ * (throws when `pathRegex` does not compile: see `validateRoutes`)
+ */
+export const compileRouteMatch = (match: RouteMatch | undefined): ((request: Request) => boolean) => {
+    if (match === undefined) return () => true
+    const pathGlob = match.pathGlob === undefined ? undefined : globToRegExp(match.pathGlob)
+    const pathRegex = match.pathRegex === undefined ? undefined : new RegExp(match.pathRegex)
+
+    return (request) => {
+        const url = new URL(request.url)
+        const pathname = url.pathname
+
+        if (match.pathPrefix !== undefined) {
+            const prefix = match.pathPrefix.replace(/\/+$/, "")
+            if (prefix !== "" && pathname !== prefix && !pathname.startsWith(`${prefix}/`)) return false
+        }
+        if (pathGlob !== undefined && !pathGlob.test(pathname)) return false
+        if (pathRegex !== undefined && !pathRegex.test(pathname)) return false
+        if (match.host !== undefined && !matchesHost(match.host, url.hostname)) return false
+        if (
+            match.methods !== undefined &&
+            !match.methods.some((method) => method.toUpperCase() === request.method.toUpperCase())
+        ) {
+            return false
+        }
+        if (
+            match.headers !== undefined &&
+            !Object.entries(match.headers).every(([name, value]) => request.headers.get(name) === value)
+        ) {
+            return false
+        }
+        if (
+            match.query !== undefined &&
+            !Object.entries(match.query).every(([name, value]) => url.searchParams.get(name) === value)
+        ) {
+            return false
+        }
+        if (match.accept !== undefined && !acceptsMediaType(request.headers.get("Accept"), match.accept)) {
+            return false
+        }
+        return true
+    }
+}
+
+/**
+ * Check whether a request meets every condition of a route match
+ */
+export const matchesRoute = (match: RouteMatch | undefined, request: Request): boolean =>
+    compileRouteMatch(match)(request)
+
+/**
+ * Compile routes into a lookup of the first route a request matches
+ *
+ * @param routes - Routes in priority order
+ */
+export const makeRouteFinder = (routes: ReadonlyArray<Route>): ((request: Request) => Route | undefined) => {
+    const compiled = routes.map((route) => ({ route, matches: compileRouteMatch(route.match) }))
+    return (request) => compiled.find(({ matches }) => matches(request))?.route
+}
+
+/**
+ * Find the first route a request matches
+ *
+ * @param routes - Routes in priority order
+ * @param request - The incoming request
+ */
+export const findRoute = (routes: ReadonlyArray<Route>, request: Request): Route | undefined =>
+    makeRouteFinder(routes)(request)
@@ -0,0 +1,190 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Session affinity - keep a client on the endpoint that served it, using a signed cookie
+ */
+import { Clock, Duration, Effect, Option, Schema } from "effect"
+import { getCookie, serializeCookie } from "./Cookies.js"
+import type { Endpoint } from "./Endpoint.js"
+import { DurationInput } from "./Forward.js"
+import { HEADERS } from "./Headers.js"
+
+/**
+ * Default affinity cookie name
+ */
+export const DEFAULT_AFFINITY_COOKIE_NAME = "__lb_affinity"
+
+/**
+ * Default affinity cookie lifetime
+ */
+export const DEFAULT_AFFINITY_TTL: Duration.DurationInput = "1 hour"
+
+/**
+ * Session affinity options
+ */
+export const AffinityOptions = Schema.Struct({
+    /**
+     * Secret used to sign the cookie (HMAC-SHA256)
+     */
+    secret: Schema.String.pipe(Schema.minLength(1)),
+    /**
+     * Cookie name
+     * @default "__lb_affinity"
+     */
+    cookieName: Schema.optionalWith(Schema.String, { exact: true }),
+    /**
+     * How long a client stays pinned to an endpoint
+     * @default "1 hour"
+     */
+    ttl: Schema.optionalWith(DurationInput, { exact: true }),
+    /**
+     * Cookie attributes
+     * @default { path: "/", secure: true, httpOnly: true, sameSite: "Lax" }
+     */
+    attributes: Schema.optionalWith(
+        Schema.Struct({
+            path: Schema.optionalWith(Schema.String, { exact: true }),
+            domain: Schema.optionalWith(Schema.String, { exact: true }),
+            secure: Schema.optionalWith(Schema.Boolean, { exact: true }),
+            httpOnly: Schema.optionalWith(Schema.Boolean, { exact: true }),
+            sameSite: Schema.optionalWith(Schema.Literal("Strict", "Lax", "None"), { exact: true }),
+        }),
+        { exact: true },
+    ),
+})
+export type AffinityOptions = typeof AffinityOptions.Type
+
+const encoder = new TextEncoder()
+
+const toBase64Url = (bytes: Uint8Array): string =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+
+const fromBase64Url = (text: string): Uint8Array<ArrayBuffer> => {
+    const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"))
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+/**
+ * Keeps clients on the endpoint that first served them.
+ *
+ * The cookie holds the endpoint URL and an expiry time, signed with HMAC-SHA256.
+ * Cookies that are malformed, tampered with, expired or that name an endpoint
+ * that is no longer configured are ignored.
+ */
+export interface SessionAffinity {
+    /**
+     * Get the endpoint URL pinned by the request's affinity cookie, if it is valid
+     */
+    readonly getPinnedUrl: (request: Request) => Effect.Effect<Option.Option<string>>
+
+    /**
+     * Move the pinned endpoint to the front of the candidates (unchanged when it is not a candidate)
+     */
+    readonly preferPinned: (
+        endpoints: ReadonlyArray<Endpoint>,
+        pinnedUrl: Option.Option<string>,
+    ) => ReadonlyArray<Endpoint>
+
+    /**
+     * Set the affinity cookie on a response when the endpoint that served it
+     * (from the `X-Load-Balancer-Endpoint` header) is not the pinned one
+     */
+    readonly pin: (response: Response, pinnedUrl: Option.Option<string>) => Effect.Effect<Response>
+}
+
+/**
+ * Create session affinity from its options
+ */
+export const makeSessionAffinity = (options: AffinityOptions): SessionAffinity => {
+    const cookieName = options.cookieName ?? DEFAULT_AFFINITY_COOKIE_NAME
+    const ttl = Duration.decode(options.ttl ?? DEFAULT_AFFINITY_TTL)
+    const attributes = {
+        path: "/",
+        secure: true,
+        httpOnly: true,
+        sameSite: "Lax" as const,
+        ...options.attributes,
+        maxAgeSeconds: Duration.toSeconds(ttl),
+    }
+
+    // Imported lazily, once per instance
+    let key: Promise<CryptoKey> | undefined
+    const getKey = () =>
+        (key ??= crypto.subtle.importKey(
+            "raw",
+            encoder.encode(options.secret),
+            { name: "HMAC", hash: "SHA-256" },
+            false,
+            ["sign", "verify"],
+        ))
+
+    const sign = (url: string, expiresAt: number) =>
+        Effect.tryPromise(async () => {
+            const payload = `${toBase64Url(encoder.encode(url))}.${expiresAt}`
+            const signature = await crypto.subtle.sign("HMAC", await getKey(), encoder.encode(payload))
+            return `${payload}.${toBase64Url(new Uint8Array(signature))}`
+        })
+
+    const verify = (value: string) =>
+        Effect.tryPromise(async () => {
+            const [encodedUrl, expiresAt, signature, ...rest] = value.split(".")
+            if (!encodedUrl || !expiresAt || !signature || rest.length > 0) return undefined
+
+            const valid = await crypto.subtle.verify(
+                "HMAC",
+                await getKey(),
+                fromBase64Url(signature),
+                encoder.encode(`${encodedUrl}.${expiresAt}`),
+            )
+            if (!valid) return undefined
+
+            return { url: new TextDecoder().decode(fromBase64Url(encodedUrl)), expiresAt: Number(expiresAt) }
+        })
+
+    return {
+        getPinnedUrl: (request) =>
+            Effect.gen(function* () {
+                const value = getCookie(request, cookieName)
+                if (value === undefined) return Option.none()
+
+                const cookie = yield* verify(value).pipe(Effect.orElseSucceed(() => undefined))
+                const now = yield* Clock.currentTimeMillis
+
+                return cookie !== undefined && cookie.expiresAt > now
+                    ? Option.some(cookie.url)
+                    : Option.none()
+            }),
+
+        preferPinned: (endpoints, pinnedUrl) =>
+            Option.match(pinnedUrl, {
+                onNone: () => endpoints,
+                onSome: (url) => {
+                    const pinned = endpoints.find((endpoint) => endpoint.url === url)
+                    return pinned === undefined
+                        ? endpoints
+                        : [pinned, ...endpoints.filter((endpoint) => endpoint !== pinned)]
+                },
+            }),
+
+        pin: (response, pinnedUrl) =>
+            Effect.gen(function* () {
+                const servedUrl = response.headers.get(HEADERS.ENDPOINT)
+                if (servedUrl === null || Option.contains(pinnedUrl, servedUrl)) {
+                    return response
+                }
+
+                const now = yield* Clock.currentTimeMillis
+                const value = yield* sign(servedUrl, now + Duration.toMillis(ttl)).pipe(Effect.option)
+                if (Option.isNone(value)) return response
+
+                const headers = new Headers(response.headers)
+                headers.append("Set-Cookie", serializeCookie(cookieName, value.value, attributes))
+
+                return new Response(response.body, {
+                    status: response.status,
+                    statusText: response.statusText,
+                    headers,
+                })
+            }),
+    }
+}
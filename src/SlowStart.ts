@@ -0,0 +1,91 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Slow start - ramp up traffic to endpoints that just recovered
+ */
+import { Duration, Schema } from "effect"
+import type { Endpoint } from "./Endpoint.js"
+import { DurationInput } from "./Forward.js"
+
+/**
+ * Default share of an endpoint's weight at the start of the slow-start window
+ */
+export const DEFAULT_SLOW_START_MIN_WEIGHT = 0.1
+
+/**
+ * Slow-start options for an endpoint
+ */
+export const SlowStartOptions = Schema.Struct({
+    /**
+     * How long the effective weight takes to ramp up to `weight`
+     */
+    window: DurationInput,
+    /**
+     * Ramp shape: `linear`, or `exponential` (slow at first, then faster)
+     * @default "linear"
+     */
+    curve: Schema.optionalWith(Schema.Literal("linear", "exponential"), { exact: true }),
+    /**
+     * Share of `weight` the endpoint starts with, between 0 (exclusive) and 1
+     * @default 0.1
+     */
+    minWeight: Schema.optionalWith(
+        Schema.Number.pipe(Schema.greaterThan(0), Schema.lessThanOrEqualTo(1)),
+        { exact: true },
+    ),
+})
+export type SlowStartOptions = typeof SlowStartOptions.Type
+
+/**
+ * Share of an endpoint's weight it gets `elapsedMs` after it recovered,
+ * between `minWeight` and 1 (1 once the window is over, or without slow start)
+ *
+ * @param endpoint - The endpoint
+ * @param elapsedMs - Time since the endpoint recovered
+ */
+export const slowStartFactor = (endpoint: Endpoint, elapsedMs: number): number => {
+    const slowStart = endpoint.slowStart
+    if (slowStart === undefined) return 1
+
+    const windowMs = Duration.toMillis(slowStart.window)
+    if (elapsedMs >= windowMs || windowMs <= 0) return 1
+
+    const progress = Math.max(0, elapsedMs) / windowMs
+    const minWeight = slowStart.minWeight ?? DEFAULT_SLOW_START_MIN_WEIGHT
+
+    return slowStart.curve === "exponential"
+        ? Math.pow(minWeight, 1 - progress)
+        : minWeight + (1 - minWeight) * progress
+}
+
+/**
+ * Demote endpoints that are still in their slow-start window, for steering
+ * modes that do not use weights.
+ *
+ * Each endpoint keeps its position with probability equal to its slow-start
+ * factor; demoted endpoints move behind the others, in their original order,
+ * so they remain available for failover.
+ *
+ * @param endpoints - Ordered candidate endpoints
+ * @param factors - Slow-start factor of each endpoint (see `slowStartFactor`)
+ * @param random - Random number source in [0, 1) (injectable for tests)
+ */
+export const selectSlowStartEndpoints = (
+    endpoints: ReadonlyArray<Endpoint>,
+    factors: ReadonlyArray<number>,
+    random: () => number = Math.random,
+): ReadonlyArray<Endpoint> => {
+    const kept: Endpoint[] = []
+    const demoted: Endpoint[] = []
+
+    endpoints.forEach((endpoint, i) => {
+        const factor = factors[i] ?? 1
+        if (factor >= 1 || random() < factor) {
+            kept.push(endpoint)
+        } else {
+            demoted.push(endpoint)
+        }
+    })
+
+    return [...kept, ...demoted]
+}
@@ -0,0 +1,300 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * StateStore service - pluggable persistence for load balancer state
+ */
+import { Clock, Context, Duration, Effect, Layer } from "effect"
+import { StateStoreError } from "./Errors.js"
+
+/**
+ * StateStore service interface.
+ *
+ * Values must be JSON-serializable so every implementation behaves the same.
+ * A value stored with a TTL is no longer returned once the TTL has elapsed.
+ */
+export class StateStore extends Context.Tag("@blank-utils/StateStore")<
+    StateStore,
+    {
+        /**
+         * Get a value, or null if the key is missing or expired
+         */
+        readonly get: <A>(key: string) => Effect.Effect<A | null, StateStoreError>
+
+        /**
+         * Store a value, optionally expiring after `ttl`
+         */
+        readonly set: <A>(
+            key: string,
+            value: A,
+            ttl?: Duration.DurationInput,
+        ) => Effect.Effect<void, StateStoreError>
+
+        /**
+         * Remove a value
+         */
+        readonly delete: (key: string) => Effect.Effect<void, StateStoreError>
+    }
+>() { }
+
+/**
+ * Stored value with its expiry time (epoch millis, null = never expires)
+ */
+interface Envelope {
+    readonly value: unknown
+    readonly expiresAt: number | null
+}
+
+const makeEnvelope = (value: unknown, ttl: Duration.DurationInput | undefined) =>
+    Effect.map(
+        Clock.currentTimeMillis,
+        (now): Envelope => ({
+            value,
+            expiresAt: ttl === undefined ? null : now + Duration.toMillis(ttl),
+        }),
+    )
+
+const openEnvelope = <A>(envelope: Envelope | null) =>
+    Effect.map(Clock.currentTimeMillis, (now) =>
+        envelope === null || (envelope.expiresAt !== null && envelope.expiresAt <= now)
+            ? null
+            : (envelope.value as A),
+    )
+
+// =============================================================================
+// Memory
+// =============================================================================
+
+/**
+ * Create an in-memory StateStore layer.
+ *
+ * State lives in the returned layer, so it is shared by every request handled
+ * by the isolate that created it, but not across isolates.
+ */
+export const makeStateStoreMemory = (): Layer.Layer<StateStore> => {
+    const entries = new Map<string, Envelope>()
+
+    return Layer.succeed(StateStore, {
+        get: <A>(key: string) =>
+            openEnvelope<A>(entries.get(key) ?? null).pipe(
+                Effect.tap((value) => {
+                    // Drop expired entries lazily
+                    if (value === null) entries.delete(key)
+                }),
+            ),
+        set: (key, value, ttl) =>
+            makeEnvelope(value, ttl).pipe(
+                Effect.map((envelope) => {
+                    entries.set(key, envelope)
+                }),
+            ),
+        delete: (key) =>
+            Effect.sync(() => {
+                entries.delete(key)
+            }),
+    })
+}
+
+/**
+ * In-memory StateStore shared by the whole isolate (default, no persistence across isolates)
+ */
+export const StateStoreMemory: Layer.Layer<StateStore> = makeStateStoreMemory()
+
+// =============================================================================
+// Workers KV
+// =============================================================================
+
+/**
+ * The subset of a Workers `KVNamespace` binding used by `StateStoreKV`
+ */
+export interface KVNamespaceBinding {
+    get(key: string, type: "text"): Promise<string | null>
+    put(
+        key: string,
+        value: string,
+        options?: { readonly expirationTtl?: number },
+    ): Promise<void>
+    delete(key: string): Promise<void>
+}
+
+/**
+ * Workers KV does not accept an expirationTtl below 60 seconds
+ */
+const KV_MIN_EXPIRATION_TTL_SECONDS = 60
+
+/**
+ * Create a StateStore layer backed by Workers KV.
+ *
+ * KV is eventually consistent: writes may take a while to be visible from
+ * other locations. TTLs are enforced exactly on read, and passed to KV
+ * (rounded up to KV's 60 second minimum) so expired keys are cleaned up.
+ */
+export const StateStoreKV = (kv: KVNamespaceBinding): Layer.Layer<StateStore> =>
+    Layer.succeed(StateStore, {
+        get: <A>(key: string) =>
+            Effect.tryPromise({
+                try: async () => {
+                    const raw = await kv.get(key, "text")
+                    return raw === null ? null : (JSON.parse(raw) as Envelope)
+                },
+                catch: (cause) => new StateStoreError({ operation: "get", key, cause }),
+            }).pipe(Effect.flatMap((envelope) => openEnvelope<A>(envelope))),
+        set: (key, value, ttl) =>
+            makeEnvelope(value, ttl).pipe(
+                Effect.flatMap((envelope) =>
+                    Effect.tryPromise({
+                        try: () =>
+                            kv.put(
+                                key,
+                                JSON.stringify(envelope),
+                                ttl === undefined
+                                    ? undefined
+                                    : {
+                                        expirationTtl: Math.max(
+                                            KV_MIN_EXPIRATION_TTL_SECONDS,
+                                            Math.ceil(Duration.toSeconds(ttl)),
+                                        ),
+                                    },
+                            ),
+                        catch: (cause) => new StateStoreError({ operation: "set", key, cause }),
+                    }),
+                ),
+            ),
+        delete: (key) =>
+            Effect.tryPromise({
+                try: () => kv.delete(key),
+                catch: (cause) => new StateStoreError({ operation: "delete", key, cause }),
+            }),
+    })
+
+// =============================================================================
+// Durable Objects
+// =============================================================================
+
+/**
+ * The subset of a Durable Object stub used by `StateStoreDO`
+ */
+export interface DurableObjectStubBinding {
+    fetch(input: string, init?: RequestInit): Promise<Response>
+}
+
+/**
+ * The subset of `DurableObjectStorage` used by `handleStateStoreRequest`
+ */
+export interface DurableObjectStorageBinding {
+    get<T = unknown>(key: string): Promise<T | undefined>
+    put<T>(key: string, value: T): Promise<void>
+    delete(key: string): Promise<boolean>
+}
+
+const STATE_PATH = "/state/"
+
+const stateUrl = (key: string) => `http://internal${STATE_PATH}${encodeURIComponent(key)}`
+
+/**
+ * Create a StateStore layer backed by a Durable Object (strong consistency).
+ *
+ * The Durable Object must answer the state protocol; the simplest way is to
+ * delegate to `handleStateStoreRequest`:
+ *
+ * @example
+ * ```ts
+ * export class LoadBalancerState {
+ *   constructor(private readonly state: DurableObjectState) {}
+ *   fetch(request: Request) {
+ *     return handleStateStoreRequest(this.state.storage, request)
+ *   }
+ * }
+ *
+ * const store = StateStoreDO(env.LOAD_BALANCER_DO.get(env.LOAD_BALANCER_DO.idFromName("lb")))
+ * ```
+ */
+export const StateStoreDO = (stub: DurableObjectStubBinding): Layer.Layer<StateStore> =>
+    Layer.succeed(StateStore, {
+        get: <A>(key: string) =>
+            Effect.tryPromise({
+                try: async () => {
+                    const response = await stub.fetch(stateUrl(key))
+                    if (response.status === 404) return null
+                    if (!response.ok) throw new Error(`Durable Object returned status ${response.status}`)
+                    return (await response.json()) as Envelope
+                },
+                catch: (cause) => new StateStoreError({ operation: "get", key, cause }),
+            }).pipe(
+                Effect.flatMap((envelope) =>
+                    openEnvelope<A>(envelope).pipe(
+                        Effect.tap((value) =>
+                            // Durable Object storage has no TTL: clean up expired entries on read
+                            value === null && envelope !== null
+                                ? Effect.promise(() =>
+                                    stub.fetch(stateUrl(key), { method: "DELETE" }).catch(() => undefined),
+                                )
+                                : Effect.void,
+                        ),
+                    ),
+                ),
+            ),
+        set: (key, value, ttl) =>
+            makeEnvelope(value, ttl).pipe(
+                Effect.flatMap((envelope) =>
+                    Effect.tryPromise({
+                        try: async () => {
+                            const response = await stub.fetch(stateUrl(key), {
+                                method: "PUT",
+                                body: JSON.stringify(envelope),
+                            })
+                            if (!response.ok) throw new Error(`Durable Object returned status ${response.status}`)
+                        },
+                        catch: (cause) => new StateStoreError({ operation: "set", key, cause }),
+                    }),
+                ),
+            ),
+        delete: (key) =>
+            Effect.tryPromise({
+                try: async () => {
+                    const response = await stub.fetch(stateUrl(key), { method: "DELETE" })
+                    if (!response.ok) throw new Error(`Durable Object returned status ${response.status}`)
+                },
+                catch: (cause) => new StateStoreError({ operation: "delete", key, cause }),
+            }),
+    })
+
+/**
+ * Serve the `StateStoreDO` protocol from inside a Durable Object.
+ * Entries are stored as sent; TTLs are enforced by `StateStoreDO`.
+ *
+ * - `GET /state/:key` returns the stored entry, or 404
+ * - `PUT /state/:key` stores the request body
+ * - `DELETE /state/:key` removes the entry
+ */
+export const handleStateStoreRequest = async (
+    storage: DurableObjectStorageBinding,
+    request: Request,
+): Promise<Response> => {
+    const { pathname } = new URL(request.url)
+
+    if (!pathname.startsWith(STATE_PATH)) {
+        return new Response("Not Found", { status: 404 })
+    }
+
+    const key = decodeURIComponent(pathname.slice(STATE_PATH.length))
+
+    switch (request.method) {
+        case "GET": {
+            const envelope = await storage.get<Envelope>(key)
+            if (envelope === undefined) {
+                return new Response("Not Found", { status: 404 })
+            }
+            return Response.json(envelope)
+        }
+        case "PUT": {
+            await storage.put(key, (await request.json()) as Envelope)
+            return new Response(null, { status: 204 })
+        }
+        case "DELETE": {
+            await storage.delete(key)
+            return new Response(null, { status: 204 })
+        }
+        default:
+            return new Response("Method Not Allowed", { status: 405 })
+    }
+}
@@ -0,0 +1,120 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Steering counters - request counts used by round-robin and least-outstanding steering
+ */
+import { type Context, type Duration, Effect, HashMap, Option, Ref } from "effect"
+import type { Endpoint } from "./Endpoint.js"
+import type { StateStore } from "./StateStore.js"
+
+/**
+ * How long a shared in-flight count is kept without updates, so counts left
+ * behind by an isolate that went away do not stick forever
+ */
+const SHARED_IN_FLIGHT_TTL: Duration.DurationInput = "1 minute"
+
+/**
+ * Counters backing the round-robin and least-outstanding steering modes
+ */
+export interface SteeringCounters {
+    /**
+     * Get the round-robin position for a set of endpoints, then advance it
+     */
+    readonly nextOffset: (key: string) => Effect.Effect<number>
+
+    /**
+     * Get the number of in-flight requests of each endpoint, in the same order
+     */
+    readonly getOutstanding: (endpoints: ReadonlyArray<Endpoint>) => Effect.Effect<ReadonlyArray<number>>
+
+    /**
+     * Count a request to an endpoint as in flight until it completes (or fails)
+     */
+    readonly trackOutstanding: <A, E>(
+        endpoint: Endpoint,
+        attempt: Effect.Effect<A, E>,
+    ) => Effect.Effect<A, E>
+}
+
+const getCount = (map: HashMap.HashMap<string, number>, key: string) =>
+    HashMap.get(map, key).pipe(Option.getOrElse(() => 0))
+
+/**
+ * Create counters kept in memory.
+ *
+ * The counters live in the returned object, so they are shared by every
+ * request handled by the isolate that created them, but not across isolates.
+ */
+export const makeSteeringCounters = (): SteeringCounters => {
+    const offsets = Ref.unsafeMake(HashMap.empty<string, number>())
+    const inFlight = Ref.unsafeMake(HashMap.empty<string, number>())
+
+    const adjust = (endpoint: Endpoint, delta: number) =>
+        Ref.update(inFlight, (map) =>
+            HashMap.set(
+                map,
+                endpoint.normalizedUrl,
+                Math.max(0, getCount(map, endpoint.normalizedUrl) + delta),
+            ),
+        )
+
+    return {
+        nextOffset: (key) =>
+            Ref.modify(offsets, (map) => {
+                const offset = getCount(map, key)
+                return [offset, HashMap.set(map, key, offset + 1)]
+            }),
+        getOutstanding: (endpoints) =>
+            Ref.get(inFlight).pipe(
+                Effect.map((map) => endpoints.map((endpoint) => getCount(map, endpoint.normalizedUrl))),
+            ),
+        trackOutstanding: (endpoint, attempt) =>
+            Effect.acquireUseRelease(
+                adjust(endpoint, 1),
+                () => attempt,
+                () => adjust(endpoint, -1),
+            ),
+    }
+}
+
+/**
+ * Create counters kept in a StateStore, so every isolate using the same store
+ * shares them.
+ *
+ * Updates are read-modify-write and not atomic, so counts are approximate under
+ * concurrency. When the store fails, the in-memory `fallback` counters are used.
+ */
+export const makeSharedSteeringCounters = (
+    store: Context.Tag.Service<StateStore>,
+    fallback: SteeringCounters = makeSteeringCounters(),
+): SteeringCounters => {
+    const offsetKey = (key: string) => `steering:offset:${key}`
+    const inFlightKey = (endpoint: Endpoint) => `steering:in-flight:${endpoint.normalizedUrl}`
+
+    const adjust = (endpoint: Endpoint, delta: number) =>
+        store.get<number>(inFlightKey(endpoint)).pipe(
+            Effect.flatMap((count) =>
+                store.set(inFlightKey(endpoint), Math.max(0, (count ?? 0) + delta), SHARED_IN_FLIGHT_TTL),
+            ),
+            Effect.ignore,
+        )
+
+    return {
+        nextOffset: (key) =>
+            store.get<number>(offsetKey(key)).pipe(
+                Effect.tap((offset) => store.set(offsetKey(key), (offset ?? 0) + 1)),
+                Effect.map((offset) => offset ?? 0),
+                Effect.catchAll(() => fallback.nextOffset(key)),
+            ),
+        getOutstanding: (endpoints) =>
+            Effect.forEach(endpoints, (endpoint) =>
+                store.get<number>(inFlightKey(endpoint)).pipe(Effect.map((count) => count ?? 0)),
+            ).pipe(Effect.catchAll(() => fallback.getOutstanding(endpoints))),
+        trackOutstanding: (endpoint, attempt) =>
+            Effect.acquireUseRelease(
+                adjust(endpoint, 1),
+                () => attempt,
+                () => adjust(endpoint, -1),
+            ),
+    }
+}
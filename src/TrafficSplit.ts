@@ -0,0 +1,58 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Traffic split - assign requests to named pools by percentage
+ */
+import { hash32 } from "./HashSteering.js"
+
+/**
+ * Share of requests a pool gets, in percent
+ */
+export interface SplitShare {
+    readonly pool: string
+    readonly percent: number
+}
+
+/**
+ * Buckets per percent: keys are bucketed to 0.01% so small canaries stay precise
+ */
+const BUCKETS_PER_PERCENT = 100
+
+/**
+ * Deterministic bucket of a key, in [0, 100): the same key always gets the same bucket
+ */
+export const splitBucket = (key: string): number =>
+    (hash32(key) % (100 * BUCKETS_PER_PERCENT)) / BUCKETS_PER_PERCENT
+
+/**
+ * Pick the pool whose cumulative percentage range contains `bucket`.
+ *
+ * Pools keep their order, so raising one pool's share only moves buckets at the
+ * boundary of its range: with deterministic bucketing, most users stay where they were.
+ *
+ * @param shares - Pools and their percentages (adding up to 100)
+ * @param bucket - Bucket in [0, 100), from `splitBucket` or at random
+ */
+export const selectSplitPool = (shares: ReadonlyArray<SplitShare>, bucket: number): string | undefined => {
+    let upper = 0
+    for (const share of shares) {
+        upper += share.percent
+        if (bucket < upper && share.percent > 0) return share.pool
+    }
+    // Rounding can leave the top of the range uncovered
+    return shares.findLast((share) => share.percent > 0)?.pool
+}
+
+/**
+ * Check that percentages are not negative and add up to 100
+ * (returns the problem, or undefined when the split is valid)
+ */
+export const validateSplit = (shares: ReadonlyArray<SplitShare>): string | undefined => {
+    const negative = shares.find((share) => !(share.percent >= 0))
+    if (negative) return `Traffic split percentage of pool "${negative.pool}" must not be negative`
+
+    const total = shares.reduce((sum, share) => sum + share.percent, 0)
+    if (Math.abs(total - 100) > 1e-6) return `Traffic split percentages must add up to 100 (got ${total})`
+
+    return undefined
+}
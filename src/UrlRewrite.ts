@@ -0,0 +1,150 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * URL rewriting - per-endpoint path and query rewrite rules
+ */
+import { Schema } from "effect"
+import { RegExpFlags, RegExpSource, validateRegExp } from "./Patterns.js"
+
+/**
+ * Path prefix (must start with /)
+ */
+const PathPrefix = Schema.String.pipe(
+    Schema.pattern(/^\/.*/, {
+        message: () => "Prefix must start with /",
+    }),
+)
+
+/**
+ * Remove a leading path prefix, matched on whole segments
+ * (`/api` matches `/api` and `/api/users`, not `/apiary`)
+ */
+export const StripPrefixRule = Schema.Struct({
+    type: Schema.Literal("strip-prefix"),
+    prefix: PathPrefix,
+})
+
+/**
+ * Put a prefix in front of the path
+ */
+export const AddPrefixRule = Schema.Struct({
+    type: Schema.Literal("add-prefix"),
+    prefix: PathPrefix,
+})
+
+/**
+ * Replace regular expression matches in the path (`$1` etc. refer to groups)
+ */
+export const ReplacePathRule = Schema.Struct({
+    type: Schema.Literal("replace"),
+    pattern: RegExpSource,
+    replacement: Schema.String,
+    /**
+     * Regular expression flags (e.g. "g" to replace every match)
+     */
+    flags: Schema.optionalWith(RegExpFlags, { exact: true }),
+})
+
+/**
+ * Add query parameters, replacing any with the same name
+ */
+export const SetQueryRule = Schema.Struct({
+    type: Schema.Literal("set-query"),
+    params: Schema.Record({ key: Schema.String, value: Schema.String }),
+})
+
+/**
+ * Remove query parameters
+ */
+export const RemoveQueryRule = Schema.Struct({
+    type: Schema.Literal("remove-query"),
+    params: Schema.Array(Schema.String),
+})
+
+/**
+ * A rule rewriting the URL sent to an endpoint
+ */
+export const RewriteRule = Schema.Union(
+    StripPrefixRule,
+    AddPrefixRule,
+    ReplacePathRule,
+    SetQueryRule,
+    RemoveQueryRule,
+)
+export type RewriteRule = typeof RewriteRule.Type
+
+/**
+ * Path and query string of a URL
+ */
+export interface RewrittenUrl {
+    readonly pathname: string
+    readonly search: string
+}
+
+/**
+ * Check that the patterns and flags of `replace` rules compile
+ * (returns the problem, or undefined when the rules are valid)
+ */
+export const validateRewriteRules = (rules: ReadonlyArray<RewriteRule>): string | undefined => {
+    for (const rule of rules) {
+        const invalid = rule.type === "replace" ? validateRegExp(rule.pattern, rule.flags) : undefined
+        if (invalid !== undefined) return `Rewrite rule: ${invalid}`
+    }
+    return undefined
+}
+
+/**
+ * Apply one rule to a path and its query parameters (modified in place)
+ */
+const applyRule = (rule: RewriteRule, pathname: string, params: URLSearchParams): string => {
+    switch (rule.type) {
+        case "strip-prefix": {
+            const prefix = rule.prefix.replace(/\/+$/, "")
+            if (prefix === "") return pathname
+            if (pathname === prefix) return "/"
+            return pathname.startsWith(`${prefix}/`) ? pathname.slice(prefix.length) : pathname
+        }
+        case "add-prefix":
+            return rule.prefix.replace(/\/+$/, "") + pathname
+        case "replace": {
+            const rewritten = pathname.replace(new RegExp(rule.pattern, rule.flags), rule.replacement)
+            return rewritten.startsWith("/") ? rewritten : `/${rewritten}`
+        }
+        case "set-query":
+            for (const [name, value] of Object.entries(rule.params)) {
+                params.set(name, value)
+            }
+            return pathname
+        case "remove-query":
+            for (const name of rule.params) {
+                params.delete(name)
+            }
+            return pathname
+    }
+}
+
+/**
+ * Apply rewrite rules, in order, to a request path and query string
+ *
+ * @param rules - Rewrite rules
+ * @param pathname - The request path
+ * @param search - The request query string (with or without the leading `?`)
+ */
+export const rewriteUrl = (
+    rules: ReadonlyArray<RewriteRule>,
+    pathname: string,
+    search: string,
+): RewrittenUrl => {
+    if (rules.length === 0) return { pathname, search }
+
+    const params = new URLSearchParams(search)
+    const rewritten = rules.reduce((path, rule) => applyRule(rule, path, params), pathname)
+    const query = params.toString()
+
+    // Keep the original query string as is when no query rule changed it
+    const touchesQuery = rules.some((rule) => rule.type === "set-query" || rule.type === "remove-query")
+    return {
+        pathname: rewritten,
+        search: touchesQuery ? (query === "" ? "" : `?${query}`) : search,
+    }
+}
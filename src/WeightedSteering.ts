@@ -0,0 +1,46 @@
+/**
+ * @blank-utils/load-balancer
+ *
+ * Weighted steering - distribute requests according to endpoint weights
+ */
+import type { Endpoint } from "./Endpoint.js"
+
+/**
+ * Order endpoints by weighted random selection.
+ *
+ * The first endpoint is picked with probability proportional to its weight,
+ * the second is picked the same way from the endpoints that are left, and so on.
+ * Every endpoint is returned, so the ones that were not picked first remain
+ * available for failover.
+ *
+ * @param endpoints - Candidate endpoints
+ * @param random - Random number source in [0, 1) (injectable for tests)
+ * @param weights - Effective weight of each endpoint (defaults to `Endpoint.weight`)
+ */
+export const selectWeightedEndpoints = (
+    endpoints: ReadonlyArray<Endpoint>,
+    random: () => number = Math.random,
+    weights: ReadonlyArray<number> = endpoints.map((ep) => ep.weight),
+): ReadonlyArray<Endpoint> => {
+    const remaining = endpoints.map((endpoint, i) => ({ endpoint, weight: weights[i]! }))
+    const ordered: Endpoint[] = []
+
+    while (remaining.length > 0) {
+        const totalWeight = remaining.reduce((sum, candidate) => sum + candidate.weight, 0)
+        let point = random() * totalWeight
+
+        // Fall back to the last endpoint to guard against rounding errors
+        let index = remaining.length - 1
+        for (let i = 0; i < remaining.length; i++) {
+            point -= remaining[i]!.weight
+            if (point < 0) {
+                index = i
+                break
+            }
+        }
+
+        ordered.push(remaining.splice(index, 1)[0]!.endpoint)
+    }
+
+    return ordered
+}
@@ -4,9 +4,21 @@
 import { afterAll, beforeAll, describe, expect, it } from "@effect/vitest"
 import { Effect, Layer } from "effect"
 import { endpoint } from "../Endpoint.js"
+import { CircuitBreaker, makeCircuitBreaker } from "../CircuitBreaker.js"
 import { EndpointUnhealthyError } from "../Errors.js"
 import { HealthChecker } from "../HealthChecker.js"
-import { failForward, asyncBlock, promiseAny, DEFAULT_FAILOVER_STATUSES } from "../AvailabilityMethod.js"
+import {
+    failForward,
+    asyncBlock,
+    promiseAny,
+    cachedHealth,
+    hedged,
+    DEFAULT_FAILOVER_STATUSES,
+    type RequestDeadline,
+} from "../AvailabilityMethod.js"
+import { runHealthChecks } from "../HealthStore.js"
+import { makeOutlierDetector, OutlierDetector } from "../OutlierDetector.js"
+import { makeStateStoreMemory } from "../StateStore.js"
 import { createTestServer, stopTestServers, type TestServer } from "./test-servers.js"
 
 describe("AvailabilityMethod", () => {
@@ -91,13 +103,204 @@ describe("AvailabilityMethod", () => {
                 const result = yield* failForward([badEndpoint], request).pipe(Effect.either)
 
                 expect(result._tag).toBe("Left")
-                if (result._tag === "Left") {
-                    expect(result.left._tag).toBe("NoHealthyEndpointsError")
+                expect(result._tag === "Left" && result.left._tag).toBe("NoHealthyEndpointsError")
+                if (result._tag === "Left" && result.left._tag === "NoHealthyEndpointsError") {
                     expect(result.left.triedEndpoints).toHaveLength(1)
                 }
             }),
         )
 
+        it("retries an endpoint on failover statuses before failing over", async () => {
+            const endpoints = servers.map((s) => endpoint(s.url))
+            const request = new Request("http://example.com/flaky?key=ff-retry&fail=1")
+
+            const response = await Effect.runPromise(
+                failForward(endpoints, request, [503], {
+                    retry: { maxRetries: 1, initialDelay: "10 millis" },
+                }),
+            )
+
+            expect(response.status).toBe(200)
+            expect(response.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[0]!.url)
+            expect(response.headers.has("X-Load-Balancer-Tried-Count")).toBe(false)
+        })
+
+        it("fails over once retries are exhausted", async () => {
+            const endpoints = servers.map((s) => endpoint(s.url))
+            const request = new Request("http://example.com/flaky?key=ff-exhausted&fail=2")
+
+            const response = await Effect.runPromise(
+                failForward(endpoints, request, [503], {
+                    retry: { maxRetries: 1, initialDelay: "10 millis" },
+                }),
+            )
+
+            expect(response.status).toBe(200)
+            expect(response.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[1]!.url)
+        })
+
+        it("lets Endpoint.retry override the shared retry policy", async () => {
+            const endpoints = [
+                endpoint(servers[0]!.url, { retry: { maxRetries: 0 } }),
+                endpoint(servers[1]!.url),
+            ]
+            const request = new Request("http://example.com/flaky?key=ff-override&fail=1")
+
+            const response = await Effect.runPromise(
+                failForward(endpoints, request, [503], {
+                    retry: { maxRetries: 3, initialDelay: "10 millis" },
+                }),
+            )
+
+            expect(response.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[1]!.url)
+        })
+
+        it.effect("does not fail over a POST after a failover status", () =>
+            Effect.gen(function* () {
+                const endpoints = servers.map((s) => endpoint(s.url))
+                const request = new Request("http://example.com/503", { method: "POST", body: "order" })
+
+                const result = yield* failForward(endpoints, request).pipe(Effect.either)
+
+                expect(result._tag).toBe("Left")
+                expect(result._tag === "Left" && result.left._tag).toBe("NoHealthyEndpointsError")
+                if (result._tag === "Left" && result.left._tag === "NoHealthyEndpointsError") {
+                    expect(result.left.triedEndpoints).toHaveLength(1)
+                    expect(result.left.failoverDecision).toEqual({
+                        allowed: false,
+                        reason: "non-idempotent",
+                        method: "POST",
+                    })
+                }
+            }),
+        )
+
+        it("does not retry a POST on failover statuses", async () => {
+            const endpoints = [endpoint(servers[0]!.url)]
+            const request = new Request("http://example.com/flaky?key=post-no-retry&fail=1", {
+                method: "POST",
+                body: "order",
+            })
+
+            const result = await Effect.runPromise(
+                failForward(endpoints, request, [503], {
+                    retry: { maxRetries: 2, initialDelay: "10 millis" },
+                }).pipe(Effect.either),
+            )
+
+            expect(result._tag).toBe("Left")
+        })
+
+        it("fails over a POST with an Idempotency-Key header", async () => {
+            const endpoints = servers.map((s) => endpoint(s.url))
+            const request = new Request("http://example.com/flaky?key=post-key&fail=1", {
+                method: "POST",
+                body: "order",
+                headers: { "Idempotency-Key": "order-1" },
+            })
+
+            const response = await Effect.runPromise(failForward(endpoints, request))
+
+            expect(response.status).toBe(200)
+            expect(response.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[1]!.url)
+        })
+
+        it("fails over a POST when the connection could not be established", async () => {
+            const endpoints = [endpoint("http://localhost:59999"), endpoint(servers[1]!.url)]
+            const request = new Request("http://example.com/api/echo", {
+                method: "POST",
+                body: JSON.stringify({ order: 1 }),
+            })
+
+            const response = await Effect.runPromise(failForward(endpoints, request))
+
+            expect(response.status).toBe(200)
+            expect(response.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[1]!.url)
+        })
+
+        it("fails over a POST when the policy allows non-idempotent replays", async () => {
+            const endpoints = servers.map((s) => endpoint(s.url))
+            const request = new Request("http://example.com/flaky?key=post-allow&fail=1", {
+                method: "POST",
+                body: "order",
+            })
+
+            const response = await Effect.runPromise(
+                failForward(endpoints, request, [503], {
+                    failoverPolicy: { allowNonIdempotent: true },
+                }),
+            )
+
+            expect(response.status).toBe(200)
+        })
+
+        it("fails over a streamed body that fits in the buffer", async () => {
+            const endpoints = [endpoint("http://localhost:59999"), endpoint(servers[0]!.url)]
+            const request = new Request("http://example.com/api/echo", {
+                method: "POST",
+                body: JSON.stringify({ order: 1 }),
+            })
+
+            const response = await Effect.runPromise(
+                failForward(endpoints, request, undefined, { requestBody: { mode: "stream" } }),
+            )
+
+            const body = (await response.json()) as { echo: unknown; server: string }
+            expect(body).toEqual({ echo: { order: 1 }, server: "primary" })
+        })
+
+        it("does not fail over a streamed body larger than the buffer", async () => {
+            const endpoints = servers.map((s) => endpoint(s.url))
+            const request = new Request("http://example.com/502", {
+                method: "PUT",
+                body: "a body that does not fit",
+            })
+
+            const result = await Effect.runPromise(
+                failForward(endpoints, request, undefined, {
+                    requestBody: { mode: "stream", maxBufferBytes: 8 },
+                }).pipe(Effect.either),
+            )
+
+            expect(result._tag === "Left" && result.left._tag).toBe("NoHealthyEndpointsError")
+            if (result._tag === "Left" && result.left._tag === "NoHealthyEndpointsError") {
+                expect(result.left.triedEndpoints).toHaveLength(1)
+                expect(result.left.failoverDecision?.reason).toBe("body-streamed")
+                expect(result.left.message).toContain("failover refused: body-streamed PUT")
+            }
+        })
+
+        it("fails with RequestTooLargeError before forwarding an oversized body", async () => {
+            const endpoints = servers.map((s) => endpoint(s.url))
+            const request = new Request("http://example.com/api/echo", {
+                method: "POST",
+                body: "0123456789",
+                headers: { "Content-Length": "10" },
+            })
+
+            const result = await Effect.runPromise(
+                failForward(endpoints, request, undefined, { requestBody: { maxBodyBytes: 4 } }).pipe(Effect.either),
+            )
+
+            expect(result._tag === "Left" && result.left._tag).toBe("RequestTooLargeError")
+        })
+
+        it("fails with RequestTooLargeError when a streamed body exceeds the limit", async () => {
+            const endpoints = servers.map((s) => endpoint(s.url))
+            const request = new Request("http://example.com/api/echo", {
+                method: "POST",
+                body: "x".repeat(1024),
+            })
+
+            const result = await Effect.runPromise(
+                failForward(endpoints, request, undefined, {
+                    requestBody: { mode: "stream", maxBodyBytes: 100 },
+                }).pipe(Effect.either),
+            )
+
+            expect(result._tag === "Left" && result.left._tag).toBe("RequestTooLargeError")
+        })
+
         it.effect("respects custom failover statuses", () =>
             Effect.gen(function* () {
                 const endpoints = servers.map((s) => endpoint(s.url))
@@ -190,8 +393,8 @@ describe("AvailabilityMethod", () => {
                 const result = yield* promiseAny([], request).pipe(Effect.either)
 
                 expect(result._tag).toBe("Left")
-                if (result._tag === "Left") {
-                    expect(result.left._tag).toBe("NoHealthyEndpointsError")
+                expect(result._tag === "Left" && result.left._tag).toBe("NoHealthyEndpointsError")
+                if (result._tag === "Left" && result.left._tag === "NoHealthyEndpointsError") {
                     expect(result.left.triedEndpoints).toHaveLength(0)
                 }
             }).pipe(Effect.provide(AlwaysHealthyChecker)),
@@ -217,4 +420,393 @@ describe("AvailabilityMethod", () => {
             expect(body.server).toBe("tertiary")
         })
     })
+
+    describe("cachedHealth", () => {
+        const unhealthyChecker = (port: string) =>
+            Layer.succeed(HealthChecker, {
+                check: (ep) =>
+                    ep.url.includes(port)
+                        ? Effect.fail(new EndpointUnhealthyError({ endpoint: ep, reason: "status", statusCode: 503 }))
+                        : Effect.succeed(true),
+            })
+
+        const allUnhealthyChecker = Layer.succeed(HealthChecker, {
+            check: (ep) => Effect.fail(new EndpointUnhealthyError({ endpoint: ep, reason: "network" })),
+        })
+
+        const neverChecker = Layer.succeed(HealthChecker, {
+            check: () => Effect.die("health checks must not run on the request path"),
+        })
+
+        it("skips endpoints cached as unhealthy without probing", async () => {
+            const endpoints = servers.map((s) => endpoint(s.url))
+            const store = makeStateStoreMemory()
+
+            await Effect.runPromise(
+                runHealthChecks({ endpoints }).pipe(Effect.provide(Layer.merge(unhealthyChecker("3020"), store))),
+            )
+
+            const response = await Effect.runPromise(
+                cachedHealth(endpoints, new Request("http://example.com/api/data")).pipe(
+                    Effect.provide(Layer.merge(store, neverChecker)),
+                ),
+            )
+
+            expect(response.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[1]!.url)
+            expect(response.headers.has("X-Load-Balancer-Tried-Count")).toBe(false)
+        })
+
+        it("treats endpoints without a health record as healthy", async () => {
+            const endpoints = servers.map((s) => endpoint(s.url))
+
+            const response = await Effect.runPromise(
+                cachedHealth(endpoints, new Request("http://example.com/api/data")).pipe(
+                    Effect.provide(makeStateStoreMemory()),
+                ),
+            )
+
+            expect(response.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[0]!.url)
+        })
+
+        it("tries every endpoint when all are cached as unhealthy", async () => {
+            const endpoints = servers.map((s) => endpoint(s.url))
+            const store = makeStateStoreMemory()
+
+            await Effect.runPromise(
+                runHealthChecks({ endpoints }).pipe(Effect.provide(Layer.merge(allUnhealthyChecker, store))),
+            )
+
+            const response = await Effect.runPromise(
+                cachedHealth(endpoints, new Request("http://example.com/api/data")).pipe(Effect.provide(store)),
+            )
+
+            expect(response.status).toBe(200)
+        })
+
+        it("fails without trying when all are unhealthy and failOpen is false", async () => {
+            const endpoints = servers.map((s) => endpoint(s.url))
+            const store = makeStateStoreMemory()
+
+            await Effect.runPromise(
+                runHealthChecks({ endpoints }).pipe(Effect.provide(Layer.merge(allUnhealthyChecker, store))),
+            )
+
+            const result = await Effect.runPromise(
+                cachedHealth(endpoints, new Request("http://example.com/api/data"), { failOpen: false }).pipe(
+                    Effect.provide(store),
+                    Effect.either,
+                ),
+            )
+
+            expect(result._tag).toBe("Left")
+            expect(result._tag === "Left" && result.left._tag).toBe("NoHealthyEndpointsError")
+            if (result._tag === "Left" && result.left._tag === "NoHealthyEndpointsError") {
+                expect(result.left.triedEndpoints).toHaveLength(0)
+                expect(result.left.lastError).toBeInstanceOf(EndpointUnhealthyError)
+            }
+        })
+
+        it("still fails over on failover statuses", async () => {
+            const endpoints = servers.map((s) => endpoint(s.url))
+
+            const result = await Effect.runPromise(
+                cachedHealth(endpoints, new Request("http://example.com/503")).pipe(
+                    Effect.provide(makeStateStoreMemory()),
+                    Effect.either,
+                ),
+            )
+
+            expect(result._tag).toBe("Left")
+            expect(result._tag === "Left" && result.left._tag).toBe("NoHealthyEndpointsError")
+            if (result._tag === "Left" && result.left._tag === "NoHealthyEndpointsError") {
+                expect(result.left.triedEndpoints).toHaveLength(3)
+            }
+        })
+    })
+
+    describe("hedged", () => {
+        let slowServers: TestServer[]
+
+        beforeAll(async () => {
+            slowServers = await Promise.all([
+                createTestServer({ port: 3023, name: "slow", delay: 300 }),
+                createTestServer({ port: 3024, name: "slower", delay: 1000 }),
+            ])
+        })
+
+        afterAll(async () => {
+            await stopTestServers(slowServers)
+        })
+
+        const serverOf = async (response: Response) => ((await response.json()) as { server: string }).server
+
+        it("does not hedge when the first endpoint answers in time", async () => {
+            const endpoints = servers.map((s) => endpoint(s.url))
+
+            const response = await Effect.runPromise(
+                hedged(endpoints, new Request("http://example.com/api/data"), { delay: "500 millis" }),
+            )
+
+            expect(await serverOf(response)).toBe("primary")
+            expect(response.headers.has("X-Load-Balancer-Hedged")).toBe(false)
+            expect(response.headers.has("X-Load-Balancer-Tried-Count")).toBe(false)
+        })
+
+        it("sends a hedged request when the first endpoint is slow", async () => {
+            const endpoints = [endpoint(slowServers[0]!.url), endpoint(servers[0]!.url)]
+
+            const response = await Effect.runPromise(
+                hedged(endpoints, new Request("http://example.com/api/data"), { delay: "50 millis" }),
+            )
+
+            expect(await serverOf(response)).toBe("primary")
+            expect(response.headers.get("X-Load-Balancer-Hedged")).toBe("true")
+            expect(response.headers.get("X-Load-Balancer-Tried-Count")).toBe("2")
+        })
+
+        it("keeps the original response when it beats the hedged request", async () => {
+            const endpoints = [endpoint(slowServers[0]!.url), endpoint(slowServers[1]!.url)]
+
+            const response = await Effect.runPromise(
+                hedged(endpoints, new Request("http://example.com/api/data"), { delay: "50 millis" }),
+            )
+
+            expect(await serverOf(response)).toBe("slow")
+            expect(response.headers.get("X-Load-Balancer-Hedged")).toBe("false")
+        })
+
+        it("gets the hedge delay from a function", async () => {
+            const endpoints = [endpoint(slowServers[0]!.url), endpoint(servers[0]!.url)]
+            const waitedOn: string[] = []
+
+            const response = await Effect.runPromise(
+                hedged(endpoints, new Request("http://example.com/api/data"), {
+                    delay: (ep) => Effect.sync(() => waitedOn.push(ep.url)).pipe(Effect.as("50 millis" as const)),
+                }),
+            )
+
+            expect(waitedOn[0]).toBe(slowServers[0]!.url)
+            expect(response.headers.get("X-Load-Balancer-Hedged")).toBe("true")
+        })
+
+        it("fails over right away when an endpoint fails", async () => {
+            const endpoints = [endpoint("http://localhost:59999"), endpoint(servers[0]!.url)]
+
+            const response = await Effect.runPromise(
+                hedged(endpoints, new Request("http://example.com/api/data"), { delay: "5 seconds" }),
+            )
+
+            expect(await serverOf(response)).toBe("primary")
+            expect(response.headers.has("X-Load-Balancer-Hedged")).toBe(false)
+            expect(Number(response.headers.get("X-Load-Balancer-Latency"))).toBeLessThan(2000)
+        })
+
+        it("does not hedge when maxHedges is 0", async () => {
+            const endpoints = [endpoint(slowServers[0]!.url), endpoint(servers[0]!.url)]
+
+            const response = await Effect.runPromise(
+                hedged(endpoints, new Request("http://example.com/api/data"), { delay: "50 millis", maxHedges: 0 }),
+            )
+
+            expect(await serverOf(response)).toBe("slow")
+            expect(response.headers.has("X-Load-Balancer-Hedged")).toBe(false)
+        })
+
+        it("does not hedge requests that are not safe to replay", async () => {
+            const endpoints = [endpoint(slowServers[0]!.url), endpoint(servers[0]!.url)]
+            const request = new Request("http://example.com/api/echo", {
+                method: "POST",
+                body: JSON.stringify({ order: 1 }),
+            })
+
+            const response = await Effect.runPromise(hedged(endpoints, request, { delay: "50 millis" }))
+
+            expect(await serverOf(response)).toBe("slow")
+            expect(response.headers.has("X-Load-Balancer-Hedged")).toBe(false)
+        })
+
+        it("does not hedge a streamed body larger than the buffer", async () => {
+            const healthy = endpoint(servers[0]!.url)
+            const request = new Request("http://example.com/api/echo", {
+                method: "POST",
+                body: "a body that does not fit",
+                headers: { "Idempotency-Key": "order-1" },
+            })
+
+            const [response, circuit] = await Effect.runPromise(
+                Effect.gen(function* () {
+                    const response = yield* hedged([endpoint(slowServers[0]!.url), healthy], request, { delay: "50 millis" }, {
+                        requestBody: { mode: "stream", maxBufferBytes: 8 },
+                    })
+                    const breaker = yield* CircuitBreaker
+                    return [response, yield* breaker.getState(healthy)] as const
+                }).pipe(Effect.provide(makeCircuitBreaker({ failureThreshold: 1 }))),
+            )
+
+            expect(await serverOf(response)).toBe("slow")
+            expect(response.headers.has("X-Load-Balancer-Hedged")).toBe(false)
+            expect(circuit._tag).toBe("Closed")
+        })
+
+        it("fails with NoHealthyEndpointsError when every endpoint fails", async () => {
+            const endpoints = [endpoint("http://localhost:59999"), endpoint("http://localhost:59998")]
+
+            const result = await Effect.runPromise(
+                hedged(endpoints, new Request("http://example.com/api/data")).pipe(Effect.either),
+            )
+
+            expect(result._tag).toBe("Left")
+            expect(result._tag === "Left" && result.left._tag).toBe("NoHealthyEndpointsError")
+            if (result._tag === "Left" && result.left._tag === "NoHealthyEndpointsError") {
+                expect(result.left.triedEndpoints).toHaveLength(2)
+            }
+        })
+    })
+
+    describe("request deadline", () => {
+        let slowServer: TestServer
+
+        beforeAll(async () => {
+            slowServer = await createTestServer({ port: 3025, name: "deadline-slow", delay: 500 })
+        })
+
+        afterAll(async () => {
+            await stopTestServers([slowServer])
+        })
+
+        const deadlineIn = (ms: number): RequestDeadline => ({ budgetMs: ms, expiresAt: Date.now() + ms })
+
+        it("gives each endpoint a share of the deadline so a hanging one does not use it all", async () => {
+            const endpoints = [endpoint(slowServer.url), endpoint(servers[0]!.url)]
+            const startTime = Date.now()
+
+            const response = await Effect.runPromise(
+                failForward(endpoints, new Request("http://example.com/api/data"), undefined, {
+                    deadline: deadlineIn(400),
+                }),
+            )
+
+            expect(Date.now() - startTime).toBeLessThan(450)
+            expect(response.status).toBe(200)
+            expect(await response.json()).toMatchObject({ server: "primary" })
+        })
+
+        it("cuts attempts short and stops failing over when the deadline passes", async () => {
+            const endpoints = [endpoint(slowServer.url), endpoint(slowServer.url)]
+            const startTime = Date.now()
+
+            const result = await Effect.runPromise(
+                failForward(endpoints, new Request("http://example.com/api/data"), undefined, {
+                    deadline: deadlineIn(200),
+                }).pipe(Effect.either),
+            )
+
+            expect(Date.now() - startTime).toBeLessThan(450)
+            expect(result._tag).toBe("Left")
+            expect(result._tag === "Left" && result.left._tag).toBe("DeadlineExceededError")
+            if (result._tag === "Left" && result.left._tag === "DeadlineExceededError") {
+                expect(result.left.triedEndpoints).toHaveLength(2)
+                expect(result.left.lastError).toMatchObject({
+                    _tag: "RequestForwardError",
+                    cause: { name: "TimeoutError" },
+                })
+            }
+        })
+
+        it("does not count attempts cut short by the deadline against the endpoint", async () => {
+            const slow = endpoint(slowServer.url)
+            const layer = Layer.merge(
+                makeCircuitBreaker({ failureThreshold: 1 }),
+                makeOutlierDetector({ minimumRequests: 1, maxEjectionPercent: 100 }),
+            )
+
+            const [circuit, stats] = await Effect.runPromise(
+                Effect.gen(function* () {
+                    const endpoints = [slow, endpoint(servers[0]!.url)]
+                    yield* failForward(endpoints, new Request("http://example.com/api/data"), undefined, {
+                        deadline: deadlineIn(400),
+                    })
+                    const breaker = yield* CircuitBreaker
+                    const detector = yield* OutlierDetector
+                    return [yield* breaker.getState(slow), yield* detector.getStats(slow)] as const
+                }).pipe(Effect.provide(layer)),
+            )
+
+            expect(circuit._tag).toBe("Closed")
+            expect(stats.requests).toBe(0)
+        })
+
+        it("answers normally within the deadline", async () => {
+            const endpoints = [endpoint("http://localhost:59999"), endpoint(servers[0]!.url)]
+
+            const response = await Effect.runPromise(
+                failForward(endpoints, new Request("http://example.com/api/data"), undefined, {
+                    deadline: deadlineIn(5000),
+                }),
+            )
+
+            expect(response.status).toBe(200)
+        })
+
+        it("stops retrying when the deadline passes", async () => {
+            const endpoints = [endpoint(servers[0]!.url)]
+
+            const result = await Effect.runPromise(
+                failForward(endpoints, new Request("http://example.com/503"), undefined, {
+                    retry: { maxRetries: 10, initialDelay: "100 millis", factor: 1 },
+                    deadline: deadlineIn(250),
+                }).pipe(Effect.either),
+            )
+
+            expect(result._tag === "Left" && result.left._tag).toBe("DeadlineExceededError")
+        })
+
+        it("bounds async-block health checks by the deadline", async () => {
+            const SlowChecker = Layer.succeed(HealthChecker, {
+                check: () => Effect.delay(Effect.succeed(true), "1 second"),
+            })
+
+            const result = await Effect.runPromise(
+                asyncBlock(servers.map((s) => endpoint(s.url)), new Request("http://example.com/api/data"), {
+                    deadline: deadlineIn(100),
+                }).pipe(Effect.either, Effect.provide(SlowChecker)),
+            )
+
+            expect(result._tag).toBe("Left")
+            expect(result._tag === "Left" && result.left._tag).toBe("DeadlineExceededError")
+            if (result._tag === "Left" && result.left._tag === "DeadlineExceededError") {
+                expect(result.left.triedEndpoints).toHaveLength(1)
+            }
+        })
+
+        it("ends the promise-any race at the deadline", async () => {
+            const NeverChecker = Layer.succeed(HealthChecker, { check: () => Effect.never })
+            const startTime = Date.now()
+
+            const result = await Effect.runPromise(
+                promiseAny(servers.map((s) => endpoint(s.url)), new Request("http://example.com/api/data"), {
+                    deadline: deadlineIn(100),
+                }).pipe(Effect.either, Effect.provide(NeverChecker)),
+            )
+
+            expect(Date.now() - startTime).toBeLessThan(1000)
+            expect(result._tag === "Left" && result.left._tag).toBe("DeadlineExceededError")
+        })
+
+        it("stops hedging when the deadline passes", async () => {
+            const endpoints = [endpoint(slowServer.url), endpoint(slowServer.url), endpoint(servers[0]!.url)]
+
+            const result = await Effect.runPromise(
+                hedged(endpoints, new Request("http://example.com/api/data"), { delay: "150 millis" }, {
+                    deadline: deadlineIn(200),
+                }).pipe(Effect.either),
+            )
+
+            expect(result._tag).toBe("Left")
+            expect(result._tag === "Left" && result.left._tag).toBe("DeadlineExceededError")
+            if (result._tag === "Left" && result.left._tag === "DeadlineExceededError") {
+                expect(result.left.triedEndpoints).toHaveLength(2)
+            }
+        })
+    })
 })
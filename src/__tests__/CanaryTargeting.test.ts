@@ -0,0 +1,168 @@
+/**
+ * Canary targeting tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { Either, Schema } from "effect"
+import {
+    CanaryRule,
+    ipInCidr,
+    isCanaryRequest,
+    makeCanaryMatcher,
+    matchesCanaryRule,
+    validateCanaryRules,
+} from "../CanaryTargeting.js"
+
+describe("CanaryTargeting", () => {
+    const request = (headers: Record<string, string> = {}) => new Request("https://example.com/", { headers })
+
+    describe("ipInCidr", () => {
+        it("matches IPv4 ranges", () => {
+            expect(ipInCidr("10.1.2.3", "10.0.0.0/8")).toBe(true)
+            expect(ipInCidr("11.1.2.3", "10.0.0.0/8")).toBe(false)
+            expect(ipInCidr("192.168.1.130", "192.168.1.128/25")).toBe(true)
+            expect(ipInCidr("192.168.1.127", "192.168.1.128/25")).toBe(false)
+            expect(ipInCidr("203.0.113.7", "0.0.0.0/0")).toBe(true)
+        })
+
+        it("treats a bare address as a single-address range", () => {
+            expect(ipInCidr("203.0.113.7", "203.0.113.7")).toBe(true)
+            expect(ipInCidr("203.0.113.8", "203.0.113.7")).toBe(false)
+        })
+
+        it("matches IPv6 ranges", () => {
+            expect(ipInCidr("2001:db8::1", "2001:db8::/32")).toBe(true)
+            expect(ipInCidr("2001:0db8:ffff:0000:0000:0000:0000:0001", "2001:db8::/32")).toBe(true)
+            expect(ipInCidr("2001:db9::1", "2001:db8::/32")).toBe(false)
+            expect(ipInCidr("::1", "::1/128")).toBe(true)
+        })
+
+        it("reads IPv4-mapped IPv6 addresses as IPv4", () => {
+            expect(ipInCidr("::ffff:10.0.0.1", "10.0.0.0/8")).toBe(true)
+        })
+
+        it("never matches across address families or invalid input", () => {
+            expect(ipInCidr("10.0.0.1", "::/0")).toBe(false)
+            expect(ipInCidr("2001:db8::1", "0.0.0.0/0")).toBe(false)
+            expect(ipInCidr("not-an-ip", "10.0.0.0/8")).toBe(false)
+            expect(ipInCidr("10.0.0.1", "10.0.0.0/33")).toBe(false)
+            expect(ipInCidr("256.0.0.1", "0.0.0.0/0")).toBe(false)
+            expect(ipInCidr("1::2::3", "::/0")).toBe(false)
+        })
+    })
+
+    describe("matchesCanaryRule", () => {
+        it("matches header values exactly or by pattern", () => {
+            const exact: CanaryRule = { type: "header", name: "X-Canary", equals: "true" }
+            const pattern: CanaryRule = { type: "header", name: "X-Tenant", pattern: "^beta-" }
+
+            expect(matchesCanaryRule(exact, request({ "X-Canary": "true" }))).toBe(true)
+            expect(matchesCanaryRule(exact, request({ "X-Canary": "truthy" }))).toBe(false)
+            expect(matchesCanaryRule(exact, request())).toBe(false)
+            expect(matchesCanaryRule(pattern, request({ "X-Tenant": "beta-acme" }))).toBe(true)
+            expect(matchesCanaryRule(pattern, request({ "X-Tenant": "acme" }))).toBe(false)
+        })
+
+        it("only requires a header to be present without a value", () => {
+            const rule: CanaryRule = { type: "header", name: "X-Canary" }
+
+            expect(matchesCanaryRule(rule, request({ "X-Canary": "" }))).toBe(true)
+            expect(matchesCanaryRule(rule, request())).toBe(false)
+        })
+
+        it("matches parsed cookie values, not substrings of the Cookie header", () => {
+            const rule: CanaryRule = { type: "cookie", name: "canary", equals: "true" }
+
+            expect(matchesCanaryRule(rule, request({ Cookie: "session=abc; canary=true" }))).toBe(true)
+            expect(matchesCanaryRule(rule, request({ Cookie: "notcanary=true" }))).toBe(false)
+            expect(matchesCanaryRule(rule, request({ Cookie: "canary=truest" }))).toBe(false)
+        })
+
+        it("matches user agents case-insensitively", () => {
+            const rule: CanaryRule = { type: "user-agent", pattern: "internaltestbot/\\d+" }
+
+            expect(matchesCanaryRule(rule, request({ "User-Agent": "Mozilla/5.0 InternalTestBot/2" }))).toBe(true)
+            expect(matchesCanaryRule(rule, request({ "User-Agent": "Mozilla/5.0" }))).toBe(false)
+            expect(matchesCanaryRule(rule, request())).toBe(false)
+        })
+
+        it("matches the client address against CIDR ranges", () => {
+            const rule: CanaryRule = { type: "ip", cidrs: ["198.51.100.0/24", "2001:db8::/32"] }
+
+            expect(matchesCanaryRule(rule, request({ "CF-Connecting-IP": "198.51.100.20" }))).toBe(true)
+            expect(matchesCanaryRule(rule, request({ "CF-Connecting-IP": "2001:db8::42" }))).toBe(true)
+            expect(matchesCanaryRule(rule, request({ "CF-Connecting-IP": "203.0.113.1" }))).toBe(false)
+            expect(matchesCanaryRule(rule, request({ "X-Real-IP": "198.51.100.20" }))).toBe(false)
+            expect(
+                matchesCanaryRule({ ...rule, header: "X-Real-IP" }, request({ "X-Real-IP": "198.51.100.20" })),
+            ).toBe(true)
+        })
+
+        it("matches the client's ASN", () => {
+            const rule: CanaryRule = { type: "asn", asns: [64496, 64497] }
+
+            expect(matchesCanaryRule(rule, request(), { asn: 64497 })).toBe(true)
+            expect(matchesCanaryRule(rule, request(), { asn: 13335 })).toBe(false)
+            expect(matchesCanaryRule(rule, request())).toBe(false)
+        })
+    })
+
+    describe("isCanaryRequest", () => {
+        const rules: ReadonlyArray<CanaryRule> = [
+            { type: "cookie", name: "canary", equals: "true" },
+            { type: "asn", asns: [64496] },
+        ]
+
+        it("matches when any rule matches", () => {
+            expect(isCanaryRequest(rules, request({ Cookie: "canary=true" }))).toBe(true)
+            expect(isCanaryRequest(rules, request(), { asn: 64496 })).toBe(true)
+            expect(isCanaryRequest(rules, request(), { asn: 13335 })).toBe(false)
+        })
+
+        it("matches nothing without rules", () => {
+            expect(isCanaryRequest([], request({ Cookie: "canary=true" }))).toBe(false)
+        })
+    })
+
+    describe("makeCanaryMatcher", () => {
+        it("checks requests against rules compiled once", () => {
+            const isCanary = makeCanaryMatcher([
+                { type: "header", name: "X-Beta", pattern: "^on$" },
+                { type: "ip", cidrs: ["2001:db8::/32"] },
+            ])
+
+            expect(isCanary(request({ "X-Beta": "on" }))).toBe(true)
+            expect(isCanary(request({ "CF-Connecting-IP": "2001:db8::1" }))).toBe(true)
+            expect(isCanary(request({ "X-Beta": "off", "CF-Connecting-IP": "2001:db9::1" }))).toBe(false)
+        })
+    })
+
+    describe("validateCanaryRules", () => {
+        it("accepts valid rules", () => {
+            expect(
+                validateCanaryRules([
+                    { type: "user-agent", pattern: "Mobile" },
+                    { type: "ip", cidrs: ["10.0.0.0/8"] },
+                ]),
+            ).toBeUndefined()
+        })
+
+        it("reports patterns that do not compile and invalid CIDR ranges", () => {
+            expect(validateCanaryRules([{ type: "cookie", name: "beta", pattern: "[" }])).toMatch(
+                /^Canary cookie rule: /,
+            )
+            expect(validateCanaryRules([{ type: "ip", cidrs: ["10.0.0.0/40"] }])).toBe(
+                'Canary ip rule: invalid CIDR range "10.0.0.0/40"',
+            )
+        })
+    })
+
+    describe("CanaryRule schema", () => {
+        const decode = Schema.decodeUnknownEither(CanaryRule)
+
+        it("rejects invalid CIDR ranges and patterns", () => {
+            expect(Either.isRight(decode({ type: "ip", cidrs: ["10.0.0.0/8"] }))).toBe(true)
+            expect(Either.isLeft(decode({ type: "ip", cidrs: ["10.0.0.0/40"] }))).toBe(true)
+            expect(Either.isLeft(decode({ type: "user-agent", pattern: "(" }))).toBe(true)
+        })
+    })
+})
@@ -0,0 +1,265 @@
+/**
+ * CircuitBreaker service tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Layer, Ref, TestClock } from "effect"
+import { failForward, promiseAny } from "../AvailabilityMethod.js"
+import { CircuitBreaker, makeCircuitBreaker, type CircuitTransition } from "../CircuitBreaker.js"
+import { endpoint } from "../Endpoint.js"
+import { HealthChecker } from "../HealthChecker.js"
+
+describe("CircuitBreaker", () => {
+    const ep = endpoint("https://api.example.com")
+
+    describe("makeCircuitBreaker", () => {
+        it.effect("starts closed", () =>
+            Effect.gen(function* () {
+                const breaker = yield* CircuitBreaker
+
+                const state = yield* breaker.getState(ep)
+
+                expect(state._tag).toBe("Closed")
+                yield* breaker.allowRequest(ep)
+            }).pipe(Effect.provide(makeCircuitBreaker())),
+        )
+
+        it.effect("opens after consecutive failures reach the threshold", () =>
+            Effect.gen(function* () {
+                const breaker = yield* CircuitBreaker
+
+                yield* breaker.recordFailure(ep)
+                yield* breaker.recordFailure(ep)
+                expect((yield* breaker.getState(ep))._tag).toBe("Closed")
+
+                yield* breaker.recordFailure(ep)
+                const state = yield* breaker.getState(ep)
+
+                expect(state._tag).toBe("Open")
+                expect(state.failures).toBe(3)
+            }).pipe(Effect.provide(makeCircuitBreaker({ failureThreshold: 3 }))),
+        )
+
+        it.effect("resets the failure count on success", () =>
+            Effect.gen(function* () {
+                const breaker = yield* CircuitBreaker
+
+                yield* breaker.recordFailure(ep)
+                yield* breaker.recordSuccess(ep)
+                yield* breaker.recordFailure(ep)
+
+                const state = yield* breaker.getState(ep)
+                expect(state._tag).toBe("Closed")
+                expect(state.failures).toBe(1)
+            }).pipe(Effect.provide(makeCircuitBreaker({ failureThreshold: 2 }))),
+        )
+
+        it.effect("records when the circuit closed after being open", () =>
+            Effect.gen(function* () {
+                const breaker = yield* CircuitBreaker
+
+                yield* breaker.recordSuccess(ep)
+                const initial = yield* breaker.getState(ep)
+                expect(initial._tag === "Closed" && initial.closedAt).toBeUndefined()
+
+                yield* breaker.recordFailure(ep)
+                yield* TestClock.adjust("1 minute")
+                yield* breaker.recordSuccess(ep)
+                yield* breaker.recordSuccess(ep)
+
+                const state = yield* breaker.getState(ep)
+                expect(state._tag).toBe("Closed")
+                if (state._tag === "Closed") expect(state.closedAt?.getTime()).toBe(60_000)
+            }).pipe(Effect.provide(makeCircuitBreaker({ failureThreshold: 1 }))),
+        )
+
+        it.effect("checks requests without taking the half-open probe", () =>
+            Effect.gen(function* () {
+                const breaker = yield* CircuitBreaker
+
+                yield* breaker.recordFailure(ep)
+                expect((yield* breaker.checkRequest(ep).pipe(Effect.either))._tag).toBe("Left")
+
+                yield* TestClock.adjust("1 minute")
+                yield* breaker.checkRequest(ep)
+                expect((yield* breaker.getState(ep))._tag).toBe("Open")
+            }).pipe(Effect.provide(makeCircuitBreaker({ failureThreshold: 1, cooldown: "1 minute" }))),
+        )
+
+        it.effect("rejects requests with CircuitOpenError while open", () =>
+            Effect.gen(function* () {
+                const breaker = yield* CircuitBreaker
+
+                yield* breaker.recordFailure(ep)
+                const result = yield* breaker.allowRequest(ep).pipe(Effect.either)
+
+                expect(result._tag).toBe("Left")
+                if (result._tag === "Left") {
+                    expect(result.left._tag).toBe("CircuitOpenError")
+                    expect(result.left.failures).toBe(1)
+                    expect(result.left.endpoint.url).toBe("https://api.example.com")
+                }
+            }).pipe(Effect.provide(makeCircuitBreaker({ failureThreshold: 1 }))),
+        )
+
+        it.effect("half-opens after the cooldown and lets a single probe through", () =>
+            Effect.gen(function* () {
+                const breaker = yield* CircuitBreaker
+
+                yield* breaker.recordFailure(ep)
+                yield* TestClock.adjust("10 seconds")
+
+                yield* breaker.allowRequest(ep)
+                expect((yield* breaker.getState(ep))._tag).toBe("HalfOpen")
+
+                // A second request while the probe is in flight is rejected
+                const second = yield* breaker.allowRequest(ep).pipe(Effect.either)
+                expect(second._tag).toBe("Left")
+            }).pipe(Effect.provide(makeCircuitBreaker({ failureThreshold: 1, cooldown: "10 seconds" }))),
+        )
+
+        it.effect("closes when the probe succeeds", () =>
+            Effect.gen(function* () {
+                const breaker = yield* CircuitBreaker
+
+                yield* breaker.recordFailure(ep)
+                yield* TestClock.adjust("10 seconds")
+                yield* breaker.allowRequest(ep)
+                yield* breaker.recordSuccess(ep)
+
+                expect((yield* breaker.getState(ep))._tag).toBe("Closed")
+                yield* breaker.allowRequest(ep)
+            }).pipe(Effect.provide(makeCircuitBreaker({ failureThreshold: 1, cooldown: "10 seconds" }))),
+        )
+
+        it.effect("re-opens and restarts the cooldown when the probe fails", () =>
+            Effect.gen(function* () {
+                const breaker = yield* CircuitBreaker
+
+                yield* breaker.recordFailure(ep)
+                yield* TestClock.adjust("10 seconds")
+                yield* breaker.allowRequest(ep)
+                yield* breaker.recordFailure(ep)
+
+                const state = yield* breaker.getState(ep)
+                expect(state._tag).toBe("Open")
+                expect(state.failures).toBe(2)
+
+                yield* TestClock.adjust("5 seconds")
+                const result = yield* breaker.allowRequest(ep).pipe(Effect.either)
+                expect(result._tag).toBe("Left")
+            }).pipe(Effect.provide(makeCircuitBreaker({ failureThreshold: 1, cooldown: "10 seconds" }))),
+        )
+
+        it.effect("tracks endpoints independently", () =>
+            Effect.gen(function* () {
+                const breaker = yield* CircuitBreaker
+                const other = endpoint("https://other.example.com")
+
+                yield* breaker.recordFailure(ep)
+
+                expect((yield* breaker.getState(ep))._tag).toBe("Open")
+                expect((yield* breaker.getState(other))._tag).toBe("Closed")
+            }).pipe(Effect.provide(makeCircuitBreaker({ failureThreshold: 1 }))),
+        )
+
+        it.effect("reports state transitions", () =>
+            Effect.gen(function* () {
+                const transitions = yield* Ref.make<ReadonlyArray<CircuitTransition>>([])
+                const layer = makeCircuitBreaker({
+                    failureThreshold: 1,
+                    cooldown: "10 seconds",
+                    onStateChange: (transition) => Ref.update(transitions, (ts) => [...ts, transition]),
+                })
+
+                yield* Effect.gen(function* () {
+                    const breaker = yield* CircuitBreaker
+                    yield* breaker.recordFailure(ep)
+                    yield* TestClock.adjust("10 seconds")
+                    yield* breaker.allowRequest(ep)
+                    yield* breaker.recordSuccess(ep)
+                }).pipe(Effect.provide(layer))
+
+                const recorded = yield* Ref.get(transitions)
+                expect(recorded.map((t) => `${t.from._tag}->${t.to._tag}`)).toEqual([
+                    "Closed->Open",
+                    "Open->HalfOpen",
+                    "HalfOpen->Closed",
+                ])
+                expect(recorded[1]?.at.getTime()).toBe(10_000)
+            }),
+        )
+
+        it("keeps state across separate provisions of the same layer", async () => {
+            const layer = makeCircuitBreaker({ failureThreshold: 1 })
+
+            await Effect.runPromise(
+                Effect.flatMap(CircuitBreaker, (breaker) => breaker.recordFailure(ep)).pipe(
+                    Effect.provide(layer),
+                ),
+            )
+
+            const state = await Effect.runPromise(
+                Effect.flatMap(CircuitBreaker, (breaker) => breaker.getState(ep)).pipe(
+                    Effect.provide(layer),
+                ),
+            )
+
+            expect(state._tag).toBe("Open")
+        })
+    })
+
+    describe("with availability methods", () => {
+        it("skips endpoints with an open circuit", async () => {
+            const dead = endpoint("http://localhost:59999")
+            const alsoDead = endpoint("http://localhost:59998")
+            const layer = makeCircuitBreaker({ failureThreshold: 1, cooldown: "1 minute" })
+
+            const first = await Effect.runPromise(
+                failForward([dead, alsoDead], new Request("http://example.com/api/data")).pipe(
+                    Effect.either,
+                    Effect.provide(layer),
+                ),
+            )
+            expect(first._tag).toBe("Left")
+
+            const second = await Effect.runPromise(
+                failForward([dead, alsoDead], new Request("http://example.com/api/data")).pipe(
+                    Effect.either,
+                    Effect.provide(layer),
+                ),
+            )
+
+            expect(second._tag).toBe("Left")
+            expect(second._tag === "Left" && second.left._tag).toBe("NoHealthyEndpointsError")
+            if (second._tag === "Left" && second.left._tag === "NoHealthyEndpointsError") {
+                expect(second.left.triedEndpoints).toHaveLength(0)
+                expect(second.left.lastError).toMatchObject({ _tag: "CircuitOpenError" })
+            }
+        })
+
+        it.effect("only takes the half-open probe of the endpoint promise-any forwards to", () =>
+            Effect.gen(function* () {
+                const winner = endpoint("http://localhost:59999")
+                const loser = endpoint("http://localhost:59998")
+                const RacingChecker = Layer.succeed(HealthChecker, {
+                    check: (ep) => (ep.url === winner.url ? Effect.succeed(true) : Effect.never),
+                })
+                const breaker = yield* CircuitBreaker
+
+                yield* breaker.recordFailure(winner)
+                yield* breaker.recordFailure(loser)
+                yield* TestClock.adjust("1 minute")
+
+                const result = yield* promiseAny([winner, loser], new Request("http://example.com/api/data")).pipe(
+                    Effect.either,
+                    Effect.provide(RacingChecker),
+                )
+
+                expect(result._tag).toBe("Left")
+                // The loser is still free to be probed by the next request
+                expect((yield* breaker.getState(loser))._tag).toBe("Open")
+                yield* breaker.allowRequest(loser)
+            }).pipe(Effect.provide(makeCircuitBreaker({ failureThreshold: 1, cooldown: "1 minute" }))),
+        )
+    })
+})
@@ -0,0 +1,57 @@
+/**
+ * Cookies tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { getCookie, serializeCookie } from "../Cookies.js"
+
+describe("Cookies", () => {
+    const request = (cookie?: string) =>
+        new Request("https://example.com", cookie === undefined ? {} : { headers: { Cookie: cookie } })
+
+    describe("getCookie", () => {
+        it("returns undefined without a Cookie header", () => {
+            expect(getCookie(request(), "session")).toBeUndefined()
+        })
+
+        it("finds a cookie among others", () => {
+            expect(getCookie(request("a=1; session=xyz; b=2"), "session")).toBe("xyz")
+        })
+
+        it("does not match cookie names by prefix", () => {
+            expect(getCookie(request("session_id=1"), "session")).toBeUndefined()
+        })
+
+        it("decodes percent-encoded values and keeps malformed ones", () => {
+            expect(getCookie(request("v=a%3Db"), "v")).toBe("a=b")
+            expect(getCookie(request("v=100%"), "v")).toBe("100%")
+        })
+
+        it("keeps = characters in values", () => {
+            expect(getCookie(request("token=abc=="), "token")).toBe("abc==")
+        })
+    })
+
+    describe("serializeCookie", () => {
+        it("encodes the value", () => {
+            expect(serializeCookie("v", "a b;c")).toBe("v=a%20b%3Bc")
+        })
+
+        it("adds attributes", () => {
+            expect(
+                serializeCookie("session", "xyz", {
+                    maxAgeSeconds: 60.5,
+                    domain: "example.com",
+                    path: "/",
+                    secure: true,
+                    httpOnly: true,
+                    sameSite: "Lax",
+                }),
+            ).toBe("session=xyz; Max-Age=60; Domain=example.com; Path=/; Secure; HttpOnly; SameSite=Lax")
+        })
+
+        it("round-trips through getCookie", () => {
+            const cookie = serializeCookie("v", "a=b; c").split(";")[0]!
+            expect(getCookie(new Request("https://example.com", { headers: { Cookie: cookie } }), "v")).toBe("a=b; c")
+        })
+    })
+})
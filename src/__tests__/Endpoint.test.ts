@@ -114,6 +114,30 @@ describe("Endpoint", () => {
         })
     })
 
+    describe("healthCheck", () => {
+        it("is undefined by default", () => {
+            expect(endpoint("https://api.example.com").healthCheck).toBeUndefined()
+        })
+
+        it("keeps health check options", () => {
+            const ep = endpoint("https://api.example.com", {
+                healthCheck: { method: "HEAD", expectedStatuses: [200, { min: 300, max: 399 }] },
+            })
+
+            expect(ep.healthCheck?.method).toBe("HEAD")
+            expect(ep.healthCheck?.expectedStatuses).toEqual([200, { min: 300, max: 399 }])
+        })
+
+        it("throws on an unsupported method", () => {
+            expect(() =>
+                new Endpoint({
+                    url: "https://api.example.com",
+                    healthCheck: { method: "DELETE" as "GET" },
+                }),
+            ).toThrow()
+        })
+    })
+
     describe("buildTargetUrl", () => {
         it("builds URL with pathname and search", () => {
             const ep = endpoint("https://api.example.com")
@@ -142,6 +166,15 @@ describe("Endpoint", () => {
 
             expect(targetUrl).toBe("https://api.example.com/v1/users/123/posts?limit=10&offset=0")
         })
+
+        it("applies rewrite rules before joining the base URL", () => {
+            const ep = endpoint("https://users.internal/v2", {
+                rewrite: [{ type: "strip-prefix", prefix: "/v2" }],
+            })
+            const targetUrl = ep.buildTargetUrl("/v2/users/123", "")
+
+            expect(targetUrl).toBe("https://users.internal/v2/users/123")
+        })
     })
 
     describe("equality", () => {
@@ -5,6 +5,9 @@ import { describe, expect, it } from "@effect/vitest"
 import { endpoint } from "../Endpoint.js"
 import {
     NoHealthyEndpointsError,
+    DeadlineExceededError,
+    RequestTooLargeError,
+    NoRouteError,
     EndpointUnhealthyError,
     CircuitOpenError,
     RequestForwardError,
@@ -47,6 +50,15 @@ describe("Errors", () => {
             expect(error.message).toContain("https://api2.example.com")
         })
 
+        it("mentions a refused failover in the message", () => {
+            const error = new NoHealthyEndpointsError({
+                triedEndpoints: [endpoint("https://api1.example.com")],
+                failoverDecision: { allowed: false, reason: "non-idempotent", method: "POST" },
+            })
+
+            expect(error.message).toContain("failover refused: non-idempotent POST")
+        })
+
         it("generates message when no endpoints tried", () => {
             const error = new NoHealthyEndpointsError({
                 triedEndpoints: [],
@@ -57,6 +69,52 @@ describe("Errors", () => {
         })
     })
 
+    describe("DeadlineExceededError", () => {
+        it("creates error with the deadline and tried endpoints", () => {
+            const error = new DeadlineExceededError({
+                deadlineMs: 2000,
+                triedEndpoints: [testEndpoint],
+            })
+
+            expect(error._tag).toBe("DeadlineExceededError")
+            expect(error.deadlineMs).toBe(2000)
+            expect(error.triedEndpoints).toHaveLength(1)
+        })
+
+        it("generates descriptive message", () => {
+            const error = new DeadlineExceededError({
+                deadlineMs: 2000,
+                triedEndpoints: [testEndpoint],
+            })
+
+            expect(error.message).toBe("Request deadline of 2000ms exceeded. Tried: https://api.example.com")
+        })
+    })
+
+    describe("RequestTooLargeError", () => {
+        it("generates message with the limit", () => {
+            const error = new RequestTooLargeError({ maxBytes: 1024 })
+
+            expect(error._tag).toBe("RequestTooLargeError")
+            expect(error.message).toBe("Request body exceeds the limit of 1024 bytes")
+        })
+
+        it("mentions the declared Content-Length", () => {
+            const error = new RequestTooLargeError({ maxBytes: 1024, contentLength: 4096 })
+
+            expect(error.message).toBe("Request body exceeds the limit of 1024 bytes (Content-Length: 4096)")
+        })
+    })
+
+    describe("NoRouteError", () => {
+        it("generates message with the method and URL", () => {
+            const error = new NoRouteError({ method: "GET", url: "https://example.com/unknown" })
+
+            expect(error._tag).toBe("NoRouteError")
+            expect(error.message).toBe("No route matches GET https://example.com/unknown")
+        })
+    })
+
     describe("EndpointUnhealthyError", () => {
         it("creates timeout error", () => {
             const error = new EndpointUnhealthyError({
@@ -92,6 +150,18 @@ describe("Errors", () => {
             expect(error.reason).toBe("network")
             expect(error.message).toContain("network error")
         })
+
+        it("creates body mismatch error", () => {
+            const error = new EndpointUnhealthyError({
+                endpoint: testEndpoint,
+                reason: "body",
+                statusCode: 200,
+                detail: 'body does not contain "ok"',
+            })
+
+            expect(error.reason).toBe("body")
+            expect(error.message).toContain('health check body mismatch: body does not contain "ok"')
+        })
     })
 
     describe("CircuitOpenError", () => {
@@ -0,0 +1,125 @@
+/**
+ * FailoverPolicy tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { endpoint } from "../Endpoint.js"
+import { RequestForwardError } from "../Errors.js"
+import { decideFailover, decideReplay, isConnectFailure } from "../FailoverPolicy.js"
+
+describe("FailoverPolicy", () => {
+    const ep = endpoint("https://api.example.com")
+
+    const connectionRefused = new RequestForwardError({
+        endpoint: ep,
+        cause: Object.assign(new TypeError("fetch failed"), {
+            cause: Object.assign(new Error("connect ECONNREFUSED 127.0.0.1:3000"), {
+                code: "ECONNREFUSED",
+            }),
+        }),
+    })
+
+    const connectionReset = new RequestForwardError({
+        endpoint: ep,
+        cause: Object.assign(new TypeError("fetch failed"), {
+            cause: Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }),
+        }),
+    })
+
+    const request = (method: string, headers?: Record<string, string>) =>
+        new Request("https://example.com/orders", { method, ...(headers && { headers }) })
+
+    describe("isConnectFailure", () => {
+        it("detects connection errors in the cause chain", () => {
+            expect(isConnectFailure(connectionRefused)).toBe(true)
+        })
+
+        it("does not treat errors after connecting as connection failures", () => {
+            expect(isConnectFailure(connectionReset)).toBe(false)
+        })
+
+        it("handles causes without codes", () => {
+            expect(isConnectFailure(new RequestForwardError({ endpoint: ep, cause: "boom" }))).toBe(false)
+            expect(isConnectFailure(new RequestForwardError({ endpoint: ep, cause: new Error("x") }))).toBe(false)
+        })
+    })
+
+    describe("decideReplay", () => {
+        it("allows idempotent methods", () => {
+            for (const method of ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]) {
+                expect(decideReplay(request(method))).toEqual({
+                    allowed: true,
+                    reason: "idempotent-method",
+                    method,
+                })
+            }
+        })
+
+        it("refuses non-idempotent methods", () => {
+            expect(decideReplay(request("POST"))).toEqual({
+                allowed: false,
+                reason: "non-idempotent",
+                method: "POST",
+            })
+            expect(decideReplay(request("PATCH")).allowed).toBe(false)
+        })
+
+        it("allows requests with an Idempotency-Key header", () => {
+            const decision = decideReplay(request("POST", { "Idempotency-Key": "order-123" }))
+
+            expect(decision).toEqual({ allowed: true, reason: "idempotency-key", method: "POST" })
+        })
+
+        it("supports a custom idempotency key header", () => {
+            const policy = { idempotencyKeyHeader: "X-Request-Id" }
+
+            expect(decideReplay(request("POST", { "X-Request-Id": "abc" }), policy).allowed).toBe(true)
+            expect(decideReplay(request("POST", { "Idempotency-Key": "abc" }), policy).allowed).toBe(false)
+        })
+
+        it("supports custom idempotent methods", () => {
+            const policy = { idempotentMethods: ["GET"] }
+
+            expect(decideReplay(request("DELETE"), policy).allowed).toBe(false)
+            expect(decideReplay(request("get"), policy).allowed).toBe(true)
+        })
+
+        it("allows everything with allowNonIdempotent", () => {
+            expect(decideReplay(request("POST"), { allowNonIdempotent: true })).toEqual({
+                allowed: true,
+                reason: "allow-non-idempotent",
+                method: "POST",
+            })
+        })
+    })
+
+    describe("decideFailover", () => {
+        it("allows non-idempotent requests that never reached the backend", () => {
+            expect(decideFailover(request("POST"), connectionRefused)).toEqual({
+                allowed: true,
+                reason: "not-delivered",
+                method: "POST",
+            })
+        })
+
+        it("refuses non-idempotent requests that may have reached the backend", () => {
+            expect(decideFailover(request("POST"), connectionReset).allowed).toBe(false)
+            expect(decideFailover(request("POST"), 503).allowed).toBe(false)
+        })
+
+        it("allows idempotent requests on any failure", () => {
+            expect(decideFailover(request("GET"), 503).allowed).toBe(true)
+            expect(decideFailover(request("PUT"), connectionReset).allowed).toBe(true)
+        })
+
+        it("refuses requests whose streamed body cannot be sent again", () => {
+            expect(decideFailover(request("GET"), 503, undefined, false)).toEqual({
+                allowed: false,
+                reason: "body-streamed",
+                method: "GET",
+            })
+            expect(decideFailover(request("POST"), connectionRefused, undefined, false).reason).toBe("body-streamed")
+            // The failover policy's own refusal is reported first
+            expect(decideFailover(request("POST"), 503, undefined, false).reason).toBe("non-idempotent")
+        })
+    })
+})
@@ -1,13 +1,17 @@
 /**
  * Forward request tests
  */
-import { afterAll, beforeAll, describe, expect, it } from "@effect/vitest"
-import { Effect } from "effect"
-import { endpoint } from "../Endpoint.js"
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "@effect/vitest"
+import { Chunk, Duration, Effect, Ref, Schedule } from "effect"
+import { endpoint, type Endpoint } from "../Endpoint.js"
 import {
     forwardRequest,
+    forwardRequestWithRetry,
     bufferRequestBody,
+    isBodyReplayable,
     methodSupportsBody,
+    retrySchedule,
+    streamRequestBody,
     type BufferedBody,
 } from "../Forward.js"
 import { createTestServer, stopTestServers, type TestServer } from "./test-servers.js"
@@ -111,6 +115,44 @@ describe("Forward", () => {
             }),
         )
 
+        it.effect("rejects a body whose Content-Length exceeds the limit without reading it", () =>
+            Effect.gen(function* () {
+                const request = new Request("https://example.com/test", {
+                    method: "POST",
+                    body: "0123456789",
+                    headers: { "Content-Length": "10" },
+                })
+
+                const error = yield* bufferRequestBody(request, 4).pipe(Effect.flip)
+
+                expect(error._tag).toBe("RequestTooLargeError")
+                if (error._tag === "RequestTooLargeError") {
+                    expect(error.contentLength).toBe(10)
+                }
+                expect(request.bodyUsed).toBe(false)
+            }),
+        )
+
+        it.effect("stops reading a body once it exceeds the limit", () =>
+            Effect.gen(function* () {
+                const request = new Request("https://example.com/test", { method: "POST", body: "0123456789" })
+
+                const error = yield* bufferRequestBody(request, 4).pipe(Effect.flip)
+
+                expect(error._tag).toBe("RequestTooLargeError")
+            }),
+        )
+
+        it.effect("buffers a body within the limit", () =>
+            Effect.gen(function* () {
+                const request = new Request("https://example.com/test", { method: "POST", body: "0123" })
+
+                const body = yield* bufferRequestBody(request, 4)
+
+                expect(new TextDecoder().decode(body as ArrayBuffer)).toBe("0123")
+            }),
+        )
+
         it.effect("returns null for POST without body", () =>
             Effect.gen(function* () {
                 const request = new Request("https://example.com/test", {
@@ -124,6 +166,78 @@ describe("Forward", () => {
         )
     })
 
+    describe("streamRequestBody", () => {
+        const post = (body: string) => new Request("https://example.com/test", { method: "POST", body })
+
+        it.effect("returns null for GET requests", () =>
+            Effect.gen(function* () {
+                const body = yield* streamRequestBody(new Request("https://example.com/test"))
+
+                expect(body).toBeNull()
+            }),
+        )
+
+        it.effect("streams the body first and replays the copy afterwards", () =>
+            Effect.gen(function* () {
+                const body = yield* streamRequestBody(post("hello world"))
+                if (body === null) return expect.unreachable()
+
+                const first = yield* body.take
+                expect(first).toBeInstanceOf(ReadableStream)
+                expect(yield* Effect.promise(() => new Response(first).text())).toBe("hello world")
+
+                expect(yield* body.replayable).toBe(true)
+                const second = yield* body.take
+                expect(second).toBeInstanceOf(ArrayBuffer)
+                expect(new TextDecoder().decode(second as ArrayBuffer)).toBe("hello world")
+            }),
+        )
+
+        it.effect("drops the copy once it exceeds the buffer limit", () =>
+            Effect.gen(function* () {
+                const body = yield* streamRequestBody(post("hello world"), 4)
+                if (body === null) return expect.unreachable()
+
+                const first = yield* body.take
+                expect(yield* Effect.promise(() => new Response(first).text())).toBe("hello world")
+
+                expect(yield* isBodyReplayable(body)).toBe(false)
+                const second = yield* body.take.pipe(Effect.flip)
+                expect(second._tag).toBe("BodyNotReplayable")
+                expect(second.maxBufferBytes).toBe(4)
+            }),
+        )
+
+        it.effect("aborts the stream once the body exceeds the size limit", () =>
+            Effect.gen(function* () {
+                const body = yield* streamRequestBody(post("hello world"), 64, 4)
+                if (body === null) return expect.unreachable()
+
+                const stream = yield* body.take
+                const read = yield* Effect.tryPromise(() => new Response(stream).text()).pipe(Effect.either)
+
+                expect(read._tag).toBe("Left")
+                expect(yield* body.replayable).toBe(false)
+                const error = yield* body.withinLimit.pipe(Effect.flip)
+                expect(error.maxBytes).toBe(4)
+            }),
+        )
+
+        it.effect("rejects a streamed body whose Content-Length exceeds the limit", () =>
+            Effect.gen(function* () {
+                const request = new Request("https://example.com/test", {
+                    method: "POST",
+                    body: "hello world",
+                    headers: { "Content-Length": "11" },
+                })
+
+                const error = yield* streamRequestBody(request, 64, 4).pipe(Effect.flip)
+
+                expect(error.contentLength).toBe(11)
+            }),
+        )
+    })
+
     describe("forwardRequest", () => {
         it.effect("forwards GET request to endpoint", () =>
             Effect.gen(function* () {
@@ -170,6 +284,102 @@ describe("Forward", () => {
             }),
         )
 
+        it.effect("strips hop-by-hop headers in both directions", () =>
+            Effect.gen(function* () {
+                const ep = endpoint(server.url)
+                const request = new Request(`${server.url}/headers`, {
+                    headers: { "Connection": "X-Session", "X-Session": "abc", "TE": "trailers", "X-Kept": "yes" },
+                })
+
+                const response = yield* forwardRequest(ep, request)
+                const body = (yield* Effect.promise(() => response.json())) as {
+                    headers: Record<string, string>
+                }
+
+                expect(body.headers["x-kept"]).toBe("yes")
+                expect(body.headers["x-session"]).toBeUndefined()
+                expect(body.headers["te"]).toBeUndefined()
+                expect(response.headers.has("Keep-Alive")).toBe(false)
+                expect(response.headers.has("Connection")).toBe(false)
+                expect(response.headers.has("X-Internal")).toBe(false)
+            }),
+        )
+
+        describe("host header", () => {
+            const receivedHost = (ep: Endpoint, url: string) =>
+                Effect.gen(function* () {
+                    const response = yield* forwardRequest(ep, new Request(url))
+                    const body = (yield* Effect.promise(() => response.json())) as {
+                        headers: Record<string, string>
+                    }
+                    return body.headers["host"]
+                })
+
+            it.effect("sends the endpoint host by default", () =>
+                Effect.gen(function* () {
+                    const host = yield* receivedHost(endpoint("http://127.0.0.1:3010"), "http://localhost/headers")
+
+                    expect(host).toBe("127.0.0.1:3010")
+                }),
+            )
+
+            it.effect("sends the endpoint host outside Workers, whatever the preserved host resolves to", () =>
+                Effect.gen(function* () {
+                    const ep = endpoint("http://127.0.0.1:3010", { hostHeader: "preserve" })
+                    const host = yield* receivedHost(ep, "http://public.example.invalid/headers")
+
+                    expect(host).toBe("127.0.0.1:3010")
+                }),
+            )
+
+            describe("on Workers", () => {
+                // Node ignores `cf.resolveOverride`; these hosts resolve to the test server anyway
+                beforeEach(() => {
+                    vi.stubGlobal("navigator", { userAgent: "Cloudflare-Workers" })
+                })
+
+                afterEach(() => {
+                    vi.unstubAllGlobals()
+                })
+
+                it.effect("preserves the incoming host name", () =>
+                    Effect.gen(function* () {
+                        const ep = endpoint("http://127.0.0.1:3010", { hostHeader: "preserve" })
+                        const host = yield* receivedHost(ep, "http://localhost/headers")
+
+                        expect(host).toBe("localhost:3010")
+                    }),
+                )
+
+                it.effect("sends the override", () =>
+                    Effect.gen(function* () {
+                        const ep = endpoint("http://127.0.0.1:3010", { hostHeader: { override: "localhost" } })
+                        const host = yield* receivedHost(ep, "https://public.example.com/headers")
+
+                        expect(host).toBe("localhost:3010")
+                    }),
+                )
+            })
+        })
+
+        it.effect("sends the rewritten path and query", () =>
+            Effect.gen(function* () {
+                const ep = endpoint(server.url, {
+                    rewrite: [
+                        { type: "strip-prefix", prefix: "/public" },
+                        { type: "remove-query", params: ["debug"] },
+                        { type: "set-query", params: { source: "lb" } },
+                    ],
+                })
+                const request = new Request("https://example.com/public/headers?id=1&debug=true")
+
+                const response = yield* forwardRequest(ep, request)
+                const body = (yield* Effect.promise(() => response.json())) as { url: string }
+
+                expect(body.url).toBe("/headers?id=1&source=lb")
+            }),
+        )
+
         it.effect("fails with RequestForwardError on network error", () =>
             Effect.gen(function* () {
                 const ep = endpoint("http://localhost:59999")
@@ -233,5 +443,168 @@ describe("Forward", () => {
             }),
         )
     })
-})
 
+    describe("retrySchedule", () => {
+        const delaysOf = (schedule: ReturnType<typeof retrySchedule>, attempts: number) =>
+            Schedule.run(Schedule.delays(schedule), 0, Array.from({ length: attempts }, () => undefined)).pipe(
+                Effect.map((delays) => Chunk.toReadonlyArray(delays).map(Duration.toMillis)),
+            )
+
+        it.effect("backs off exponentially", () =>
+            Effect.gen(function* () {
+                const delays = yield* delaysOf(
+                    retrySchedule({ maxRetries: 4, initialDelay: "100 millis", factor: 2 }),
+                    4,
+                )
+
+                expect(delays).toEqual([100, 200, 400, 800])
+            }),
+        )
+
+        it.effect("caps delays at maxDelay", () =>
+            Effect.gen(function* () {
+                const delays = yield* delaysOf(
+                    retrySchedule({ maxRetries: 4, initialDelay: "100 millis", maxDelay: "300 millis" }),
+                    4,
+                )
+
+                expect(delays).toEqual([100, 200, 300, 300])
+            }),
+        )
+
+        it.live("stops after maxRetries", () =>
+            Effect.gen(function* () {
+                const attempts = yield* Ref.make(0)
+
+                yield* Ref.update(attempts, (n) => n + 1).pipe(
+                    Effect.zipRight(Effect.fail("boom")),
+                    Effect.retry(retrySchedule({ maxRetries: 2, initialDelay: "1 millis" })),
+                    Effect.ignore,
+                )
+
+                expect(yield* Ref.get(attempts)).toBe(3)
+            }),
+        )
+
+        it.effect("randomizes delays with jitter", () =>
+            Effect.gen(function* () {
+                const delays = yield* delaysOf(
+                    retrySchedule({ maxRetries: 3, initialDelay: "1 second", maxDelay: "10 seconds", jitter: true }),
+                    3,
+                )
+
+                expect(delays[0]).toBeGreaterThanOrEqual(800)
+                expect(delays[0]).toBeLessThanOrEqual(1200)
+                expect(delays[2]).toBeGreaterThanOrEqual(3200)
+                expect(delays[2]).toBeLessThanOrEqual(4800)
+            }),
+        )
+    })
+
+    describe("forwardRequestWithRetry", () => {
+        it("does not retry without a retry policy", async () => {
+            const ep = endpoint(server.url)
+            const request = new Request(`${server.url}/flaky?key=no-policy&fail=1`)
+
+            const response = await Effect.runPromise(forwardRequestWithRetry(ep, request))
+
+            expect(response.status).toBe(503)
+        })
+
+        it("retries responses with a retryable status", async () => {
+            const ep = endpoint(server.url)
+            const request = new Request(`${server.url}/flaky?key=retry-status&fail=2`)
+
+            const response = await Effect.runPromise(
+                forwardRequestWithRetry(ep, request, null, {
+                    maxRetries: 3,
+                    initialDelay: "10 millis",
+                    retryOnStatuses: [503],
+                }),
+            )
+
+            expect(response.status).toBe(200)
+            const body = (await response.json()) as { attempt: number }
+            expect(body.attempt).toBe(3)
+        })
+
+        it("returns the last retryable response when retries run out", async () => {
+            const ep = endpoint(server.url)
+            const request = new Request(`${server.url}/flaky?key=exhausted&fail=10`)
+
+            const response = await Effect.runPromise(
+                forwardRequestWithRetry(ep, request, null, {
+                    maxRetries: 2,
+                    initialDelay: "10 millis",
+                    retryOnStatuses: [503],
+                }),
+            )
+
+            expect(response.status).toBe(503)
+            const body = (await response.json()) as { attempt: number }
+            expect(body.attempt).toBe(3)
+        })
+
+        it("does not retry statuses that are not listed", async () => {
+            const ep = endpoint(server.url)
+            const request = new Request(`${server.url}/flaky?key=not-listed&fail=1`)
+
+            const response = await Effect.runPromise(
+                forwardRequestWithRetry(ep, request, null, { maxRetries: 3, initialDelay: "10 millis" }),
+            )
+
+            expect(response.status).toBe(503)
+        })
+
+        it("forwards a streamed body", async () => {
+            const request = new Request(`${server.url}/api/echo`, {
+                method: "POST",
+                body: JSON.stringify({ streamed: true }),
+            })
+            const body = await Effect.runPromise(streamRequestBody(request))
+
+            const response = await Effect.runPromise(forwardRequestWithRetry(endpoint(server.url), request, body))
+
+            const json = (await response.json()) as { echo: unknown }
+            expect(json.echo).toEqual({ streamed: true })
+        })
+
+        it("does not retry a streamed body larger than the buffer limit", async () => {
+            const request = new Request(`${server.url}/flaky?key=streamed&fail=1`, {
+                method: "POST",
+                body: "a body that does not fit",
+            })
+            const body = await Effect.runPromise(streamRequestBody(request, 8))
+
+            const response = await Effect.runPromise(
+                forwardRequestWithRetry(endpoint(server.url), request, body, {
+                    maxRetries: 2,
+                    initialDelay: "10 millis",
+                    retryOnStatuses: [503],
+                }),
+            )
+
+            expect(response.status).toBe(503)
+        })
+
+        it("retries network errors and fails with RequestForwardError", async () => {
+            const ep = endpoint("http://localhost:59999")
+            const request = new Request("http://localhost:59999/test")
+            const start = Date.now()
+
+            const result = await Effect.runPromise(
+                forwardRequestWithRetry(ep, request, null, {
+                    maxRetries: 2,
+                    initialDelay: "50 millis",
+                }).pipe(Effect.either),
+            )
+
+            expect(result._tag).toBe("Left")
+            if (result._tag === "Left") {
+                expect(result.left._tag).toBe("RequestForwardError")
+            }
+            // 50ms + 100ms of backoff
+            expect(Date.now() - start).toBeGreaterThanOrEqual(140)
+        })
+    })
+})
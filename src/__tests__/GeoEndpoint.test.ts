@@ -101,6 +101,20 @@ describe("GeoEndpoint", () => {
             // Endpoint should not have geo property
             expect("geo" in ep).toBe(false)
         })
+
+        it("keeps the host header and rewrite rules", () => {
+            const ep = geoEndpoint(
+                "https://eu.origin.example.net",
+                { type: "continent", continents: ["EU"] },
+                {
+                    hostHeader: "preserve",
+                    rewrite: [{ type: "strip-prefix", prefix: "/api" }],
+                },
+            ).toEndpoint()
+
+            expect(ep.hostHeader).toBe("preserve")
+            expect(ep.buildTargetUrl("/api/users", "")).toBe("https://eu.origin.example.net/users")
+        })
     })
 
     describe("normalizedUrl", () => {
@@ -0,0 +1,120 @@
+/**
+ * HashSteering tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { endpoint } from "../Endpoint.js"
+import { extractHashKey, selectHashEndpoints } from "../HashSteering.js"
+
+describe("HashSteering", () => {
+    const a = endpoint("https://a.example.com")
+    const b = endpoint("https://b.example.com")
+    const c = endpoint("https://c.example.com")
+    const d = endpoint("https://d.example.com")
+
+    const keys = Array.from({ length: 2000 }, (_, i) => `tenant-${i}`)
+    const primary = (endpoints: Parameters<typeof selectHashEndpoints>[0], key: string) =>
+        selectHashEndpoints(endpoints, key)[0]!.url
+
+    describe("extractHashKey", () => {
+        const request = new Request("https://lb.example.com/rooms/42?room=lobby", {
+            headers: {
+                "X-Tenant-Id": "acme",
+                Cookie: "theme=dark; session=abc%20123",
+                "X-Forwarded-For": "198.51.100.7, 10.0.0.1",
+            },
+        })
+
+        it("reads headers, cookies, query parameters and the path", () => {
+            expect(extractHashKey(request, { type: "header", name: "x-tenant-id" })).toBe("acme")
+            expect(extractHashKey(request, { type: "cookie", name: "session" })).toBe("abc 123")
+            expect(extractHashKey(request, { type: "query", name: "room" })).toBe("lobby")
+            expect(extractHashKey(request, { type: "path" })).toBe("/rooms/42")
+        })
+
+        it("returns undefined when the key is missing", () => {
+            expect(extractHashKey(request, { type: "header", name: "X-Missing" })).toBeUndefined()
+            expect(extractHashKey(request, { type: "cookie", name: "missing" })).toBeUndefined()
+            expect(extractHashKey(request, { type: "query", name: "missing" })).toBeUndefined()
+            expect(extractHashKey(new Request("https://lb.example.com"), { type: "ip" })).toBeUndefined()
+        })
+
+        it("prefers CF-Connecting-IP for the client IP", () => {
+            expect(extractHashKey(request, { type: "ip" })).toBe("198.51.100.7")
+            expect(
+                extractHashKey(
+                    new Request("https://lb.example.com", {
+                        headers: { "CF-Connecting-IP": "203.0.113.9", "X-Forwarded-For": "198.51.100.7" },
+                    }),
+                    { type: "ip" },
+                ),
+            ).toBe("203.0.113.9")
+        })
+    })
+
+    describe("selectHashEndpoints", () => {
+        it("returns empty array for no endpoints", () => {
+            expect(selectHashEndpoints([], "key")).toEqual([])
+        })
+
+        it("returns the same order for the same key", () => {
+            const first = selectHashEndpoints([a, b, c], "tenant-1").map((ep) => ep.url)
+
+            expect(selectHashEndpoints([c, a, b], "tenant-1").map((ep) => ep.url)).toEqual(first)
+            expect(new Set(first).size).toBe(3)
+        })
+
+        it("spreads keys across endpoints proportionally to weight", () => {
+            const heavy = endpoint("https://heavy.example.com", { weight: 3 })
+            const counts = new Map<string, number>()
+            for (const key of keys) {
+                const url = primary([heavy, a], key)
+                counts.set(url, (counts.get(url) ?? 0) + 1)
+            }
+
+            // Expected 75% / 25%
+            expect(counts.get(heavy.url)! / keys.length).toBeGreaterThan(0.7)
+            expect(counts.get(heavy.url)! / keys.length).toBeLessThan(0.8)
+        })
+
+        it("uses effective weights when given", () => {
+            const heavy = endpoint("https://heavy.example.com", { weight: 3 })
+            let heavyFirst = 0
+            for (const key of keys) {
+                if (selectHashEndpoints([heavy, a], key, [1, 3])[0]!.url === heavy.url) heavyFirst++
+            }
+
+            // Expected 25% / 75%
+            expect(heavyFirst / keys.length).toBeGreaterThan(0.2)
+            expect(heavyFirst / keys.length).toBeLessThan(0.3)
+        })
+
+        it("only moves the keys of a removed endpoint", () => {
+            const before = keys.map((key) => primary([a, b, c, d], key))
+            const after = keys.map((key) => primary([a, b, c], key))
+
+            for (const [i, url] of before.entries()) {
+                if (url !== d.url) expect(after[i]).toBe(url)
+            }
+        })
+
+        it("moves keys of a removed endpoint to their next endpoint in hash order", () => {
+            for (const key of keys.slice(0, 200)) {
+                const order = selectHashEndpoints([a, b, c, d], key).map((ep) => ep.url)
+                if (order[0] === d.url) {
+                    expect(primary([a, b, c], key)).toBe(order[1])
+                }
+            }
+        })
+
+        it("only moves keys to an added endpoint", () => {
+            const before = keys.map((key) => primary([a, b, c], key))
+            const after = keys.map((key) => primary([a, b, c, d], key))
+
+            const moved = before.filter((url, i) => after[i] !== url)
+            expect(after.filter((url, i) => url !== before[i]).every((url) => url === d.url)).toBe(true)
+            // Roughly a quarter of the keys move to the new endpoint
+            expect(moved.length / keys.length).toBeGreaterThan(0.2)
+            expect(moved.length / keys.length).toBeLessThan(0.3)
+        })
+    })
+})
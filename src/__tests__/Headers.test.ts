@@ -3,7 +3,7 @@
  */
 import { describe, expect, it } from "@effect/vitest"
 import { endpoint } from "../Endpoint.js"
-import { HEADERS, addLoadBalancerHeaders } from "../Headers.js"
+import { HEADERS, addLoadBalancerHeaders, addRouteHeader } from "../Headers.js"
 
 describe("Headers", () => {
     describe("HEADERS constants", () => {
@@ -13,6 +13,8 @@ describe("Headers", () => {
             expect(HEADERS.GATHER_LATENCY).toBe("X-Load-Balancer-Endpoint-Gather-Latency")
             expect(HEADERS.TRIED_COUNT).toBe("X-Load-Balancer-Tried-Count")
             expect(HEADERS.TRIED_ENDPOINTS).toBe("X-Load-Balancer-Tried-Endpoints")
+            expect(HEADERS.HEDGED).toBe("X-Load-Balancer-Hedged")
+            expect(HEADERS.ROUTE).toBe("X-Load-Balancer-Route")
         })
     })
 
@@ -113,6 +115,27 @@ describe("Headers", () => {
             })
         })
 
+        describe("hedge header", () => {
+            it("is only added when a hedge was sent", () => {
+                const ep = endpoint("https://api.example.com")
+
+                const result = addLoadBalancerHeaders(createMockResponse(), ep, [ep], 1000, 1050)
+
+                expect(result.headers.has(HEADERS.HEDGED)).toBe(false)
+            })
+
+            it("tells whether the hedge won", () => {
+                const ep1 = endpoint("https://api1.example.com")
+                const ep2 = endpoint("https://api2.example.com")
+
+                const won = addLoadBalancerHeaders(createMockResponse(), ep2, [ep1, ep2], 1000, 1050, true)
+                const lost = addLoadBalancerHeaders(createMockResponse(), ep1, [ep1, ep2], 1000, 1050, false)
+
+                expect(won.headers.get(HEADERS.HEDGED)).toBe("true")
+                expect(lost.headers.get(HEADERS.HEDGED)).toBe("false")
+            })
+        })
+
         it("creates a new Response object (immutable)", async () => {
             const ep = endpoint("https://api.example.com")
             const original = createMockResponse()
@@ -125,4 +148,16 @@ describe("Headers", () => {
             expect(resultBody).toBe(originalBody)
         })
     })
+
+    describe("addRouteHeader", () => {
+        it("adds the route name and keeps the response", async () => {
+            const response = new Response("ok", { status: 201, headers: { "X-Custom": "value" } })
+            const result = addRouteHeader(response, "users")
+
+            expect(result.headers.get(HEADERS.ROUTE)).toBe("users")
+            expect(result.headers.get("X-Custom")).toBe("value")
+            expect(result.status).toBe(201)
+            expect(await result.text()).toBe("ok")
+        })
+    })
 })
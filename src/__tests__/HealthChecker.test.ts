@@ -1,11 +1,22 @@
 /**
  * HealthChecker service tests
  */
-import { describe, expect, it } from "@effect/vitest"
-import { Effect, Layer } from "effect"
-import { endpoint } from "../Endpoint.js"
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "@effect/vitest"
+import { Effect, Layer, Schema } from "effect"
+import { Endpoint, endpoint } from "../Endpoint.js"
 import { EndpointUnhealthyError } from "../Errors.js"
-import { HealthChecker, HealthCheckerLive, HealthCheckerTest } from "../HealthChecker.js"
+import { geoEndpoint } from "../GeoEndpoint.js"
+import {
+    checkHealthBody,
+    HealthChecker,
+    HealthCheckerLive,
+    HealthCheckBodyAssertion,
+    HealthCheckerTest,
+    healthCheckRequestInit,
+    healthCheckTarget,
+    isExpectedHealthStatus,
+} from "../HealthChecker.js"
+import { createTestServer, stopTestServers, type TestServer } from "./test-servers.js"
 
 describe("HealthChecker", () => {
     const testEndpoint = endpoint("https://api.example.com", {
@@ -128,6 +139,306 @@ describe("HealthChecker", () => {
         )
     })
 
+    describe("isExpectedHealthStatus", () => {
+        it("accepts any 2xx by default", () => {
+            expect(isExpectedHealthStatus(200)).toBe(true)
+            expect(isExpectedHealthStatus(204)).toBe(true)
+            expect(isExpectedHealthStatus(301)).toBe(false)
+            expect(isExpectedHealthStatus(503)).toBe(false)
+        })
+
+        it("accepts listed status codes and ranges", () => {
+            const expected = [200, { min: 300, max: 399 }]
+            expect(isExpectedHealthStatus(200, expected)).toBe(true)
+            expect(isExpectedHealthStatus(302, expected)).toBe(true)
+            expect(isExpectedHealthStatus(204, expected)).toBe(false)
+            expect(isExpectedHealthStatus(404, expected)).toBe(false)
+        })
+    })
+
+    describe("checkHealthBody", () => {
+        it("checks for a substring", () => {
+            expect(checkHealthBody("status: ok", { type: "contains", value: "ok" })).toBeNull()
+            expect(checkHealthBody("Bad Gateway", { type: "contains", value: "ok" })).toBe(
+                'body does not contain "ok"',
+            )
+        })
+
+        it("checks against a regex", () => {
+            expect(checkHealthBody("STATUS: OK", { type: "regex", pattern: "status: ok", flags: "i" })).toBeNull()
+            expect(checkHealthBody("status: down", { type: "regex", pattern: "^status: ok$" })).toBe(
+                "body does not match /^status: ok$/",
+            )
+        })
+
+        it("reports a regex that does not compile instead of throwing", () => {
+            expect(checkHealthBody("status: ok", { type: "regex", pattern: "(" })).toMatch(
+                /^body pattern does not compile: /,
+            )
+            expect(checkHealthBody("status: ok", { type: "regex", pattern: "ok", flags: "zz" })).toMatch(
+                /^body pattern does not compile: /,
+            )
+        })
+
+        it("checks a JSON path value", () => {
+            const body = JSON.stringify({ checks: { db: "ok", cache: "down" }, nodes: [{ up: true }] })
+
+            expect(checkHealthBody(body, { type: "json", path: "$.checks.db", equals: "ok" })).toBeNull()
+            expect(checkHealthBody(body, { type: "json", path: "nodes[0].up", equals: true })).toBeNull()
+            expect(checkHealthBody(body, { type: "json", path: "checks.cache", equals: "ok" })).toBe(
+                'checks.cache is "down", expected "ok"',
+            )
+        })
+
+        it("checks that a JSON path exists when no value is expected", () => {
+            const body = JSON.stringify({ status: "ok", error: null })
+
+            expect(checkHealthBody(body, { type: "json", path: "status" })).toBeNull()
+            expect(checkHealthBody(body, { type: "json", path: "error" })).toBe("error is missing")
+            expect(checkHealthBody(body, { type: "json", path: "a.b.c" })).toBe("a.b.c is missing")
+        })
+
+        it("fails a JSON assertion on a non-JSON body", () => {
+            expect(checkHealthBody("<html></html>", { type: "json", path: "status" })).toBe("body is not JSON")
+        })
+    })
+
+    describe("HealthCheckBodyAssertion", () => {
+        it("rejects a regex pattern or flags that do not compile", () => {
+            const decode = Schema.decodeUnknownEither(HealthCheckBodyAssertion)
+
+            expect(decode({ type: "regex", pattern: "^ok$", flags: "i" })._tag).toBe("Right")
+            expect(decode({ type: "regex", pattern: "(" })._tag).toBe("Left")
+            expect(decode({ type: "regex", pattern: "ok", flags: "zz" })._tag).toBe("Left")
+        })
+    })
+
+    describe("healthCheckRequestInit", () => {
+        it("defaults to a plain GET", () => {
+            const init = healthCheckRequestInit(testEndpoint)
+
+            expect(init.method).toBe("GET")
+            expect([...new Headers(init.headers).keys()]).toEqual([])
+            expect(init.body).toBeUndefined()
+        })
+
+        it("uses the endpoint's method, headers and body", () => {
+            const init = healthCheckRequestInit(
+                endpoint("https://api.example.com", {
+                    healthCheck: {
+                        method: "POST",
+                        headers: { Authorization: "Bearer secret" },
+                        body: "{}",
+                    },
+                }),
+            )
+            const headers = new Headers(init.headers)
+
+            expect(init.method).toBe("POST")
+            expect(headers.get("Authorization")).toBe("Bearer secret")
+            expect(init.body).toBe("{}")
+        })
+
+        it("is kept when converting a geo endpoint", () => {
+            const ep = geoEndpoint(
+                "https://eu.example.com",
+                { type: "continent", continents: ["EU"] },
+                { healthCheck: { method: "HEAD" } },
+            ).toEndpoint()
+
+            expect(healthCheckRequestInit(ep).method).toBe("HEAD")
+        })
+    })
+
+    describe("healthCheckTarget", () => {
+        const ep = endpoint("https://203.0.113.10:8443", {
+            healthCheckPath: "/health",
+            healthCheck: { host: "internal.example.com" },
+        })
+
+        it("checks the endpoint URL outside Workers", () => {
+            expect(healthCheckTarget(ep)).toEqual({ url: "https://203.0.113.10:8443/health" })
+            expect(healthCheckRequestInit(ep)).not.toHaveProperty("cf")
+        })
+
+        describe("on Workers", () => {
+            beforeEach(() => {
+                vi.stubGlobal("navigator", { userAgent: "Cloudflare-Workers" })
+            })
+
+            afterEach(() => {
+                vi.unstubAllGlobals()
+            })
+
+            it("puts the host in the URL and resolves it to the endpoint", () => {
+                expect(healthCheckTarget(ep)).toEqual({
+                    url: "https://internal.example.com:8443/health",
+                    resolveOverride: "203.0.113.10",
+                })
+                expect(healthCheckRequestInit(ep)).toMatchObject({ cf: { resolveOverride: "203.0.113.10" } })
+            })
+        })
+    })
+
+    describe("HealthCheckerLive", () => {
+        let server: TestServer
+
+        beforeAll(async () => {
+            server = await createTestServer({ port: 3040, name: "health-test" })
+        })
+
+        afterAll(async () => {
+            await stopTestServers([server])
+        })
+
+        const check = (ep: ReturnType<typeof endpoint>) =>
+            Effect.gen(function* () {
+                const checker = yield* HealthChecker
+                return yield* checker.check(ep).pipe(Effect.either)
+            }).pipe(Effect.provide(HealthCheckerLive))
+
+        it.effect("treats a 200 error page as healthy without a body assertion", () =>
+            Effect.gen(function* () {
+                const result = yield* check(endpoint(server.url, { healthCheckPath: "/health/proxy-error" }))
+
+                expect(result._tag).toBe("Right")
+            }),
+        )
+
+        it.effect("marks a 200 error page unhealthy with a body assertion", () =>
+            Effect.gen(function* () {
+                const result = yield* check(
+                    endpoint(server.url, {
+                        healthCheckPath: "/health/proxy-error",
+                        healthCheck: { expectBody: { type: "json", path: "status", equals: "healthy" } },
+                    }),
+                )
+
+                expect(result._tag).toBe("Left")
+                if (result._tag === "Left") {
+                    expect(result.left.reason).toBe("body")
+                    expect(result.left.statusCode).toBe(200)
+                    expect(result.left.detail).toBe("body is not JSON")
+                }
+            }),
+        )
+
+        it.effect("marks an endpoint unhealthy when its body pattern does not compile", () =>
+            Effect.gen(function* () {
+                // Built without validation, as from configuration that was never decoded
+                const unchecked = new Endpoint(
+                    {
+                        url: server.url,
+                        healthCheck: { expectBody: { type: "regex", pattern: "(" } },
+                    },
+                    true,
+                )
+
+                const result = yield* check(unchecked)
+
+                expect(result._tag).toBe("Left")
+                if (result._tag === "Left") {
+                    expect(result.left.reason).toBe("body")
+                    expect(result.left.detail).toMatch(/^body pattern does not compile: /)
+                }
+            }),
+        )
+
+        it.effect("sends the configured headers", () =>
+            Effect.gen(function* () {
+                const withoutToken = yield* check(endpoint(server.url, { healthCheckPath: "/health/auth" }))
+                const withToken = yield* check(
+                    endpoint(server.url, {
+                        healthCheckPath: "/health/auth",
+                        healthCheck: {
+                            headers: { Authorization: "Bearer secret" },
+                            expectBody: { type: "json", path: "checks.db", equals: "ok" },
+                        },
+                    }),
+                )
+
+                expect(withoutToken._tag).toBe("Left")
+                if (withoutToken._tag === "Left") {
+                    expect(withoutToken.left.reason).toBe("status")
+                    expect(withoutToken.left.statusCode).toBe(401)
+                }
+                expect(withToken._tag).toBe("Right")
+            }),
+        )
+
+        it.effect("accepts configured status codes", () =>
+            Effect.gen(function* () {
+                const result = yield* check(
+                    endpoint(server.url, {
+                        healthCheckPath: "/health/auth",
+                        healthCheck: { expectedStatuses: [{ min: 200, max: 299 }, 401] },
+                    }),
+                )
+
+                expect(result._tag).toBe("Right")
+            }),
+        )
+
+        describe("host", () => {
+            // The server echoes the Host header it received
+            const hostCheck = (host: string, expectedHost: string) =>
+                check(
+                    endpoint(server.url, {
+                        healthCheckPath: "/headers",
+                        healthCheck: { host, expectBody: { type: "json", path: "headers.host", equals: expectedHost } },
+                    }),
+                )
+
+            it.effect("checks the endpoint with its own host outside Workers", () =>
+                Effect.gen(function* () {
+                    const result = yield* hostCheck("public.example.invalid", "localhost:3040")
+
+                    expect(result._tag).toBe("Right")
+                }),
+            )
+
+            describe("on Workers", () => {
+                // Node ignores `cf.resolveOverride`; this host resolves to the test server anyway
+                beforeEach(() => {
+                    vi.stubGlobal("navigator", { userAgent: "Cloudflare-Workers" })
+                })
+
+                afterEach(() => {
+                    vi.unstubAllGlobals()
+                })
+
+                it.effect("sends the configured host", () =>
+                    Effect.gen(function* () {
+                        const result = yield* hostCheck("127.0.0.1", "127.0.0.1:3040")
+
+                        expect(result._tag).toBe("Right")
+                    }),
+                )
+            })
+        })
+
+        it.effect("sends the configured method", () =>
+            Effect.gen(function* () {
+                const head = yield* check(
+                    endpoint(server.url, { healthCheckPath: "/health", healthCheck: { method: "HEAD" } }),
+                )
+                const post = yield* check(
+                    endpoint(server.url, {
+                        healthCheckPath: "/health/auth",
+                        healthCheck: {
+                            method: "POST",
+                            headers: { Authorization: "Bearer secret" },
+                            expectBody: { type: "contains", value: '"method":"POST"' },
+                        },
+                    }),
+                )
+
+                expect(head._tag).toBe("Right")
+                expect(post._tag).toBe("Right")
+            }),
+        )
+    })
+
     describe("HealthChecker service contract", () => {
         it("HealthCheckerLive is a valid Layer", () => {
             expect(HealthCheckerLive).toBeDefined()
@@ -0,0 +1,235 @@
+/**
+ * HealthMonitor service tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Layer, Ref, TestClock } from "effect"
+import { endpoint, type Endpoint } from "../Endpoint.js"
+import { EndpointUnhealthyError } from "../Errors.js"
+import { HealthChecker } from "../HealthChecker.js"
+import { HealthMonitor, makeHealthMonitor, type HealthMonitorOptions, type HealthTransition } from "../HealthMonitor.js"
+
+describe("HealthMonitor", () => {
+    const ep = endpoint("https://api.example.com")
+
+    /**
+     * Probe that answers from a script of outcomes (true = healthy) and counts its calls
+     */
+    const scriptedChecker = (script: ReadonlyArray<boolean>, calls: Ref.Ref<number>) =>
+        Layer.succeed(HealthChecker, {
+            check: (endpoint: Endpoint) =>
+                Ref.getAndUpdate(calls, (n) => n + 1).pipe(
+                    Effect.flatMap((n) =>
+                        script[Math.min(n, script.length - 1)]
+                            ? Effect.succeed(true)
+                            : Effect.fail(new EndpointUnhealthyError({ endpoint, reason: "status", statusCode: 503 })),
+                    ),
+                ),
+        })
+
+    /**
+     * Run `f` against a monitor wrapping the scripted probe
+     */
+    const withMonitor = <A, E>(
+        script: ReadonlyArray<boolean>,
+        options: HealthMonitorOptions,
+        f: (
+            checker: HealthChecker["Type"],
+            monitor: HealthMonitor["Type"],
+            calls: Ref.Ref<number>,
+        ) => Effect.Effect<A, E>,
+    ) =>
+        Effect.gen(function* () {
+            const calls = yield* Ref.make(0)
+            return yield* Effect.gen(function* () {
+                return yield* f(yield* HealthChecker, yield* HealthMonitor, calls)
+            }).pipe(Effect.provide(makeHealthMonitor(options).pipe(Layer.provide(scriptedChecker(script, calls)))))
+        })
+
+    const noCache: HealthMonitorOptions = { cacheTtl: 0 }
+
+    it.effect("starts unknown and takes the first result", () =>
+        withMonitor([true], noCache, (checker, monitor) =>
+            Effect.gen(function* () {
+                expect((yield* monitor.getState(ep))._tag).toBe("Unknown")
+
+                expect(yield* checker.check(ep)).toBe(true)
+                const state = yield* monitor.getState(ep)
+                expect(state._tag).toBe("Healthy")
+                if (state._tag === "Healthy") expect(state.recovered).toBe(false)
+            }),
+        ),
+    )
+
+    it.effect("marks a healthy endpoint unhealthy only after `fall` consecutive failures", () =>
+        withMonitor([true, false, false, false], { ...noCache, fall: 3 }, (checker, monitor) =>
+            Effect.gen(function* () {
+                yield* checker.check(ep)
+
+                // Failures below the threshold still report healthy
+                expect(yield* checker.check(ep)).toBe(true)
+                expect(yield* checker.check(ep)).toBe(true)
+                const state = yield* monitor.getState(ep)
+                expect(state._tag).toBe("Healthy")
+                if (state._tag === "Healthy") expect(state.failures).toBe(2)
+
+                const result = yield* checker.check(ep).pipe(Effect.either)
+                expect(result._tag).toBe("Left")
+                if (result._tag === "Left") expect(result.left.statusCode).toBe(503)
+                expect((yield* monitor.getState(ep))._tag).toBe("Unhealthy")
+            }),
+        ),
+    )
+
+    it.effect("resets the failure count on success", () =>
+        withMonitor([true, false, true, false, false], { ...noCache, fall: 2 }, (checker, monitor) =>
+            Effect.gen(function* () {
+                for (let i = 0; i < 4; i++) yield* checker.check(ep)
+
+                const state = yield* monitor.getState(ep)
+                expect(state._tag).toBe("Healthy")
+                if (state._tag === "Healthy") expect(state.failures).toBe(1)
+            }),
+        ),
+    )
+
+    it.effect("marks an unhealthy endpoint healthy only after `rise` consecutive successes", () =>
+        withMonitor([false, true, false, true, true], { ...noCache, rise: 2 }, (checker, monitor) =>
+            Effect.gen(function* () {
+                const results: Array<"Left" | "Right"> = []
+                for (let i = 0; i < 5; i++) {
+                    results.push((yield* checker.check(ep).pipe(Effect.either))._tag)
+                }
+
+                expect(results).toEqual(["Left", "Left", "Left", "Left", "Right"])
+                expect((yield* monitor.getState(ep))._tag).toBe("Healthy")
+            }),
+        ),
+    )
+
+    it.effect("records the last transition time", () =>
+        withMonitor([true, false, true], { ...noCache, fall: 1, rise: 1 }, (checker, monitor) =>
+            Effect.gen(function* () {
+                yield* checker.check(ep)
+                yield* TestClock.adjust("1 minute")
+                yield* checker.check(ep).pipe(Effect.either)
+                yield* TestClock.adjust("1 minute")
+                yield* checker.check(ep)
+                yield* TestClock.adjust("1 minute")
+                yield* checker.check(ep)
+
+                const state = yield* monitor.getState(ep)
+                expect(state._tag).toBe("Healthy")
+                if (state._tag === "Healthy") {
+                    expect(state.since.getTime()).toBe(120_000)
+                    expect(state.checkedAt.getTime()).toBe(180_000)
+                    expect(state.recovered).toBe(true)
+                }
+            }),
+        ),
+    )
+
+    it.effect("reuses results within the cache TTL", () =>
+        withMonitor([true], { cacheTtl: "10 seconds" }, (checker, _monitor, calls) =>
+            Effect.gen(function* () {
+                yield* checker.check(ep)
+                yield* TestClock.adjust("5 seconds")
+                yield* checker.check(ep)
+                expect(yield* Ref.get(calls)).toBe(1)
+
+                yield* TestClock.adjust("5 seconds")
+                yield* checker.check(ep)
+                expect(yield* Ref.get(calls)).toBe(2)
+            }),
+        ),
+    )
+
+    it.effect("caches unhealthy results", () =>
+        withMonitor([false, true], { cacheTtl: "10 seconds" }, (checker, _monitor, calls) =>
+            Effect.gen(function* () {
+                yield* checker.check(ep).pipe(Effect.either)
+                const result = yield* checker.check(ep).pipe(Effect.either)
+
+                expect(result._tag).toBe("Left")
+                expect(yield* Ref.get(calls)).toBe(1)
+            }),
+        ),
+    )
+
+    it.effect("keeps state per endpoint", () =>
+        withMonitor([true, false], noCache, (checker, monitor) =>
+            Effect.gen(function* () {
+                const other = endpoint("https://other.example.com")
+                yield* checker.check(ep)
+                yield* checker.check(other).pipe(Effect.either)
+
+                expect((yield* monitor.getState(ep))._tag).toBe("Healthy")
+                expect((yield* monitor.getState(other))._tag).toBe("Unhealthy")
+            }),
+        ),
+    )
+
+    it.effect("notifies state changes", () =>
+        Effect.gen(function* () {
+            const transitions = yield* Ref.make<ReadonlyArray<HealthTransition>>([])
+
+            yield* withMonitor(
+                [true, false, true],
+                {
+                    ...noCache,
+                    fall: 1,
+                    rise: 1,
+                    onStateChange: (t) => Ref.update(transitions, (ts) => [...ts, t]),
+                },
+                (checker) =>
+                    Effect.gen(function* () {
+                        for (let i = 0; i < 3; i++) yield* checker.check(ep).pipe(Effect.either)
+                    }),
+            )
+
+            const seen = (yield* Ref.get(transitions)).map((t) => `${t.from._tag}->${t.to._tag}`)
+            expect(seen).toEqual(["Unknown->Healthy", "Healthy->Unhealthy", "Unhealthy->Healthy"])
+        }),
+    )
+
+    it.effect("shares one probe between concurrent checks, counting it once", () =>
+        Effect.gen(function* () {
+            const calls = yield* Ref.make(0)
+            // Healthy at first, then slow failures
+            const degradingChecker = Layer.succeed(HealthChecker, {
+                check: (endpoint: Endpoint) =>
+                    Ref.getAndUpdate(calls, (n) => n + 1).pipe(
+                        Effect.flatMap((n) =>
+                            n === 0
+                                ? Effect.succeed(true)
+                                : Effect.sleep("1 second").pipe(
+                                    Effect.zipRight(Effect.fail(new EndpointUnhealthyError({ endpoint, reason: "timeout" }))),
+                                ),
+                        ),
+                    ),
+            })
+
+            yield* Effect.gen(function* () {
+                const checker = yield* HealthChecker
+                const monitor = yield* HealthMonitor
+                yield* checker.check(ep)
+
+                const checks = yield* Effect.fork(
+                    Effect.all(Array.from({ length: 5 }, () => checker.check(ep)), { concurrency: "unbounded" }),
+                )
+                yield* TestClock.adjust("1 second")
+                expect(yield* checks).toEqual([true, true, true, true, true])
+
+                expect(yield* Ref.get(calls)).toBe(2)
+                const state = yield* monitor.getState(ep)
+                expect(state._tag).toBe("Healthy")
+                if (state._tag === "Healthy") expect(state.failures).toBe(1)
+
+                // The next check probes again
+                const next = yield* Effect.fork(checker.check(ep).pipe(Effect.either))
+                yield* TestClock.adjust("1 second")
+                expect((yield* next)._tag).toBe("Left")
+                expect(yield* Ref.get(calls)).toBe(3)
+            }).pipe(Effect.provide(makeHealthMonitor({ ...noCache, fall: 2 }).pipe(Layer.provide(degradingChecker))))
+        }),
+    )
+})
@@ -0,0 +1,110 @@
+/**
+ * HealthStore tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Layer, Ref, TestClock } from "effect"
+import { endpoint } from "../Endpoint.js"
+import { EndpointUnhealthyError, StateStoreError } from "../Errors.js"
+import { geoEndpoint } from "../GeoEndpoint.js"
+import { HealthChecker } from "../HealthChecker.js"
+import { getHealthRecord, healthRecordKey, runHealthChecks } from "../HealthStore.js"
+import { StateStore, makeStateStoreMemory } from "../StateStore.js"
+
+describe("HealthStore", () => {
+    const healthy = endpoint("https://healthy.example.com")
+    const broken = endpoint("https://broken.example.com")
+
+    const checker = Layer.succeed(HealthChecker, {
+        check: (ep) =>
+            ep.url === broken.url
+                ? Effect.fail(new EndpointUnhealthyError({ endpoint: ep, reason: "status", statusCode: 500 }))
+                : Effect.succeed(true),
+    })
+
+    describe("runHealthChecks", () => {
+        it.effect("writes a health record for every endpoint", () =>
+            Effect.gen(function* () {
+                yield* TestClock.setTime(1_000)
+
+                const results = yield* runHealthChecks({ endpoints: [healthy, broken] })
+                const store = yield* StateStore
+
+                expect(results.map(({ record }) => record.healthy)).toEqual([true, false])
+                expect(yield* getHealthRecord(store, healthy)).toEqual({
+                    healthy: true,
+                    checkedAt: 1_000,
+                    latencyMs: 0,
+                })
+                expect(yield* getHealthRecord(store, broken)).toEqual({
+                    healthy: false,
+                    checkedAt: 1_000,
+                    latencyMs: 0,
+                    reason: "status",
+                    statusCode: 500,
+                })
+            }).pipe(Effect.provide(Layer.merge(checker, makeStateStoreMemory()))),
+        )
+
+        it.effect("checks geo endpoints and deduplicates by URL", () =>
+            Effect.gen(function* () {
+                const checked = yield* Ref.make<ReadonlyArray<string>>([])
+                const countingChecker = Layer.succeed(HealthChecker, {
+                    check: (ep) => Ref.update(checked, (urls) => [...urls, ep.url]).pipe(Effect.as(true)),
+                })
+
+                yield* runHealthChecks({
+                    endpoints: [healthy, endpoint("https://healthy.example.com/")],
+                    geoEndpoints: [
+                        geoEndpoint("https://eu.example.com", { type: "continent", continents: ["EU"] }),
+                        geoEndpoint("https://healthy.example.com", { type: "continent", continents: ["NA"] }),
+                    ],
+                }).pipe(Effect.provide(countingChecker))
+
+                expect([...(yield* Ref.get(checked))].sort()).toEqual([
+                    "https://eu.example.com",
+                    "https://healthy.example.com",
+                ])
+            }).pipe(Effect.provide(makeStateStoreMemory())),
+        )
+
+        it.effect("expires records after the TTL", () =>
+            Effect.gen(function* () {
+                const store = yield* StateStore
+
+                yield* runHealthChecks({ endpoints: [healthy], ttl: "1 minute" })
+                yield* TestClock.adjust("59 seconds")
+                expect(yield* getHealthRecord(store, healthy)).not.toBeNull()
+
+                yield* TestClock.adjust("1 second")
+                expect(yield* getHealthRecord(store, healthy)).toBeNull()
+            }).pipe(Effect.provide(Layer.merge(checker, makeStateStoreMemory()))),
+        )
+
+        it.effect("keeps going when the store fails", () =>
+            Effect.gen(function* () {
+                const failing = Layer.succeed(StateStore, {
+                    get: (key) => Effect.fail(new StateStoreError({ operation: "get", key, cause: "down" })),
+                    set: (key) => Effect.fail(new StateStoreError({ operation: "set", key, cause: "down" })),
+                    delete: (key) => Effect.fail(new StateStoreError({ operation: "delete", key, cause: "down" })),
+                })
+
+                const results = yield* runHealthChecks({ endpoints: [healthy, broken] }).pipe(
+                    Effect.provide(failing),
+                )
+
+                expect(results).toHaveLength(2)
+                expect(
+                    yield* Effect.flatMap(StateStore, (store) => getHealthRecord(store, healthy)).pipe(
+                        Effect.provide(failing),
+                    ),
+                ).toBeNull()
+            }).pipe(Effect.provide(checker)),
+        )
+    })
+
+    describe("healthRecordKey", () => {
+        it("uses the normalized URL", () => {
+            expect(healthRecordKey(endpoint("https://api.example.com/"))).toBe("health:https://api.example.com")
+        })
+    })
+})
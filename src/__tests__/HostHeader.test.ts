@@ -0,0 +1,127 @@
+/**
+ * Host header tests
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from "@effect/vitest"
+import { Effect, Logger, Schema } from "effect"
+import { endpoint } from "../Endpoint.js"
+import {
+    HostHeaderMode,
+    ignoredHostWarning,
+    isWorkersRuntime,
+    resolveUpstreamTarget,
+    upstreamHostname,
+    warnIgnoredHost,
+} from "../HostHeader.js"
+
+describe("HostHeader", () => {
+    const request = new Request("https://public.example.com/api/data?page=2")
+
+    describe("upstreamHostname", () => {
+        it("uses the endpoint host by default", () => {
+            expect(upstreamHostname(endpoint("https://origin.example.net"), request)).toBe("origin.example.net")
+        })
+
+        it("preserves the incoming host name", () => {
+            const ep = endpoint("https://origin.example.net", { hostHeader: "preserve" })
+
+            expect(upstreamHostname(ep, request)).toBe("public.example.com")
+        })
+
+        it("uses the override", () => {
+            const ep = endpoint("https://203.0.113.10", { hostHeader: { override: "app.internal" } })
+
+            expect(upstreamHostname(ep, request)).toBe("app.internal")
+        })
+    })
+
+    describe("resolveUpstreamTarget", () => {
+        it("fetches the endpoint URL when the host is the endpoint's", () => {
+            expect(resolveUpstreamTarget(endpoint("https://origin.example.net/"), request)).toEqual({
+                url: "https://origin.example.net/api/data?page=2",
+            })
+        })
+
+        it("fetches the endpoint URL outside Workers", () => {
+            const ep = endpoint("https://origin.example.net:8443", { hostHeader: "preserve" })
+
+            expect(isWorkersRuntime()).toBe(false)
+            expect(resolveUpstreamTarget(ep, request)).toEqual({
+                url: "https://origin.example.net:8443/api/data?page=2",
+            })
+        })
+
+        describe("on Workers", () => {
+            beforeEach(() => {
+                vi.stubGlobal("navigator", { userAgent: "Cloudflare-Workers" })
+            })
+
+            afterEach(() => {
+                vi.unstubAllGlobals()
+            })
+
+            it("puts another host in the URL and resolves it to the endpoint", () => {
+                const ep = endpoint("https://origin.example.net:8443", { hostHeader: "preserve" })
+
+                expect(resolveUpstreamTarget(ep, request)).toEqual({
+                    url: "https://public.example.com:8443/api/data?page=2",
+                    resolveOverride: "origin.example.net",
+                })
+            })
+
+            it("needs no override when the preserved host is the endpoint's", () => {
+                const ep = endpoint("https://public.example.com", { hostHeader: "preserve" })
+
+                expect(resolveUpstreamTarget(ep, request).resolveOverride).toBeUndefined()
+            })
+        })
+    })
+
+    describe("ignoredHostWarning", () => {
+        const endpoints = [
+            endpoint("https://default.example.net"),
+            endpoint("https://preserved.example.net", { hostHeader: "preserve" }),
+            endpoint("https://checked.example.net", { healthCheck: { host: "public.example.com" } }),
+        ]
+
+        it("names the endpoints whose host settings are ignored outside Workers", () => {
+            const warning = ignoredHostWarning(endpoints)
+
+            expect(warning).toContain("https://preserved.example.net, https://checked.example.net")
+            expect(warning).not.toContain("default.example.net")
+            expect(
+                ignoredHostWarning([endpoint("https://origin.example.net", { hostHeader: "endpoint" })]),
+            ).toBeUndefined()
+        })
+
+        it("logs the warning once", async () => {
+            const logs: Array<unknown> = []
+            const logger = Logger.make(({ message }) => logs.push(message))
+            const warn = warnIgnoredHost(endpoints).pipe(Effect.provide(Logger.replace(Logger.defaultLogger, logger)))
+
+            await Effect.runPromise(warn)
+            await Effect.runPromise(warn)
+
+            expect(logs).toHaveLength(1)
+        })
+
+        describe("on Workers", () => {
+            beforeEach(() => {
+                vi.stubGlobal("navigator", { userAgent: "Cloudflare-Workers" })
+            })
+
+            afterEach(() => {
+                vi.unstubAllGlobals()
+            })
+
+            it("has nothing to warn about", () => {
+                expect(ignoredHostWarning(endpoints)).toBeUndefined()
+            })
+        })
+    })
+
+    describe("HostHeaderMode", () => {
+        it("rejects an empty override", () => {
+            expect(Schema.decodeUnknownEither(HostHeaderMode)({ override: "" })._tag).toBe("Left")
+        })
+    })
+})
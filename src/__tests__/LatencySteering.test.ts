@@ -0,0 +1,184 @@
+/**
+ * LatencySteering tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Option, TestClock } from "effect"
+import { endpoint } from "../Endpoint.js"
+import {
+    LATENCY_SAMPLE_SIZE,
+    latencyScore,
+    makeLatencyTracker,
+    selectLatencyEndpoints,
+    updateLatencyStats,
+} from "../LatencySteering.js"
+
+/**
+ * Deterministic random source that replays the given values
+ */
+const sequence = (...values: number[]) => {
+    let i = 0
+    return () => values[i++ % values.length]!
+}
+
+describe("LatencySteering", () => {
+    const fast = endpoint("https://fast.example.com")
+    const medium = endpoint("https://medium.example.com")
+    const slow = endpoint("https://slow.example.com")
+
+    const urls = (endpoints: ReadonlyArray<{ readonly url: string }>) => endpoints.map((ep) => ep.url)
+
+    describe("updateLatencyStats", () => {
+        it("seeds the averages with the first sample", () => {
+            expect(updateLatencyStats(undefined, 120, true)).toEqual({ latencyMs: 120, errorRate: 0, samples: 1 })
+            expect(updateLatencyStats(undefined, 5, false)).toEqual({ latencyMs: 5, errorRate: 1, samples: 1 })
+        })
+
+        it("moves the averages toward new samples by alpha", () => {
+            const stats = updateLatencyStats({ latencyMs: 100, errorRate: 0, samples: 3 }, 200, false, 0.5)
+
+            expect(stats).toEqual({ latencyMs: 150, errorRate: 0.5, samples: 4 })
+        })
+    })
+
+    describe("latencyScore", () => {
+        it("scores unmeasured endpoints 0 so they get tried", () => {
+            expect(latencyScore(undefined)).toBe(0)
+        })
+
+        it("inflates the latency by the error rate", () => {
+            expect(latencyScore({ latencyMs: 100, errorRate: 0, samples: 1 })).toBe(100)
+            expect(latencyScore({ latencyMs: 100, errorRate: 0.5, samples: 1 }, 2)).toBe(200)
+        })
+    })
+
+    describe("selectLatencyEndpoints", () => {
+        it("returns empty array for no endpoints", () => {
+            expect(selectLatencyEndpoints([], [])).toEqual([])
+        })
+
+        it("always puts the faster of two endpoints first", () => {
+            for (const value of [0, 0.3, 0.6, 0.99]) {
+                expect(urls(selectLatencyEndpoints([slow, fast], [300, 10], sequence(value)))).toEqual([
+                    fast.url,
+                    slow.url,
+                ])
+            }
+        })
+
+        it("picks the better of two random candidates", () => {
+            // First draw: candidates 0 (slow) and 2 (medium) -> medium
+            // Second draw: candidates 0 (slow) and 1 (fast) -> fast
+            const ordered = selectLatencyEndpoints(
+                [slow, fast, medium],
+                [300, 10, 50],
+                sequence(0, 0.9, 0, 0),
+            )
+
+            expect(urls(ordered)).toEqual([medium.url, fast.url, slow.url])
+        })
+
+        it("never puts the slowest endpoint first", () => {
+            for (let i = 0; i < 50; i++) {
+                expect(selectLatencyEndpoints([slow, fast, medium], [300, 10, 50])[0]?.url).not.toBe(slow.url)
+            }
+        })
+
+        it("returns every endpoint exactly once", () => {
+            const result = selectLatencyEndpoints([slow, fast, medium], [300, 10, 50])
+
+            expect(new Set(urls(result)).size).toBe(3)
+        })
+    })
+
+    describe("makeLatencyTracker", () => {
+        it.effect("times attempts with the clock", () =>
+            Effect.gen(function* () {
+                const tracker = makeLatencyTracker()
+
+                const fiber = yield* Effect.fork(
+                    tracker.trackLatency(
+                        fast,
+                        Effect.sleep("40 millis").pipe(Effect.as(new Response("ok"))),
+                    ),
+                )
+                yield* TestClock.adjust("40 millis")
+                yield* fiber.await
+
+                expect(yield* tracker.getStats(fast)).toEqual(
+                    Option.some({ latencyMs: 40, errorRate: 0, samples: 1 }),
+                )
+                expect(Option.isNone(yield* tracker.getStats(slow))).toBe(true)
+            }),
+        )
+
+        it.effect("counts failures and 5xx responses as errors", () =>
+            Effect.gen(function* () {
+                const tracker = makeLatencyTracker(0.5)
+
+                yield* tracker.trackLatency(fast, Effect.succeed(new Response(null, { status: 503 })))
+                yield* tracker.trackLatency(fast, Effect.fail("boom")).pipe(Effect.either)
+                yield* tracker.trackLatency(fast, Effect.succeed(new Response(null, { status: 404 })))
+
+                const stats = yield* tracker.getStats(fast)
+                expect(Option.map(stats, (s) => s.errorRate)).toEqual(Option.some(0.5))
+            }),
+        )
+
+        it.effect("reports percentiles of recent successful response times", () =>
+            Effect.gen(function* () {
+                const tracker = makeLatencyTracker()
+
+                expect(Option.isNone(yield* tracker.getPercentile(fast, 95))).toBe(true)
+
+                for (let ms = 1; ms <= 100; ms++) {
+                    yield* tracker.record(fast, ms, true)
+                }
+                yield* tracker.record(fast, 5000, false)
+
+                expect(yield* tracker.getPercentile(fast, 95)).toEqual(Option.some(95))
+                expect(yield* tracker.getPercentile(fast, 50)).toEqual(Option.some(50))
+                expect(yield* tracker.getPercentile(fast, 100)).toEqual(Option.some(100))
+            }),
+        )
+
+        it.effect("has no percentile before the minimum number of samples", () =>
+            Effect.gen(function* () {
+                const tracker = makeLatencyTracker()
+
+                for (let ms = 1; ms <= 19; ms++) {
+                    yield* tracker.record(fast, ms, true)
+                }
+                yield* tracker.record(fast, 5000, false)
+                expect(Option.isNone(yield* tracker.getPercentile(fast, 95, 20))).toBe(true)
+
+                yield* tracker.record(fast, 20, true)
+                expect(yield* tracker.getPercentile(fast, 95, 20)).toEqual(Option.some(19))
+            }),
+        )
+
+        it.effect("keeps only the most recent samples for percentiles", () =>
+            Effect.gen(function* () {
+                const tracker = makeLatencyTracker()
+
+                for (let i = 0; i < LATENCY_SAMPLE_SIZE; i++) {
+                    yield* tracker.record(fast, 1000, true)
+                }
+                for (let i = 0; i < LATENCY_SAMPLE_SIZE; i++) {
+                    yield* tracker.record(fast, 10, true)
+                }
+
+                expect(yield* tracker.getPercentile(fast, 99)).toEqual(Option.some(10))
+            }),
+        )
+
+        it.effect("passes the attempt result through", () =>
+            Effect.gen(function* () {
+                const tracker = makeLatencyTracker()
+
+                const result = yield* tracker.trackLatency(fast, Effect.fail("boom")).pipe(Effect.flip)
+
+                expect(result).toBe("boom")
+            }),
+        )
+    })
+})
@@ -0,0 +1,33 @@
+/**
+ * LeastOutstandingSteering tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { endpoint } from "../Endpoint.js"
+import { selectLeastOutstandingEndpoints } from "../LeastOutstandingSteering.js"
+
+describe("LeastOutstandingSteering", () => {
+    const a = endpoint("https://a.example.com")
+    const b = endpoint("https://b.example.com")
+    const c = endpoint("https://c.example.com")
+
+    const urls = (endpoints: ReadonlyArray<{ readonly url: string }>) => endpoints.map((ep) => ep.url)
+
+    describe("selectLeastOutstandingEndpoints", () => {
+        it("returns empty array for no endpoints", () => {
+            expect(selectLeastOutstandingEndpoints([], [])).toEqual([])
+        })
+
+        it("orders endpoints by in-flight requests, fewest first", () => {
+            expect(urls(selectLeastOutstandingEndpoints([a, b, c], [3, 0, 1]))).toEqual([b.url, c.url, a.url])
+        })
+
+        it("keeps the input order for equal counts", () => {
+            expect(urls(selectLeastOutstandingEndpoints([a, b, c], [1, 0, 1]))).toEqual([b.url, a.url, c.url])
+            expect(urls(selectLeastOutstandingEndpoints([c, a, b], [0, 0, 0]))).toEqual([c.url, a.url, b.url])
+        })
+
+        it("treats missing counts as zero", () => {
+            expect(urls(selectLeastOutstandingEndpoints([a, b], [2]))).toEqual([b.url, a.url])
+        })
+    })
+})
@@ -2,10 +2,19 @@
  * LoadBalancer service integration tests
  */
 import { afterAll, beforeAll, describe, expect, it } from "@effect/vitest"
-import { Effect } from "effect"
-import { endpoint } from "../Endpoint.js"
+import { Effect, Layer, Option } from "effect"
+import { CircuitBreaker, makeCircuitBreaker } from "../CircuitBreaker.js"
+import { Endpoint, endpoint } from "../Endpoint.js"
 import { geoEndpoint } from "../GeoEndpoint.js"
-import { LoadBalancer } from "../LoadBalancer.js"
+import { selectHashEndpoints } from "../HashSteering.js"
+import { HealthCheckerLive } from "../HealthChecker.js"
+import { runHealthChecks } from "../HealthStore.js"
+import { LoadBalancer, type LoadBalancerOptions } from "../LoadBalancer.js"
+import { makeOutlierDetector } from "../OutlierDetector.js"
+import { makeRolloutController, RolloutController } from "../Rollout.js"
+import { makeSessionAffinity } from "../SessionAffinity.js"
+import { StateStore, makeStateStoreMemory } from "../StateStore.js"
+import { splitBucket } from "../TrafficSplit.js"
 import { createTestServer, stopTestServers, type TestServer } from "./test-servers.js"
 
 describe("LoadBalancer", () => {
@@ -92,6 +101,26 @@ describe("LoadBalancer", () => {
                 ),
             ),
         )
+
+        it("dies when an endpoint's rewrite rules do not compile", async () => {
+            // Built without validation, as from configuration that was never decoded
+            const unchecked = new Endpoint(
+                {
+                    url: servers[0]!.url,
+                    rewrite: [{ type: "replace", pattern: "^/v1", replacement: "/v2", flags: "zz" }],
+                },
+                true,
+            )
+            const program = Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                return yield* lb.handleRequest(new Request("http://example.com/v1/data"))
+            }).pipe(Effect.provide(LoadBalancer.live({ endpoints: [unchecked] })))
+
+            const exit = await Effect.runPromiseExit(program)
+
+            expect(exit._tag).toBe("Failure")
+            expect(String(exit._tag === "Failure" && exit.cause)).toContain("Rewrite rule")
+        })
     })
 
     describe("availability methods", () => {
@@ -246,6 +275,886 @@ describe("LoadBalancer", () => {
         })
     })
 
+    describe("weighted steering", () => {
+        it("spreads requests across endpoints", async () => {
+            const layer = LoadBalancer.live({
+                endpoints: servers.map((s) => endpoint(s.url)),
+                steering: { type: "weighted" },
+            })
+
+            const program = Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                const served = new Set<string>()
+                for (let i = 0; i < 30; i++) {
+                    const response = yield* lb.handleRequest(new Request("http://example.com/api/data"))
+                    served.add(response.headers.get("X-Load-Balancer-Endpoint")!)
+                }
+                return served
+            }).pipe(Effect.provide(layer))
+
+            const served = await Effect.runPromise(program)
+
+            expect(served.size).toBe(3)
+        })
+
+        it("never picks an endpoint whose weight is negligible first", async () => {
+            const layer = LoadBalancer.live({
+                endpoints: [
+                    endpoint(servers[0]!.url, { weight: 0.000001 }),
+                    endpoint(servers[1]!.url, { weight: 1000 }),
+                ],
+                steering: { type: "weighted" },
+            })
+
+            const program = Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                return yield* lb.handleRequest(new Request("http://example.com/api/data"))
+            }).pipe(Effect.provide(layer))
+
+            const response = await Effect.runPromise(program)
+
+            const body = (await response.json()) as { server: string }
+            expect(body.server).toBe("lb-secondary")
+        })
+
+        it("fails over to remaining endpoints", async () => {
+            const layer = LoadBalancer.live({
+                endpoints: [
+                    endpoint("http://localhost:59999", { weight: 1000 }),
+                    endpoint(servers[2]!.url, { weight: 0.000001 }),
+                ],
+                steering: { type: "weighted" },
+            })
+
+            const program = Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                return yield* lb.handleRequest(new Request("http://example.com/api/data"))
+            }).pipe(Effect.provide(layer))
+
+            const response = await Effect.runPromise(program)
+
+            expect(response.status).toBe(200)
+            const body = (await response.json()) as { server: string }
+            expect(body.server).toBe("lb-tertiary")
+        })
+    })
+
+    describe("round-robin steering", () => {
+        const served = (layer: Layer.Layer<LoadBalancer>, count: number) =>
+            Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                const names: string[] = []
+                for (let i = 0; i < count; i++) {
+                    const response = yield* lb.handleRequest(new Request("http://example.com/api/data"))
+                    names.push(((yield* Effect.promise(() => response.json())) as { server: string }).server)
+                }
+                return names
+            }).pipe(Effect.provide(layer))
+
+        it("rotates through endpoints across requests", async () => {
+            const layer = LoadBalancer.live({
+                endpoints: servers.map((s) => endpoint(s.url)),
+                steering: { type: "round-robin" },
+            })
+
+            // Each run provides the layer again; the counters live in the layer value
+            const first = await Effect.runPromise(served(layer, 2))
+            const second = await Effect.runPromise(served(layer, 2))
+
+            expect([...first, ...second]).toEqual([
+                "lb-primary",
+                "lb-secondary",
+                "lb-tertiary",
+                "lb-primary",
+            ])
+        })
+
+        it("keeps counters in the StateStore when shared", async () => {
+            const storeLayer = makeStateStoreMemory()
+            const options = {
+                endpoints: servers.map((s) => endpoint(s.url)),
+                steering: { type: "round-robin" as const, shared: true },
+            }
+
+            // Two layers stand in for two isolates sharing one store
+            const first = await Effect.runPromise(served(LoadBalancer.live(options).pipe(Layer.provide(storeLayer)), 1))
+            const second = await Effect.runPromise(served(LoadBalancer.live(options).pipe(Layer.provide(storeLayer)), 1))
+
+            expect([...first, ...second]).toEqual(["lb-primary", "lb-secondary"])
+
+            const offset = await Effect.runPromise(
+                Effect.flatMap(StateStore, (store) =>
+                    store.get<number>(`steering:offset:${options.endpoints.map((ep) => ep.normalizedUrl).join(",")}`),
+                ).pipe(Effect.provide(storeLayer)),
+            )
+            expect(offset).toBe(2)
+        })
+
+        it("fails over to the next endpoint in the rotation", async () => {
+            const layer = LoadBalancer.live({
+                endpoints: [endpoint("http://localhost:59999"), endpoint(servers[1]!.url)],
+                steering: { type: "round-robin" },
+            })
+
+            expect(await Effect.runPromise(served(layer, 2))).toEqual(["lb-secondary", "lb-secondary"])
+        })
+    })
+
+    describe("least-outstanding steering", () => {
+        it("avoids endpoints with requests in flight", async () => {
+            const layer = LoadBalancer.live({
+                endpoints: [endpoint(servers[0]!.url), endpoint(servers[1]!.url)],
+                steering: { type: "least-outstanding" },
+            })
+
+            const program = Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                const handle = (path: string) =>
+                    lb.handleRequest(new Request(`http://example.com${path}`)).pipe(
+                        Effect.map((response) => response.headers.get("X-Load-Balancer-Endpoint")),
+                    )
+
+                // Occupies the first endpoint
+                const slow = yield* Effect.fork(handle("/slow?ms=300"))
+                yield* Effect.sleep("50 millis")
+
+                // Round-robin would send the second of these back to the busy endpoint
+                const a = yield* handle("/api/data")
+                const b = yield* handle("/api/data")
+
+                return { slow: yield* slow.await, a, b }
+            }).pipe(Effect.provide(layer))
+
+            const { slow, a, b } = await Effect.runPromise(program)
+
+            expect(slow._tag).toBe("Success")
+            if (slow._tag === "Success") expect(slow.value).toBe(servers[0]!.url)
+            expect(a).toBe(servers[1]!.url)
+            expect(b).toBe(servers[1]!.url)
+        })
+    })
+
+    describe("latency steering", () => {
+        let slowServer: TestServer
+
+        beforeAll(async () => {
+            slowServer = await createTestServer({ port: 3033, name: "lb-slow", delay: 100 })
+        })
+
+        afterAll(async () => {
+            await stopTestServers([slowServer])
+        })
+
+        it("drifts toward the fastest endpoint", async () => {
+            const layer = LoadBalancer.live({
+                endpoints: [endpoint(slowServer.url), endpoint(servers[0]!.url)],
+                steering: { type: "latency" },
+            })
+
+            const program = Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                const served: string[] = []
+                for (let i = 0; i < 6; i++) {
+                    const response = yield* lb.handleRequest(new Request("http://example.com/api/data"))
+                    served.push(response.headers.get("X-Load-Balancer-Endpoint")!)
+                }
+                return served
+            }).pipe(Effect.provide(layer))
+
+            const served = await Effect.runPromise(program)
+
+            // Unmeasured endpoints are tried first, so both are sampled within two requests
+            expect(served.slice(2)).toEqual(Array(4).fill(servers[0]!.url))
+        })
+    })
+
+    describe("hedged availability", () => {
+        let slowServer: TestServer
+
+        beforeAll(async () => {
+            slowServer = await createTestServer({ port: 3034, name: "lb-hedge-slow", delay: 300 })
+        })
+
+        afterAll(async () => {
+            await stopTestServers([slowServer])
+        })
+
+        const handle = (layer: Layer.Layer<LoadBalancer>) =>
+            Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                return yield* lb.handleRequest(new Request("http://example.com/api/data"))
+            }).pipe(Effect.provide(layer))
+
+        it("hedges requests to a slow endpoint", async () => {
+            const layer = LoadBalancer.live({
+                endpoints: [endpoint(slowServer.url), endpoint(servers[0]!.url)],
+                availability: { type: "hedged", delay: "50 millis" },
+            })
+
+            const response = await Effect.runPromise(handle(layer))
+
+            expect(response.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[0]!.url)
+            expect(response.headers.get("X-Load-Balancer-Hedged")).toBe("true")
+        })
+
+        it("waits DEFAULT_HEDGE_DELAY until enough responses are measured for a p95", async () => {
+            const layer = LoadBalancer.live({
+                endpoints: [endpoint(servers[0]!.url), endpoint(servers[1]!.url)],
+                availability: { type: "hedged", delay: "p95" },
+            })
+
+            for (let i = 0; i < 3; i++) {
+                const response = await Effect.runPromise(handle(layer))
+                expect(response.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[0]!.url)
+                expect(response.headers.has("X-Load-Balancer-Hedged")).toBe(false)
+            }
+        })
+    })
+
+    describe("hash steering", () => {
+        const servedBy = (layer: Layer.Layer<LoadBalancer>, tenants: ReadonlyArray<string>) =>
+            Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                return yield* Effect.forEach(tenants, (tenant) =>
+                    lb.handleRequest(
+                        new Request("http://example.com/api/data", { headers: { "X-Tenant-Id": tenant } }),
+                    ).pipe(Effect.map((response) => response.headers.get("X-Load-Balancer-Endpoint"))),
+                )
+            }).pipe(Effect.provide(layer))
+
+        it("sends the same key to the same endpoint", async () => {
+            const layer = LoadBalancer.live({
+                endpoints: servers.map((s) => endpoint(s.url)),
+                steering: { type: "hash", key: { type: "header", name: "X-Tenant-Id" } },
+            })
+            const tenants = Array.from({ length: 10 }, (_, i) => `tenant-${i}`)
+
+            const first = await Effect.runPromise(servedBy(layer, tenants))
+            const second = await Effect.runPromise(servedBy(layer, tenants))
+
+            expect(second).toEqual(first)
+            expect(new Set(first).size).toBeGreaterThan(1)
+        })
+
+        it("fails over to the next endpoint in hash order", async () => {
+            const endpoints = [endpoint("http://localhost:59999"), ...servers.map((s) => endpoint(s.url))]
+            const layer = LoadBalancer.live({
+                endpoints,
+                steering: { type: "hash", key: { type: "header", name: "X-Tenant-Id" } },
+            })
+
+            // Find a tenant whose primary endpoint is the unreachable one
+            const tenant = Array.from({ length: 100 }, (_, i) => `tenant-${i}`).find(
+                (t) => selectHashEndpoints(endpoints, t)[0]!.url === "http://localhost:59999",
+            )!
+
+            const [served] = await Effect.runPromise(servedBy(layer, [tenant]))
+
+            expect(served).toBe(selectHashEndpoints(endpoints, tenant)[1]!.url)
+        })
+    })
+
+    describe("session affinity", () => {
+        it("pins clients to the endpoint that served them", async () => {
+            const layer = LoadBalancer.live({
+                endpoints: servers.map((s) => endpoint(s.url)),
+                steering: { type: "round-robin" },
+                affinity: { secret: "test-secret" },
+            })
+
+            const program = Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                const first = yield* lb.handleRequest(new Request("http://example.com/api/data"))
+                const cookie = first.headers.get("Set-Cookie")!.split(";")[0]!
+
+                // Round-robin would move on to the next endpoint without the cookie
+                const second = yield* lb.handleRequest(
+                    new Request("http://example.com/api/data", { headers: { Cookie: cookie } }),
+                )
+                return { first, second }
+            }).pipe(Effect.provide(layer))
+
+            const { first, second } = await Effect.runPromise(program)
+
+            expect(second.headers.get("X-Load-Balancer-Endpoint")).toBe(
+                first.headers.get("X-Load-Balancer-Endpoint"),
+            )
+            expect(second.headers.has("Set-Cookie")).toBe(false)
+        })
+
+        it("fails over and re-pins when the pinned endpoint is down", async () => {
+            const down = "http://localhost:59999"
+            const layer = LoadBalancer.live({
+                endpoints: [endpoint(servers[0]!.url), endpoint(down)],
+                affinity: { secret: "test-secret" },
+            })
+
+            // A cookie pinning the endpoint that is now down
+            const pinned = await Effect.runPromise(
+                makeSessionAffinity({ secret: "test-secret" }).pin(
+                    new Response(null, { headers: { "X-Load-Balancer-Endpoint": down } }),
+                    Option.none(),
+                ),
+            )
+            const cookie = pinned.headers.get("Set-Cookie")!.split(";")[0]!
+
+            const program = Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                return yield* lb.handleRequest(
+                    new Request("http://example.com/api/data", { headers: { Cookie: cookie } }),
+                )
+            }).pipe(Effect.provide(layer))
+
+            const response = await Effect.runPromise(program)
+            expect(response.headers.get("X-Load-Balancer-Tried-Endpoints")).toBe(`${down}, ${servers[0]!.url}`)
+            expect(response.headers.get("Set-Cookie")).toMatch(/^__lb_affinity=/)
+        })
+    })
+
+    describe("cached health", () => {
+        it("uses health records written by runHealthChecks", async () => {
+            const storeLayer = makeStateStoreMemory()
+            const endpoints = servers.map((s) => endpoint(s.url))
+
+            // The first endpoint's health check path fails
+            await Effect.runPromise(
+                runHealthChecks({
+                    endpoints: [endpoint(servers[0]!.url, { healthCheckPath: "/503" }), ...endpoints.slice(1)],
+                }).pipe(Effect.provide(Layer.merge(HealthCheckerLive, storeLayer))),
+            )
+
+            const layer = LoadBalancer.live({
+                endpoints,
+                availability: { type: "cached-health" },
+            }).pipe(Layer.provide(storeLayer))
+
+            const program = Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                return yield* lb.handleRequest(new Request("http://example.com/api/data"))
+            }).pipe(Effect.provide(layer))
+
+            const response = await Effect.runPromise(program)
+
+            expect(response.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[1]!.url)
+        })
+    })
+
+    describe("retries", () => {
+        it("retries an endpoint before failing over", async () => {
+            const layer = LoadBalancer.live({
+                endpoints: servers.map((s) => endpoint(s.url)),
+                retry: { maxRetries: 2, initialDelay: "10 millis", maxDelay: "20 millis" },
+            })
+
+            const program = Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                return yield* lb.handleRequest(new Request("http://example.com/flaky?key=lb-retry&fail=2"))
+            }).pipe(Effect.provide(layer))
+
+            const response = await Effect.runPromise(program)
+
+            expect(response.status).toBe(200)
+            expect(response.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[0]!.url)
+        })
+    })
+
+    describe("request deadline", () => {
+        it("fails with DeadlineExceededError once the budget is spent", async () => {
+            const layer = LoadBalancer.live({
+                endpoints: servers.map((s) => endpoint(s.url)),
+                deadline: "300 millis",
+            })
+
+            const program = Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                return yield* lb.handleRequest(new Request("http://example.com/slow?ms=1000"))
+            }).pipe(Effect.provide(layer))
+
+            const startTime = Date.now()
+            const result = await Effect.runPromise(Effect.either(program))
+
+            expect(Date.now() - startTime).toBeLessThan(900)
+            expect(result._tag).toBe("Left")
+            expect(result._tag === "Left" && result.left._tag).toBe("DeadlineExceededError")
+            if (result._tag === "Left" && result.left._tag === "DeadlineExceededError") {
+                expect(result.left.triedEndpoints).toHaveLength(servers.length)
+                expect(result.left.message).toContain("300ms")
+            }
+        })
+    })
+
+    describe("request body limit", () => {
+        it("rejects oversized requests without calling the recovery function", async () => {
+            let recovered = false
+            const layer = LoadBalancer.live({
+                endpoints: servers.map((s) => endpoint(s.url)),
+                requestBody: { maxBodyBytes: 16 },
+                recoveryFn: () => Effect.sync(() => {
+                    recovered = true
+                    return new Response("recovered")
+                }),
+            })
+
+            const program = Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                return yield* lb.handleRequest(
+                    new Request("http://example.com/api/echo", {
+                        method: "POST",
+                        body: "x".repeat(64),
+                        headers: { "Content-Length": "64" },
+                    }),
+                )
+            }).pipe(
+                Effect.catchTag("RequestTooLargeError", () =>
+                    Effect.succeed(new Response("Payload Too Large", { status: 413 })),
+                ),
+                Effect.provide(layer),
+            )
+
+            const response = await Effect.runPromise(program)
+
+            expect(response.status).toBe(413)
+            expect(recovered).toBe(false)
+        })
+    })
+
+    describe("proxy headers", () => {
+        const echoedHeaders = async (options: Pick<LoadBalancerOptions, "proxyHeaders">) => {
+            const layer = LoadBalancer.live({ endpoints: [endpoint(servers[0]!.url)], ...options })
+
+            const program = Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                return yield* lb.handleRequest(
+                    new Request("https://example.com/headers", {
+                        headers: { "CF-Connecting-IP": "203.0.113.7", "X-Forwarded-For": "10.0.0.1" },
+                    }),
+                )
+            }).pipe(Effect.provide(layer))
+
+            const response = await Effect.runPromise(program)
+            return ((await response.json()) as { headers: Record<string, string> }).headers
+        }
+
+        it("tells endpoints who the client was", async () => {
+            const headers = await echoedHeaders({})
+
+            expect(headers["x-forwarded-for"]).toBe("203.0.113.7")
+            expect(headers["x-forwarded-proto"]).toBe("https")
+            expect(headers["forwarded"]).toBe("for=203.0.113.7;proto=https;host=example.com")
+            expect(headers["via"]).toBe("1.1 blank-lb")
+        })
+
+        it("sends the request headers unchanged when disabled", async () => {
+            const headers = await echoedHeaders({ proxyHeaders: false })
+
+            expect(headers["x-forwarded-for"]).toBe("10.0.0.1")
+            expect(headers["via"]).toBeUndefined()
+        })
+    })
+
+    describe("router", () => {
+        // Built lazily: the servers only exist once the tests run
+        const routed = () => LoadBalancer.live({
+            router: {
+                routes: [
+                    { name: "data", pool: "primary", match: { pathPrefix: "/api/data", methods: ["GET"] } },
+                    { name: "echo", pool: "secondary", match: { pathPrefix: "/api/echo" } },
+                ],
+                pools: {
+                    primary: { endpoints: [endpoint(servers[0]!.url)] },
+                    secondary: {
+                        endpoints: [endpoint(servers[1]!.url), endpoint(servers[2]!.url)],
+                        steering: { type: "round-robin" },
+                    },
+                },
+            },
+        })
+
+        const handle = (layer: Layer.Layer<LoadBalancer>, request: Request) =>
+            Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                return yield* lb.handleRequest(request)
+            }).pipe(Effect.provide(layer))
+
+        it("sends requests to the pool of the matching route", async () => {
+            const data = await Effect.runPromise(handle(routed(), new Request("http://example.com/api/data")))
+            expect(data.headers.get("X-Load-Balancer-Route")).toBe("data")
+            expect(data.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[0]!.url)
+
+            const echo = await Effect.runPromise(
+                handle(routed(), new Request("http://example.com/api/echo", { method: "POST", body: "{}" })),
+            )
+            expect(echo.headers.get("X-Load-Balancer-Route")).toBe("echo")
+            expect([servers[1]!.url, servers[2]!.url]).toContain(echo.headers.get("X-Load-Balancer-Endpoint"))
+        })
+
+        it("fails with NoRouteError when no route matches", async () => {
+            const result = await Effect.runPromise(
+                Effect.either(handle(routed(), new Request("http://example.com/api/data", { method: "DELETE" }))),
+            )
+
+            expect(result._tag).toBe("Left")
+            if (result._tag === "Left") {
+                expect(result.left._tag).toBe("NoRouteError")
+            }
+        })
+
+        it("uses the top-level options as pool defaults", async () => {
+            let recovered = false
+            const layer = LoadBalancer.live({
+                recoveryFn: () => Effect.sync(() => {
+                    recovered = true
+                    return new Response("recovered")
+                }),
+                router: {
+                    routes: [{ name: "down", pool: "down" }],
+                    pools: { down: { endpoints: [endpoint("http://localhost:59999")] } },
+                },
+            })
+
+            const response = await Effect.runPromise(handle(layer, new Request("http://example.com/")))
+
+            expect(recovered).toBe(true)
+            expect(response.headers.get("X-Load-Balancer-Route")).toBe("down")
+        })
+
+        it("dies when a route targets an unknown pool", async () => {
+            const layer = LoadBalancer.live({
+                router: { routes: [{ name: "lost", pool: "missing" }], pools: {} },
+            })
+
+            const exit = await Effect.runPromiseExit(handle(layer, new Request("http://example.com/")))
+
+            expect(exit._tag).toBe("Failure")
+        })
+
+        it("dies when a route's path regular expression does not compile", async () => {
+            // Routes are plain objects that are not decoded
+            const layer = LoadBalancer.live({
+                router: {
+                    routes: [{ name: "broken", match: { pathRegex: "(" }, pool: "api" }],
+                    pools: { api: { endpoints: [endpoint(servers[0]!.url)] } },
+                },
+            })
+
+            const exit = await Effect.runPromiseExit(handle(layer, new Request("http://example.com/")))
+
+            expect(exit._tag).toBe("Failure")
+            expect(String(exit._tag === "Failure" && exit.cause)).toContain('Route "broken"')
+        })
+    })
+
+    describe("traffic split", () => {
+        const handle = (layer: Layer.Layer<LoadBalancer>, request: Request) =>
+            Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                return yield* lb.handleRequest(request)
+            }).pipe(Effect.provide(layer))
+
+        const blueGreen = (green: number) =>
+            LoadBalancer.live({
+                trafficSplit: {
+                    key: { type: "header", name: "X-User" },
+                    pools: {
+                        blue: { percent: 100 - green, endpoints: [endpoint(servers[0]!.url)] },
+                        green: { percent: green, endpoints: [endpoint(servers[1]!.url)] },
+                    },
+                },
+            })
+
+        it("sends requests to the pools by percentage", async () => {
+            const response = await Effect.runPromise(
+                handle(blueGreen(0), new Request("http://example.com/api/data")),
+            )
+
+            expect(response.headers.get("X-Load-Balancer-Pool")).toBe("blue")
+            expect(response.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[0]!.url)
+        })
+
+        it("keeps a user on the same pool", async () => {
+            const layer = blueGreen(50)
+            const users = ["alice", "bob", "carol", "dave", "erin", "frank"]
+
+            const pools = async () =>
+                Promise.all(
+                    users.map(async (user) => {
+                        const response = await Effect.runPromise(
+                            handle(layer, new Request("http://example.com/api/data", { headers: { "X-User": user } })),
+                        )
+                        return response.headers.get("X-Load-Balancer-Pool")
+                    }),
+                )
+
+            const first = await pools()
+            expect(await pools()).toEqual(first)
+            expect(first).toEqual(users.map((user) => (splitBucket(user) < 50 ? "blue" : "green")))
+        })
+
+        it("splits the pools of a router route", async () => {
+            const layer = LoadBalancer.live({
+                router: {
+                    routes: [{ name: "api", pool: "api" }],
+                    pools: {
+                        api: {
+                            trafficSplit: {
+                                pools: {
+                                    stable: { percent: 0, endpoints: [endpoint(servers[0]!.url)] },
+                                    canary: { percent: 100, endpoints: [endpoint(servers[2]!.url)] },
+                                },
+                            },
+                        },
+                    },
+                },
+            })
+
+            const response = await Effect.runPromise(handle(layer, new Request("http://example.com/api/data")))
+
+            expect(response.headers.get("X-Load-Balancer-Route")).toBe("api")
+            expect(response.headers.get("X-Load-Balancer-Pool")).toBe("canary")
+            expect(response.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[2]!.url)
+        })
+
+        it("dies when the percentages do not add up to 100", async () => {
+            const layer = LoadBalancer.live({
+                trafficSplit: { pools: { blue: { percent: 60, endpoints: [endpoint(servers[0]!.url)] } } },
+            })
+
+            const exit = await Effect.runPromiseExit(handle(layer, new Request("http://example.com/api/data")))
+
+            expect(exit._tag).toBe("Failure")
+        })
+
+        it("sends targeted requests to their pool and everyone else by percentage", async () => {
+            const layer = LoadBalancer.live({
+                trafficSplit: {
+                    targeting: {
+                        pool: "canary",
+                        rules: [
+                            { type: "cookie", name: "canary", equals: "true" },
+                            { type: "ip", cidrs: ["198.51.100.0/24"] },
+                        ],
+                    },
+                    pools: {
+                        stable: { percent: 100, endpoints: [endpoint(servers[0]!.url)] },
+                        canary: { endpoints: [endpoint(servers[2]!.url)] },
+                    },
+                },
+            })
+            const pool = async (headers: Record<string, string>) => {
+                const response = await Effect.runPromise(
+                    handle(layer, new Request("http://example.com/api/data", { headers })),
+                )
+                return response.headers.get("X-Load-Balancer-Pool")
+            }
+
+            expect(await pool({ Cookie: "canary=true" })).toBe("canary")
+            expect(await pool({ "CF-Connecting-IP": "198.51.100.7" })).toBe("canary")
+            expect(await pool({ Cookie: "canary=false", "CF-Connecting-IP": "203.0.113.7" })).toBe("stable")
+        })
+
+        it("dies when targeting names an unknown pool", async () => {
+            const layer = LoadBalancer.live({
+                trafficSplit: {
+                    targeting: { pool: "beta", rules: [] },
+                    pools: { stable: { percent: 100, endpoints: [endpoint(servers[0]!.url)] } },
+                },
+            })
+
+            const exit = await Effect.runPromiseExit(handle(layer, new Request("http://example.com/api/data")))
+
+            expect(exit._tag).toBe("Failure")
+        })
+
+        it("dies when a targeting rule's pattern does not compile", async () => {
+            const layer = LoadBalancer.live({
+                trafficSplit: {
+                    targeting: { pool: "canary", rules: [{ type: "user-agent", pattern: "(" }] },
+                    pools: {
+                        stable: { percent: 100, endpoints: [endpoint(servers[0]!.url)] },
+                        canary: { endpoints: [endpoint(servers[2]!.url)] },
+                    },
+                },
+            })
+
+            const exit = await Effect.runPromiseExit(handle(layer, new Request("http://example.com/api/data")))
+
+            expect(exit._tag).toBe("Failure")
+            expect(String(exit._tag === "Failure" && exit.cause)).toContain("Canary user-agent rule")
+        })
+
+        describe("rollout", () => {
+            const rolloutSplit = (canaryUrl: string) => ({
+                trafficSplit: {
+                    key: { type: "header" as const, name: "X-User" },
+                    rollout: { stable: "stable", canary: "canary" },
+                    pools: {
+                        stable: { endpoints: [endpoint(servers[0]!.url)] },
+                        canary: { endpoints: [endpoint(canaryUrl)] },
+                    },
+                },
+            })
+            const users = Array.from({ length: 100 }, (_, i) => `user-${i}`)
+            const canaryUser = users.find((user) => splitBucket(user) < 50)!
+            const stableUser = users.find((user) => splitBucket(user) >= 50)!
+            const request = (user: string) =>
+                new Request("http://example.com/api/data", { headers: { "X-User": user } })
+
+            it("sends the canary its share of the schedule", async () => {
+                const controller = makeRolloutController({ steps: [50, 100] })
+                const layer = LoadBalancer.live(rolloutSplit(servers[2]!.url)).pipe(Layer.provide(controller))
+
+                const canary = await Effect.runPromise(handle(layer, request(canaryUser)))
+                const stable = await Effect.runPromise(handle(layer, request(stableUser)))
+
+                expect(canary.headers.get("X-Load-Balancer-Pool")).toBe("canary")
+                expect(canary.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[2]!.url)
+                expect(stable.headers.get("X-Load-Balancer-Pool")).toBe("stable")
+
+                const status = await Effect.runPromise(
+                    Effect.flatMap(RolloutController, (rollout) => rollout.getStatus).pipe(Effect.provide(controller)),
+                )
+                expect(status.canary.requests).toBe(1)
+                expect(status.stable.requests).toBe(1)
+            })
+
+            it("rolls a failing canary back to stable", async () => {
+                const controller = makeRolloutController({ steps: [50, 100], minimumRequests: 2 })
+                const layer = LoadBalancer.live(rolloutSplit("http://localhost:59998")).pipe(Layer.provide(controller))
+
+                await Effect.runPromiseExit(handle(layer, request(canaryUser)))
+                await Effect.runPromiseExit(handle(layer, request(canaryUser)))
+                const response = await Effect.runPromise(handle(layer, request(canaryUser)))
+
+                expect(response.headers.get("X-Load-Balancer-Pool")).toBe("stable")
+
+                const status = await Effect.runPromise(
+                    Effect.flatMap(RolloutController, (rollout) => rollout.getStatus).pipe(Effect.provide(controller)),
+                )
+                expect(status.state._tag).toBe("RolledBack")
+                expect(status.percent).toBe(0)
+            })
+
+            it("stops targeting a rolled back canary", async () => {
+                const controller = makeRolloutController({ steps: [50, 100], minimumRequests: 2 })
+                const base = rolloutSplit("http://localhost:59998")
+                const layer = LoadBalancer.live({
+                    trafficSplit: {
+                        ...base.trafficSplit,
+                        targeting: { pool: "canary", rules: [{ type: "cookie", name: "canary", equals: "true" }] },
+                    },
+                }).pipe(Layer.provide(controller))
+                const targeted = () =>
+                    new Request("http://example.com/api/data", {
+                        headers: { "X-User": stableUser, Cookie: "canary=true" },
+                    })
+
+                const first = await Effect.runPromiseExit(handle(layer, targeted()))
+                await Effect.runPromiseExit(handle(layer, targeted()))
+                const response = await Effect.runPromise(handle(layer, targeted()))
+
+                expect(first._tag).toBe("Failure")
+                expect(response.headers.get("X-Load-Balancer-Pool")).toBe("stable")
+
+                const status = await Effect.runPromise(
+                    Effect.flatMap(RolloutController, (rollout) => rollout.getStatus).pipe(Effect.provide(controller)),
+                )
+                expect(status.state._tag).toBe("RolledBack")
+            })
+
+            it("dies without a RolloutController", async () => {
+                const exit = await Effect.runPromiseExit(
+                    handle(LoadBalancer.live(rolloutSplit(servers[2]!.url)), request(canaryUser)),
+                )
+
+                expect(exit._tag).toBe("Failure")
+            })
+        })
+    })
+
+    describe("circuit breaker", () => {
+        it("stops trying an endpoint once its circuit opens", async () => {
+            const breakerLayer = makeCircuitBreaker({ failureThreshold: 1, cooldown: "1 minute" })
+            const layer = LoadBalancer.live({
+                endpoints: [endpoint("http://localhost:59999"), endpoint(servers[1]!.url)],
+            }).pipe(Layer.provide(breakerLayer))
+
+            const handle = Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                return yield* lb.handleRequest(new Request("http://example.com/api/data"))
+            }).pipe(Effect.provide(layer))
+
+            const first = await Effect.runPromise(handle)
+            expect(first.headers.get("X-Load-Balancer-Tried-Count")).toBe("2")
+
+            const second = await Effect.runPromise(handle)
+            expect(second.status).toBe(200)
+            expect(second.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[1]!.url)
+            expect(second.headers.has("X-Load-Balancer-Tried-Count")).toBe(false)
+
+            const state = await Effect.runPromise(
+                Effect.flatMap(CircuitBreaker, (breaker) =>
+                    breaker.getState(endpoint("http://localhost:59999")),
+                ).pipe(Effect.provide(breakerLayer)),
+            )
+            expect(state._tag).toBe("Open")
+        })
+    })
+
+    describe("slow start", () => {
+        it("sends little traffic to an endpoint whose circuit just closed", async () => {
+            const breakerLayer = makeCircuitBreaker({ failureThreshold: 1 })
+            const recovering = endpoint(servers[0]!.url, { slowStart: { window: "1 hour", minWeight: 0.01 } })
+            const layer = LoadBalancer.live({
+                endpoints: [recovering, endpoint(servers[1]!.url)],
+            }).pipe(Layer.provide(breakerLayer))
+
+            await Effect.runPromise(
+                Effect.flatMap(CircuitBreaker, (breaker) =>
+                    Effect.zipRight(breaker.recordFailure(recovering), breaker.recordSuccess(recovering)),
+                ).pipe(Effect.provide(breakerLayer)),
+            )
+
+            const handle = Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                return yield* lb.handleRequest(new Request("http://example.com/api/data"))
+            }).pipe(Effect.provide(layer))
+
+            let toRecovering = 0
+            for (let i = 0; i < 20; i++) {
+                const response = await Effect.runPromise(handle)
+                if (response.headers.get("X-Load-Balancer-Endpoint") === servers[0]!.url) toRecovering++
+            }
+
+            // Kept first for ~1% of requests at the start of the window
+            expect(toRecovering).toBeLessThan(5)
+        })
+    })
+
+    describe("outlier detection", () => {
+        it("ejects endpoints that fail live traffic", async () => {
+            const layer = LoadBalancer.live({
+                endpoints: [endpoint("http://localhost:59999"), endpoint(servers[1]!.url)],
+            }).pipe(Layer.provide(makeOutlierDetector({ minimumRequests: 1 })))
+
+            const handle = Effect.gen(function* () {
+                const lb = yield* LoadBalancer
+                return yield* lb.handleRequest(new Request("http://example.com/api/data"))
+            }).pipe(Effect.provide(layer))
+
+            // The first failure is recorded before the healthy endpoint has been seen,
+            // so the max-ejection-percentage guard (50% of 1 endpoint) holds it back
+            const first = await Effect.runPromise(handle)
+            expect(first.headers.get("X-Load-Balancer-Tried-Count")).toBe("2")
+
+            const second = await Effect.runPromise(handle)
+            expect(second.headers.get("X-Load-Balancer-Tried-Count")).toBe("2")
+
+            const third = await Effect.runPromise(handle)
+            expect(third.headers.get("X-Load-Balancer-Endpoint")).toBe(servers[1]!.url)
+            expect(third.headers.has("X-Load-Balancer-Tried-Count")).toBe(false)
+        })
+    })
+
     describe("recovery function", () => {
         it("returns recovery response on failure", async () => {
             const layer = LoadBalancer.live({
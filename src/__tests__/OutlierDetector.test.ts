@@ -0,0 +1,215 @@
+/**
+ * OutlierDetector service tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Option, Ref, TestClock } from "effect"
+import { failForward } from "../AvailabilityMethod.js"
+import { endpoint } from "../Endpoint.js"
+import { RequestForwardError } from "../Errors.js"
+import {
+    classifyOutcome,
+    makeOutlierDetector,
+    OutlierDetector,
+    type OutlierEjection,
+    type RequestOutcome,
+} from "../OutlierDetector.js"
+
+describe("OutlierDetector", () => {
+    const ep = endpoint("https://api.example.com")
+    const other = endpoint("https://other.example.com")
+
+    const recordMany = (outcome: RequestOutcome, count: number, target = ep) =>
+        Effect.flatMap(OutlierDetector, (detector) =>
+            Effect.repeatN(detector.record(target, outcome), count - 1),
+        )
+
+    const isEjected = (target = ep) =>
+        Effect.flatMap(OutlierDetector, (detector) =>
+            detector.allowRequest(target).pipe(
+                Effect.as(false),
+                Effect.catchTag("EndpointEjectedError", () => Effect.succeed(true)),
+            ),
+        )
+
+    // Single-endpoint tests need the guard out of the way
+    const single = { minimumRequests: 4, maxEjectionPercent: 100 }
+
+    describe("classifyOutcome", () => {
+        it("classifies responses by status", () => {
+            expect(classifyOutcome(new Response(null, { status: 200 }))).toBe("success")
+            expect(classifyOutcome(new Response(null, { status: 404 }))).toBe("success")
+            expect(classifyOutcome(new Response(null, { status: 503 }))).toBe("server-error")
+        })
+
+        it("classifies forward errors", () => {
+            const timeout = new DOMException("timed out", "TimeoutError")
+            expect(classifyOutcome(new RequestForwardError({ endpoint: ep, cause: timeout }))).toBe("timeout")
+            expect(classifyOutcome(new RequestForwardError({ endpoint: ep, cause: new TypeError("fetch failed") }))).toBe(
+                "network",
+            )
+        })
+    })
+
+    describe("makeOutlierDetector", () => {
+        it.effect("does not eject before the minimum number of requests", () =>
+            Effect.gen(function* () {
+                yield* recordMany("server-error", 3)
+
+                expect(yield* isEjected()).toBe(false)
+            }).pipe(Effect.provide(makeOutlierDetector(single))),
+        )
+
+        it.effect("ejects once the failure rate reaches the threshold", () =>
+            Effect.gen(function* () {
+                const detector = yield* OutlierDetector
+
+                yield* recordMany("success", 2)
+                yield* recordMany("timeout", 1)
+                expect(yield* isEjected()).toBe(false)
+
+                yield* recordMany("network", 1)
+                const result = yield* detector.allowRequest(ep).pipe(Effect.flip)
+
+                expect(result._tag).toBe("EndpointEjectedError")
+                expect(result.ejections).toBe(1)
+                expect(result.ejectedUntil.getTime()).toBe(30_000)
+            }).pipe(Effect.provide(makeOutlierDetector(single))),
+        )
+
+        it.effect("lets the endpoint back in after the ejection time", () =>
+            Effect.gen(function* () {
+                yield* recordMany("server-error", 4)
+
+                yield* TestClock.adjust("29 seconds")
+                expect(yield* isEjected()).toBe(true)
+
+                yield* TestClock.adjust("1 second")
+                expect(yield* isEjected()).toBe(false)
+            }).pipe(Effect.provide(makeOutlierDetector(single))),
+        )
+
+        it.effect("escalates repeated ejections up to the maximum", () =>
+            Effect.gen(function* () {
+                const detector = yield* OutlierDetector
+
+                const ejectAndMeasure = Effect.gen(function* () {
+                    const start = (yield* TestClock.currentTimeMillis)
+                    yield* recordMany("server-error", 4)
+                    const stats = yield* detector.getStats(ep)
+                    const until = Option.getOrThrow(stats.ejectedUntil).getTime()
+                    yield* TestClock.setTime(until)
+                    return until - start
+                })
+
+                expect(yield* ejectAndMeasure).toBe(10_000)
+                expect(yield* ejectAndMeasure).toBe(20_000)
+                expect(yield* ejectAndMeasure).toBe(25_000)
+            }).pipe(
+                Effect.provide(
+                    makeOutlierDetector({ ...single, baseEjectionTime: "10 seconds", maxEjectionTime: "25 seconds" }),
+                ),
+            ),
+        )
+
+        it.effect("resets the escalation after staying in for the maximum ejection time", () =>
+            Effect.gen(function* () {
+                const detector = yield* OutlierDetector
+
+                yield* recordMany("server-error", 4)
+                yield* TestClock.adjust("10 seconds")
+                yield* TestClock.adjust("25 seconds")
+                yield* recordMany("server-error", 4)
+
+                const stats = yield* detector.getStats(ep)
+                expect(stats.ejections).toBe(1)
+            }).pipe(
+                Effect.provide(
+                    makeOutlierDetector({ ...single, baseEjectionTime: "10 seconds", maxEjectionTime: "25 seconds" }),
+                ),
+            ),
+        )
+
+        it.effect("only counts outcomes inside the sliding window", () =>
+            Effect.gen(function* () {
+                yield* recordMany("server-error", 3)
+                yield* TestClock.adjust("31 seconds")
+                yield* recordMany("server-error", 1)
+                expect(yield* isEjected()).toBe(false)
+
+                const stats = yield* Effect.flatMap(OutlierDetector, (detector) => detector.getStats(ep))
+                expect(stats.requests).toBe(1)
+            }).pipe(Effect.provide(makeOutlierDetector(single))),
+        )
+
+        it.effect("never ejects more than the maximum percentage of endpoints", () =>
+            Effect.gen(function* () {
+                // Two endpoints seen: one of them may be ejected at 50%
+                yield* recordMany("success", 1, other)
+                yield* recordMany("server-error", 4, ep)
+                expect(yield* isEjected(ep)).toBe(true)
+
+                yield* recordMany("server-error", 4, other)
+                expect(yield* isEjected(other)).toBe(false)
+
+                // Once the first endpoint is back, the second can be ejected
+                yield* TestClock.adjust("30 seconds")
+                yield* recordMany("server-error", 4, other)
+                expect(yield* isEjected(other)).toBe(true)
+            }).pipe(Effect.provide(makeOutlierDetector({ minimumRequests: 4, maxEjectionPercent: 50 }))),
+        )
+
+        it.effect("does not eject the only endpoint seen with the default guard", () =>
+            Effect.gen(function* () {
+                yield* recordMany("server-error", 20)
+
+                expect(yield* isEjected()).toBe(false)
+            }).pipe(Effect.provide(makeOutlierDetector())),
+        )
+
+        it.effect("reports ejections", () =>
+            Effect.gen(function* () {
+                const ejections = yield* Ref.make<ReadonlyArray<OutlierEjection>>([])
+
+                yield* recordMany("server-error", 4).pipe(
+                    Effect.provide(
+                        makeOutlierDetector({
+                            ...single,
+                            onEjection: (ejection) => Ref.update(ejections, (all) => [...all, ejection]),
+                        }),
+                    ),
+                )
+
+                const [ejection] = yield* Ref.get(ejections)
+                expect(ejection?.endpoint.url).toBe(ep.url)
+                expect(ejection?.failureRate).toBe(1)
+                expect(ejection?.requests).toBe(4)
+            }),
+        )
+    })
+
+    describe("with availability methods", () => {
+        it("records live traffic and skips ejected endpoints", async () => {
+            const dead = endpoint("http://localhost:59999")
+            const alsoDead = endpoint("http://localhost:59998")
+            const layer = makeOutlierDetector({ minimumRequests: 1, maxEjectionPercent: 100 })
+
+            const run = () =>
+                Effect.runPromise(
+                    failForward([dead, alsoDead], new Request("http://example.com/api/data")).pipe(
+                        Effect.either,
+                        Effect.provide(layer),
+                    ),
+                )
+
+            expect((await run())._tag).toBe("Left")
+
+            const second = await run()
+            expect(second._tag).toBe("Left")
+            expect(second._tag === "Left" && second.left._tag).toBe("NoHealthyEndpointsError")
+            if (second._tag === "Left" && second.left._tag === "NoHealthyEndpointsError") {
+                expect(second.left.triedEndpoints).toHaveLength(0)
+                expect(second.left.lastError).toMatchObject({ _tag: "EndpointEjectedError" })
+            }
+        })
+    })
+})
@@ -0,0 +1,35 @@
+/**
+ * Configuration pattern tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { Schema } from "effect"
+import { RegExpFlags, RegExpSource, validateRegExp } from "../Patterns.js"
+
+describe("Patterns", () => {
+    describe("validateRegExp", () => {
+        it("accepts a pattern and flags that compile", () => {
+            expect(validateRegExp("^/api/(\\w+)$", "gi")).toBeUndefined()
+        })
+
+        it("reports a pattern that does not compile", () => {
+            expect(validateRegExp("(")).toContain("Invalid regular expression")
+        })
+
+        it("reports invalid flags", () => {
+            expect(validateRegExp("", "zz")).toBeDefined()
+            expect(validateRegExp("", "gg")).toBeDefined()
+        })
+    })
+
+    describe("schemas", () => {
+        it("decode valid patterns and flags", () => {
+            expect(Schema.decodeUnknownSync(RegExpSource)("^/v[0-9]+")).toBe("^/v[0-9]+")
+            expect(Schema.decodeUnknownSync(RegExpFlags)("i")).toBe("i")
+        })
+
+        it("reject invalid patterns and flags", () => {
+            expect(Schema.decodeUnknownEither(RegExpSource)("[")._tag).toBe("Left")
+            expect(Schema.decodeUnknownEither(RegExpFlags)("x")._tag).toBe("Left")
+        })
+    })
+})
@@ -0,0 +1,167 @@
+/**
+ * Proxy header tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import {
+    formatForwardedElement,
+    proxyRequestHeaders,
+    stripHopByHopHeaders,
+    stripHopByHopResponseHeaders,
+    withProxyHeaders,
+} from "../ProxyHeaders.js"
+
+describe("ProxyHeaders", () => {
+    const clientRequest = (headers: Record<string, string> = {}) =>
+        new Request("https://lb.example.com/api/data", {
+            headers: { "CF-Connecting-IP": "203.0.113.7", ...headers },
+        })
+
+    describe("stripHopByHopHeaders", () => {
+        it("removes hop-by-hop headers and those listed in Connection", () => {
+            const headers = stripHopByHopHeaders(
+                new Headers({
+                    "Connection": "close, X-Session",
+                    "Keep-Alive": "timeout=5",
+                    "TE": "trailers",
+                    "Proxy-Authorization": "Basic abc",
+                    "X-Session": "abc",
+                    "Accept": "application/json",
+                }),
+            )
+
+            expect([...headers.keys()]).toEqual(["accept"])
+        })
+
+        it("does not modify the original headers", () => {
+            const original = new Headers({ "Keep-Alive": "timeout=5" })
+            stripHopByHopHeaders(original)
+
+            expect(original.has("Keep-Alive")).toBe(true)
+        })
+    })
+
+    describe("stripHopByHopResponseHeaders", () => {
+        it("returns the response as is without hop-by-hop headers", () => {
+            const response = new Response("ok", { headers: { "Content-Type": "text/plain" } })
+
+            expect(stripHopByHopResponseHeaders(response)).toBe(response)
+        })
+
+        it("keeps the status and body", async () => {
+            const response = stripHopByHopResponseHeaders(
+                new Response("created", { status: 201, headers: { "Keep-Alive": "timeout=5", "X-Id": "1" } }),
+            )
+
+            expect(response.status).toBe(201)
+            expect(response.headers.has("Keep-Alive")).toBe(false)
+            expect(response.headers.get("X-Id")).toBe("1")
+            expect(await response.text()).toBe("created")
+        })
+    })
+
+    describe("formatForwardedElement", () => {
+        it("quotes IPv6 addresses in brackets and hosts with ports", () => {
+            expect(formatForwardedElement("2001:db8::1", "https", "example.com:8443")).toBe(
+                'for="[2001:db8::1]";proto=https;host="example.com:8443"',
+            )
+        })
+
+        it("uses unknown when the client is not known", () => {
+            expect(formatForwardedElement(undefined, "http", "example.com")).toBe(
+                "for=unknown;proto=http;host=example.com",
+            )
+        })
+    })
+
+    describe("proxyRequestHeaders", () => {
+        it("records the client, protocol and host", () => {
+            const headers = proxyRequestHeaders(clientRequest())
+
+            expect(headers.get("X-Forwarded-For")).toBe("203.0.113.7")
+            expect(headers.get("X-Forwarded-Proto")).toBe("https")
+            expect(headers.get("X-Forwarded-Host")).toBe("lb.example.com")
+            expect(headers.get("Forwarded")).toBe("for=203.0.113.7;proto=https;host=lb.example.com")
+            expect(headers.get("Via")).toBe("1.1 blank-lb")
+        })
+
+        it("replaces forwarding headers sent by an untrusted client", () => {
+            const headers = proxyRequestHeaders(
+                clientRequest({
+                    "X-Forwarded-For": "10.0.0.1",
+                    "X-Forwarded-Host": "spoofed.example.com",
+                    "Forwarded": "for=10.0.0.1",
+                }),
+            )
+
+            expect(headers.get("X-Forwarded-For")).toBe("203.0.113.7")
+            expect(headers.get("X-Forwarded-Host")).toBe("lb.example.com")
+            expect(headers.get("Forwarded")).toBe("for=203.0.113.7;proto=https;host=lb.example.com")
+        })
+
+        it("appends to forwarding headers from a trusted proxy", () => {
+            const headers = proxyRequestHeaders(
+                clientRequest({
+                    "X-Forwarded-For": "198.51.100.1",
+                    "X-Forwarded-Proto": "http",
+                    "Forwarded": "for=198.51.100.1",
+                    "Via": "1.1 edge",
+                }),
+                { trustForwarded: true },
+            )
+
+            expect(headers.get("X-Forwarded-For")).toBe("198.51.100.1, 203.0.113.7")
+            expect(headers.get("X-Forwarded-Proto")).toBe("http")
+            expect(headers.get("Forwarded")).toBe(
+                "for=198.51.100.1, for=203.0.113.7;proto=https;host=lb.example.com",
+            )
+            expect(headers.get("Via")).toBe("1.1 edge, 1.1 blank-lb")
+        })
+
+        it("reads the client from a custom header", () => {
+            const headers = proxyRequestHeaders(clientRequest({ "X-Real-IP": "192.0.2.5" }), {
+                clientIpHeader: "X-Real-IP",
+            })
+
+            expect(headers.get("X-Forwarded-For")).toBe("192.0.2.5")
+        })
+
+        it("omits X-Forwarded-For without a client address", () => {
+            const headers = proxyRequestHeaders(new Request("https://lb.example.com/"))
+
+            expect(headers.has("X-Forwarded-For")).toBe(false)
+            expect(headers.get("Forwarded")).toBe("for=unknown;proto=https;host=lb.example.com")
+        })
+
+        it("can turn off each header", () => {
+            const headers = proxyRequestHeaders(clientRequest({ "Via": "1.1 edge" }), {
+                xForwarded: false,
+                forwarded: false,
+                via: false,
+            })
+
+            expect(headers.has("X-Forwarded-For")).toBe(false)
+            expect(headers.has("Forwarded")).toBe(false)
+            expect(headers.get("Via")).toBe("1.1 edge")
+        })
+
+        it("strips hop-by-hop headers", () => {
+            const headers = proxyRequestHeaders(clientRequest({ "Keep-Alive": "timeout=5" }))
+
+            expect(headers.has("Keep-Alive")).toBe(false)
+        })
+    })
+
+    describe("withProxyHeaders", () => {
+        it("keeps the method, URL and body", async () => {
+            const request = withProxyHeaders(
+                new Request("https://lb.example.com/api/echo", { method: "POST", body: "payload" }),
+                { via: "edge-lb" },
+            )
+
+            expect(request.method).toBe("POST")
+            expect(request.url).toBe("https://lb.example.com/api/echo")
+            expect(request.headers.get("Via")).toBe("1.1 edge-lb")
+            expect(await request.text()).toBe("payload")
+        })
+    })
+})
@@ -4,7 +4,7 @@
 import { describe, expect, it } from "@effect/vitest"
 import { Effect } from "effect"
 import { endpoint } from "../Endpoint.js"
-import { NoHealthyEndpointsError } from "../Errors.js"
+import { NoHealthyEndpointsError, RequestTooLargeError } from "../Errors.js"
 import { withRecovery, type RecoveryContext, type RecoveryFn } from "../Recovery.js"
 
 describe("Recovery", () => {
@@ -47,6 +47,17 @@ describe("Recovery", () => {
             }),
         )
 
+        it.effect("does not call recovery for requests that are too large", () =>
+            Effect.gen(function* () {
+                let called = false
+                const recoveryFn: RecoveryFn = () => Effect.sync(() => { called = true; return new Response("recovered") })
+                const failedEffect = Effect.fail(new RequestTooLargeError({ maxBytes: 1024 }))
+                const result = yield* withRecovery(failedEffect, createRequest(), recoveryFn, () => ({ triedEndpoints: [] })).pipe(Effect.either)
+                expect(called).toBe(false)
+                expect(result._tag).toBe("Left")
+            }),
+        )
+
         it.effect("receives correct request in recovery", () =>
             Effect.gen(function* () {
                 let receivedUrl: string | undefined
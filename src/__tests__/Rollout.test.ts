@@ -0,0 +1,204 @@
+/**
+ * RolloutController service tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Exit, Option, Ref, TestClock } from "effect"
+import { endpoint } from "../Endpoint.js"
+import { RequestForwardError } from "../Errors.js"
+import type { RequestOutcome } from "../OutlierDetector.js"
+import {
+    makeRolloutController,
+    RolloutController,
+    type RolloutPool,
+    type RolloutTransition,
+    validateRolloutSteps,
+} from "../Rollout.js"
+
+describe("Rollout", () => {
+    const recordMany = (pool: RolloutPool, outcome: RequestOutcome, count: number, latencyMs = 10) =>
+        Effect.flatMap(RolloutController, (controller) =>
+            Effect.repeatN(controller.record(pool, outcome, latencyMs), count - 1),
+        )
+
+    const getPercent = Effect.flatMap(RolloutController, (controller) => controller.getPercent)
+    const getStatus = Effect.flatMap(RolloutController, (controller) => controller.getStatus)
+
+    const options = { minimumRequests: 3 }
+
+    describe("validateRolloutSteps", () => {
+        it("accepts increasing percentages", () => {
+            expect(validateRolloutSteps([1, 5, 25, 100])).toBeUndefined()
+            expect(validateRolloutSteps([50])).toBeUndefined()
+        })
+
+        it("rejects empty, out of range and unordered steps", () => {
+            expect(validateRolloutSteps([])).toBeDefined()
+            expect(validateRolloutSteps([0, 50])).toBeDefined()
+            expect(validateRolloutSteps([50, 150])).toBeDefined()
+            expect(validateRolloutSteps([25, 5])).toBeDefined()
+            expect(validateRolloutSteps([5, 5])).toBeDefined()
+        })
+    })
+
+    describe("makeRolloutController", () => {
+        it.effect("starts at the first step", () =>
+            Effect.gen(function* () {
+                expect(yield* getPercent).toBe(1)
+
+                const status = yield* getStatus
+                expect(status.state._tag).toBe("Progressing")
+                expect(status.canary.requests).toBe(0)
+            }).pipe(Effect.provide(makeRolloutController(options))),
+        )
+
+        it.effect("promotes the canary once the step has been held with enough requests", () =>
+            Effect.gen(function* () {
+                yield* getPercent
+                yield* recordMany("canary", "success", 3)
+                yield* recordMany("stable", "success", 10)
+
+                yield* TestClock.adjust("9 minutes")
+                expect(yield* getPercent).toBe(1)
+
+                yield* TestClock.adjust("1 minute")
+                expect(yield* getPercent).toBe(5)
+
+                // The next step starts with fresh statistics
+                const status = yield* getStatus
+                expect(status.canary.requests).toBe(0)
+                expect(status.stable.requests).toBe(0)
+            }).pipe(Effect.provide(makeRolloutController(options))),
+        )
+
+        it.effect("waits for the minimum number of canary requests", () =>
+            Effect.gen(function* () {
+                yield* getPercent
+                yield* recordMany("canary", "success", 2)
+
+                yield* TestClock.adjust("1 hour")
+                expect(yield* getPercent).toBe(1)
+
+                yield* recordMany("canary", "success", 1)
+                expect(yield* getPercent).toBe(5)
+            }).pipe(Effect.provide(makeRolloutController(options))),
+        )
+
+        it.effect("completes at the last step", () =>
+            Effect.gen(function* () {
+                yield* getPercent
+                yield* recordMany("canary", "success", 3)
+                yield* TestClock.adjust("1 minute")
+
+                const status = yield* getStatus
+                expect(status.state._tag).toBe("Complete")
+                expect(status.percent).toBe(100)
+
+                // Nothing is compared once the rollout is complete
+                yield* recordMany("canary", "server-error", 5)
+                expect(yield* getPercent).toBe(100)
+            }).pipe(
+                Effect.provide(makeRolloutController({ ...options, steps: [50, 100], stepDuration: "1 minute" })),
+            ),
+        )
+
+        it.effect("rolls back when the canary fails more often than stable", () =>
+            Effect.gen(function* () {
+                const transitions = yield* Ref.make<ReadonlyArray<RolloutTransition>>([])
+
+                yield* Effect.gen(function* () {
+                    yield* getPercent
+                    yield* recordMany("stable", "success", 10)
+                    yield* recordMany("canary", "success", 2)
+                    yield* recordMany("canary", "timeout", 1)
+
+                    const status = yield* getStatus
+                    expect(status.percent).toBe(0)
+                    expect(status.state._tag).toBe("RolledBack")
+                    if (status.state._tag === "RolledBack") {
+                        expect(status.state.reason).toContain("error rate 33.3%")
+                    }
+
+                    // Rolled back canaries are not promoted
+                    yield* TestClock.adjust("1 hour")
+                    expect(yield* getPercent).toBe(0)
+                }).pipe(
+                    Effect.provide(
+                        makeRolloutController({
+                            ...options,
+                            onTransition: (transition) => Ref.update(transitions, (all) => [...all, transition]),
+                        }),
+                    ),
+                )
+
+                const recorded = yield* Ref.get(transitions)
+                expect(recorded).toHaveLength(1)
+                expect(recorded[0]!.from._tag).toBe("Progressing")
+                expect(recorded[0]!.to._tag).toBe("RolledBack")
+            }),
+        )
+
+        it.effect("tolerates error rates close to stable's", () =>
+            Effect.gen(function* () {
+                yield* recordMany("stable", "server-error", 2)
+                yield* recordMany("stable", "success", 8)
+                yield* recordMany("canary", "network", 1)
+                yield* recordMany("canary", "success", 2)
+
+                expect((yield* getStatus).state._tag).toBe("Progressing")
+            }).pipe(Effect.provide(makeRolloutController({ ...options, maxErrorRateIncrease: 0.2 }))),
+        )
+
+        it.effect("rolls back when the canary is slower than stable", () =>
+            Effect.gen(function* () {
+                yield* recordMany("stable", "success", 5, 100)
+                yield* recordMany("canary", "success", 3, 200)
+
+                const status = yield* getStatus
+                expect(status.percent).toBe(0)
+                expect(status.canary.meanLatencyMs).toEqual(Option.some(200))
+                if (status.state._tag === "RolledBack") {
+                    expect(status.state.reason).toContain("latency")
+                }
+            }).pipe(Effect.provide(makeRolloutController({ ...options, maxLatencyRatio: 2 }))),
+        )
+
+        it.effect("starts over when restarted", () =>
+            Effect.gen(function* () {
+                const controller = yield* RolloutController
+                yield* recordMany("canary", "server-error", 3)
+                expect(yield* getPercent).toBe(0)
+
+                yield* controller.restart
+                expect(yield* getPercent).toBe(1)
+                expect((yield* getStatus).canary.requests).toBe(0)
+            }).pipe(Effect.provide(makeRolloutController(options))),
+        )
+
+        it.effect("tracks the outcome and latency of attempts", () =>
+            Effect.gen(function* () {
+                const controller = yield* RolloutController
+                const ep = endpoint("https://canary.example.com")
+
+                yield* controller.track("canary", Effect.as(TestClock.adjust("250 millis"), new Response("ok")))
+
+                const failed = yield* controller
+                    .track("canary", Effect.fail(new RequestForwardError({ endpoint: ep, cause: new TypeError("fetch failed") })))
+                    .pipe(Effect.flip)
+                expect(failed._tag).toBe("RequestForwardError")
+
+                const status = yield* getStatus
+                expect(status.canary.requests).toBe(2)
+                expect(status.canary.failures).toBe(1)
+                expect(status.canary.meanLatencyMs).toEqual(Option.some(250))
+            }).pipe(Effect.provide(makeRolloutController())),
+        )
+
+        it.effect("dies when the steps are invalid", () =>
+            Effect.gen(function* () {
+                const exit = yield* Effect.exit(getPercent.pipe(Effect.provide(makeRolloutController({ steps: [25, 5] }))))
+
+                expect(Exit.isFailure(exit)).toBe(true)
+            }),
+        )
+    })
+})
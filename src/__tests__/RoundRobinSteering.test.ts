@@ -0,0 +1,36 @@
+/**
+ * RoundRobinSteering tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { endpoint } from "../Endpoint.js"
+import { rotateEndpoints } from "../RoundRobinSteering.js"
+
+describe("RoundRobinSteering", () => {
+    const a = endpoint("https://a.example.com")
+    const b = endpoint("https://b.example.com")
+    const c = endpoint("https://c.example.com")
+
+    const urls = (endpoints: ReadonlyArray<{ readonly url: string }>) => endpoints.map((ep) => ep.url)
+
+    describe("rotateEndpoints", () => {
+        it("returns empty array for no endpoints", () => {
+            expect(rotateEndpoints([], 3)).toEqual([])
+        })
+
+        it("starts at the offset and keeps the cyclic order", () => {
+            expect(urls(rotateEndpoints([a, b, c], 0))).toEqual([a.url, b.url, c.url])
+            expect(urls(rotateEndpoints([a, b, c], 1))).toEqual([b.url, c.url, a.url])
+            expect(urls(rotateEndpoints([a, b, c], 2))).toEqual([c.url, a.url, b.url])
+        })
+
+        it("wraps offsets past the number of endpoints", () => {
+            expect(urls(rotateEndpoints([a, b, c], 4))).toEqual([b.url, c.url, a.url])
+        })
+
+        it("does not modify the input", () => {
+            const endpoints = [a, b, c]
+            rotateEndpoints(endpoints, 1)
+            expect(urls(endpoints)).toEqual([a.url, b.url, c.url])
+        })
+    })
+})
@@ -0,0 +1,127 @@
+/**
+ * Router tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { Schema } from "effect"
+import { findRoute, makeRouteFinder, matchesRoute, Route, type RouteMatch, validateRoutes } from "../Router.js"
+
+describe("Router", () => {
+    const matches = (match: RouteMatch, url: string, init?: RequestInit) =>
+        matchesRoute(match, new Request(url, init))
+
+    describe("matchesRoute", () => {
+        it("accepts every request without conditions", () => {
+            expect(matchesRoute(undefined, new Request("https://example.com/anything"))).toBe(true)
+            expect(matches({}, "https://example.com/")).toBe(true)
+        })
+
+        it("matches path prefixes on whole segments", () => {
+            expect(matches({ pathPrefix: "/api" }, "https://example.com/api")).toBe(true)
+            expect(matches({ pathPrefix: "/api/" }, "https://example.com/api/users")).toBe(true)
+            expect(matches({ pathPrefix: "/api" }, "https://example.com/apiary")).toBe(false)
+        })
+
+        it("matches path globs", () => {
+            const match: RouteMatch = { pathGlob: "/v*/users/**" }
+
+            expect(matches(match, "https://example.com/v2/users/42/posts")).toBe(true)
+            expect(matches(match, "https://example.com/v2/admin/users/42")).toBe(false)
+            expect(matches({ pathGlob: "/files/*.json" }, "https://example.com/files/a.json")).toBe(true)
+            expect(matches({ pathGlob: "/files/*.json" }, "https://example.com/files/a/b.json")).toBe(false)
+            expect(matches({ pathGlob: "/files/*.json" }, "https://example.com/files/ajson")).toBe(false)
+        })
+
+        it("matches path regular expressions", () => {
+            expect(matches({ pathRegex: "^/items/\\d+$" }, "https://example.com/items/12")).toBe(true)
+            expect(matches({ pathRegex: "^/items/\\d+$" }, "https://example.com/items/abc")).toBe(false)
+        })
+
+        it("matches hosts, with wildcard subdomains", () => {
+            expect(matches({ host: "API.example.com" }, "https://api.example.com/")).toBe(true)
+            expect(matches({ host: "*.example.com" }, "https://eu.api.example.com/")).toBe(true)
+            expect(matches({ host: "*.example.com" }, "https://example.com/")).toBe(false)
+            expect(matches({ host: "*.example.com" }, "https://badexample.com/")).toBe(false)
+        })
+
+        it("matches methods case-insensitively", () => {
+            expect(matches({ methods: ["get", "HEAD"] }, "https://example.com/")).toBe(true)
+            expect(matches({ methods: ["GET"] }, "https://example.com/", { method: "POST" })).toBe(false)
+        })
+
+        it("matches header and query values", () => {
+            const match: RouteMatch = { headers: { "X-Tenant": "acme" }, query: { beta: "1" } }
+
+            expect(matches(match, "https://example.com/?beta=1", { headers: { "x-tenant": "acme" } })).toBe(true)
+            expect(matches(match, "https://example.com/?beta=1", { headers: { "x-tenant": "other" } })).toBe(false)
+            expect(matches(match, "https://example.com/", { headers: { "x-tenant": "acme" } })).toBe(false)
+        })
+
+        it("matches media types listed in Accept", () => {
+            const accept = (value: string) => ({ headers: { Accept: value } })
+            const match: RouteMatch = { accept: "application/vnd.api.v2+json" }
+
+            expect(matches(match, "https://example.com/", accept("text/html, application/vnd.api.v2+json;q=0.9")))
+                .toBe(true)
+            expect(matches(match, "https://example.com/", accept("application/vnd.api.v2+json;q=0"))).toBe(false)
+            expect(matches(match, "https://example.com/", accept("*/*"))).toBe(false)
+            expect(matches(match, "https://example.com/")).toBe(false)
+            expect(matches({ accept: "text/*" }, "https://example.com/", accept("text/csv"))).toBe(true)
+        })
+
+        it("requires every condition", () => {
+            const match: RouteMatch = { pathPrefix: "/api", methods: ["POST"] }
+
+            expect(matches(match, "https://example.com/api", { method: "POST" })).toBe(true)
+            expect(matches(match, "https://example.com/api")).toBe(false)
+        })
+    })
+
+    describe("findRoute", () => {
+        const routes: ReadonlyArray<Route> = [
+            { name: "admin", pool: "internal", match: { pathPrefix: "/api/admin" } },
+            { name: "api", pool: "api", match: { pathPrefix: "/api" } },
+        ]
+
+        it("returns the first matching route", () => {
+            expect(findRoute(routes, new Request("https://example.com/api/admin/users"))?.name).toBe("admin")
+            expect(findRoute(routes, new Request("https://example.com/api/users"))?.name).toBe("api")
+        })
+
+        it("returns undefined when nothing matches", () => {
+            expect(findRoute(routes, new Request("https://example.com/"))).toBeUndefined()
+        })
+    })
+
+    describe("makeRouteFinder", () => {
+        it("finds the first matching route with compiled patterns", () => {
+            const find = makeRouteFinder([
+                { name: "v2", pool: "v2", match: { pathRegex: "^/v2/" } },
+                { name: "users", pool: "users", match: { pathGlob: "/v*/users/**" } },
+            ])
+
+            expect(find(new Request("https://example.com/v2/users/7"))?.name).toBe("v2")
+            expect(find(new Request("https://example.com/v1/users/7"))?.name).toBe("users")
+            expect(find(new Request("https://example.com/v1/orders"))).toBeUndefined()
+        })
+    })
+
+    describe("validateRoutes", () => {
+        it("accepts routes whose patterns compile", () => {
+            expect(validateRoutes([{ name: "api", pool: "api", match: { pathRegex: "^/api/" } }])).toBeUndefined()
+        })
+
+        it("names the route whose path regular expression does not compile", () => {
+            expect(validateRoutes([{ name: "bad", pool: "api", match: { pathRegex: "[" } }])).toMatch(
+                /^Route "bad": /,
+            )
+        })
+    })
+
+    describe("Route", () => {
+        it("rejects an invalid path regular expression", () => {
+            const result = Schema.decodeUnknownEither(Route)({ name: "bad", pool: "p", match: { pathRegex: "[" } })
+
+            expect(result._tag).toBe("Left")
+        })
+    })
+})
@@ -0,0 +1,161 @@
+/**
+ * SessionAffinity tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Option, TestClock } from "effect"
+import { endpoint } from "../Endpoint.js"
+import { HEADERS } from "../Headers.js"
+import { makeSessionAffinity } from "../SessionAffinity.js"
+
+describe("SessionAffinity", () => {
+    const a = endpoint("https://a.example.com")
+    const b = endpoint("https://b.example.com")
+    const c = endpoint("https://c.example.com")
+
+    const affinity = makeSessionAffinity({ secret: "s3cret", ttl: "10 minutes" })
+
+    const servedBy = (url: string) => new Response("ok", { headers: { [HEADERS.ENDPOINT]: url } })
+
+    const cookieFrom = (response: Response) => response.headers.get("Set-Cookie")!.split(";")[0]!
+
+    const withCookie = (cookie: string) =>
+        new Request("https://lb.example.com/", { headers: { Cookie: cookie } })
+
+    describe("pin", () => {
+        it.effect("sets a signed cookie naming the endpoint that served the response", () =>
+            Effect.gen(function* () {
+                const response = yield* affinity.pin(servedBy(b.url), Option.none())
+                const setCookie = response.headers.get("Set-Cookie")!
+
+                expect(setCookie).toMatch(/^__lb_affinity=[\w-]+\.\d+\.[\w-]+; /)
+                expect(setCookie).toContain("Max-Age=600")
+                expect(setCookie).toContain("Path=/")
+                expect(setCookie).toContain("Secure")
+                expect(setCookie).toContain("HttpOnly")
+                expect(setCookie).toContain("SameSite=Lax")
+
+                const pinned = yield* affinity.getPinnedUrl(withCookie(cookieFrom(response)))
+                expect(pinned).toEqual(Option.some(b.url))
+            }),
+        )
+
+        it.effect("keeps backend cookies", () =>
+            Effect.gen(function* () {
+                const backend = servedBy(a.url)
+                backend.headers.append("Set-Cookie", "theme=dark")
+
+                const response = yield* affinity.pin(backend, Option.none())
+
+                expect(response.headers.getSetCookie()).toHaveLength(2)
+            }),
+        )
+
+        it.effect("does not set a cookie when the pinned endpoint served the response", () =>
+            Effect.gen(function* () {
+                const response = yield* affinity.pin(servedBy(a.url), Option.some(a.url))
+
+                expect(response.headers.has("Set-Cookie")).toBe(false)
+            }),
+        )
+
+        it.effect("re-pins when another endpoint served the response", () =>
+            Effect.gen(function* () {
+                const response = yield* affinity.pin(servedBy(c.url), Option.some(a.url))
+
+                const pinned = yield* affinity.getPinnedUrl(withCookie(cookieFrom(response)))
+                expect(pinned).toEqual(Option.some(c.url))
+            }),
+        )
+
+        it.effect("leaves responses without an endpoint header alone", () =>
+            Effect.gen(function* () {
+                const response = yield* affinity.pin(new Response("recovered"), Option.none())
+
+                expect(response.headers.has("Set-Cookie")).toBe(false)
+            }),
+        )
+
+        it.effect("uses the configured name and attributes", () =>
+            Effect.gen(function* () {
+                const custom = makeSessionAffinity({
+                    secret: "s3cret",
+                    cookieName: "backend",
+                    attributes: { domain: "example.com", sameSite: "Strict", httpOnly: false },
+                })
+
+                const setCookie = (yield* custom.pin(servedBy(a.url), Option.none())).headers.get("Set-Cookie")!
+
+                expect(setCookie).toMatch(/^backend=/)
+                expect(setCookie).toContain("Domain=example.com")
+                expect(setCookie).toContain("SameSite=Strict")
+                expect(setCookie).not.toContain("HttpOnly")
+                expect(setCookie).toContain("Max-Age=3600")
+            }),
+        )
+    })
+
+    describe("getPinnedUrl", () => {
+        it.effect("ignores requests without the cookie", () =>
+            Effect.gen(function* () {
+                expect(yield* affinity.getPinnedUrl(new Request("https://lb.example.com/"))).toEqual(Option.none())
+            }),
+        )
+
+        it.effect("ignores tampered cookies", () =>
+            Effect.gen(function* () {
+                const cookie = cookieFrom(yield* affinity.pin(servedBy(a.url), Option.none()))
+                const [, value] = cookie.split("=")
+                const [, expiresAt, signature] = value!.split(".")
+                const forged = `${btoa(b.url).replace(/=+$/, "")}.${expiresAt}.${signature}`
+
+                expect(yield* affinity.getPinnedUrl(withCookie(`__lb_affinity=${forged}`))).toEqual(Option.none())
+            }),
+        )
+
+        it.effect("ignores malformed cookies", () =>
+            Effect.gen(function* () {
+                for (const value of ["garbage", "a.b", "a.b.c.d", "!!!.1.???"]) {
+                    expect(yield* affinity.getPinnedUrl(withCookie(`__lb_affinity=${value}`))).toEqual(
+                        Option.none(),
+                    )
+                }
+            }),
+        )
+
+        it.effect("ignores cookies signed with another secret", () =>
+            Effect.gen(function* () {
+                const other = makeSessionAffinity({ secret: "other" })
+                const cookie = cookieFrom(yield* other.pin(servedBy(a.url), Option.none()))
+
+                expect(yield* affinity.getPinnedUrl(withCookie(cookie))).toEqual(Option.none())
+            }),
+        )
+
+        it.effect("ignores expired cookies", () =>
+            Effect.gen(function* () {
+                const cookie = cookieFrom(yield* affinity.pin(servedBy(a.url), Option.none()))
+
+                yield* TestClock.adjust("9 minutes")
+                expect(yield* affinity.getPinnedUrl(withCookie(cookie))).toEqual(Option.some(a.url))
+
+                yield* TestClock.adjust("1 minute")
+                expect(yield* affinity.getPinnedUrl(withCookie(cookie))).toEqual(Option.none())
+            }),
+        )
+    })
+
+    describe("preferPinned", () => {
+        it("moves the pinned endpoint first", () => {
+            expect(affinity.preferPinned([a, b, c], Option.some(c.url)).map((ep) => ep.url)).toEqual([
+                c.url,
+                a.url,
+                b.url,
+            ])
+        })
+
+        it("keeps the order without a pinned endpoint or when it is not a candidate", () => {
+            expect(affinity.preferPinned([a, b], Option.none())).toEqual([a, b])
+            expect(affinity.preferPinned([a, b], Option.some(c.url))).toEqual([a, b])
+        })
+    })
+})
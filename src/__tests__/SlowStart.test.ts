@@ -0,0 +1,64 @@
+/**
+ * SlowStart tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { endpoint } from "../Endpoint.js"
+import { selectSlowStartEndpoints, slowStartFactor } from "../SlowStart.js"
+
+/**
+ * Deterministic random source that replays the given values
+ */
+const sequence = (...values: number[]) => {
+    let i = 0
+    return () => values[i++ % values.length]!
+}
+
+describe("SlowStart", () => {
+    const linear = endpoint("https://linear.example.com", { slowStart: { window: "100 seconds" } })
+    const exponential = endpoint("https://exponential.example.com", {
+        slowStart: { window: "100 seconds", curve: "exponential", minWeight: 0.01 },
+    })
+    const plain = endpoint("https://plain.example.com")
+
+    describe("slowStartFactor", () => {
+        it("is 1 without slow start", () => {
+            expect(slowStartFactor(plain, 0)).toBe(1)
+        })
+
+        it("ramps linearly from minWeight to 1 over the window", () => {
+            expect(slowStartFactor(linear, 0)).toBeCloseTo(0.1)
+            expect(slowStartFactor(linear, 50_000)).toBeCloseTo(0.55)
+            expect(slowStartFactor(linear, 100_000)).toBe(1)
+            expect(slowStartFactor(linear, 500_000)).toBe(1)
+        })
+
+        it("ramps exponentially from minWeight to 1 over the window", () => {
+            expect(slowStartFactor(exponential, 0)).toBeCloseTo(0.01)
+            expect(slowStartFactor(exponential, 50_000)).toBeCloseTo(0.1)
+            expect(slowStartFactor(exponential, 100_000)).toBe(1)
+        })
+
+        it("treats a recovery in the future as the start of the window", () => {
+            expect(slowStartFactor(linear, -1000)).toBeCloseTo(0.1)
+        })
+    })
+
+    describe("selectSlowStartEndpoints", () => {
+        const a = endpoint("https://a.example.com")
+        const b = endpoint("https://b.example.com")
+        const c = endpoint("https://c.example.com")
+
+        it("keeps the order when no endpoint is in slow start", () => {
+            expect(selectSlowStartEndpoints([a, b, c], [1, 1, 1], sequence(0.99))).toEqual([a, b, c])
+        })
+
+        it("keeps an endpoint in place with probability equal to its factor", () => {
+            expect(selectSlowStartEndpoints([a, b, c], [0.25, 1, 1], sequence(0.2))).toEqual([a, b, c])
+            expect(selectSlowStartEndpoints([a, b, c], [0.25, 1, 1], sequence(0.3))).toEqual([b, c, a])
+        })
+
+        it("moves demoted endpoints behind the others in their original order", () => {
+            expect(selectSlowStartEndpoints([a, b, c], [0.1, 0.1, 1], sequence(0.5))).toEqual([c, a, b])
+        })
+    })
+})
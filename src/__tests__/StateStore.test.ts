@@ -0,0 +1,258 @@
+/**
+ * StateStore tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Layer, TestClock } from "effect"
+import {
+    StateStore,
+    StateStoreDO,
+    StateStoreKV,
+    handleStateStoreRequest,
+    makeStateStoreMemory,
+    type DurableObjectStorageBinding,
+    type KVNamespaceBinding,
+} from "../StateStore.js"
+import { makeDurableObjectStubFake, makeKVNamespaceFake } from "./state-store-fakes.js"
+
+describe("StateStore", () => {
+    const implementations: ReadonlyArray<readonly [string, () => Layer.Layer<StateStore>]> = [
+        ["makeStateStoreMemory", () => makeStateStoreMemory()],
+        ["StateStoreKV", () => StateStoreKV(makeKVNamespaceFake())],
+        ["StateStoreDO", () => StateStoreDO(makeDurableObjectStubFake())],
+    ]
+
+    for (const [name, makeLayer] of implementations) {
+        describe(name, () => {
+            it.effect("returns null for missing keys", () =>
+                Effect.gen(function* () {
+                    const store = yield* StateStore
+
+                    expect(yield* store.get("missing")).toBeNull()
+                }).pipe(Effect.provide(makeLayer())),
+            )
+
+            it.effect("stores and retrieves JSON values", () =>
+                Effect.gen(function* () {
+                    const store = yield* StateStore
+
+                    yield* store.set("circuit:api", { state: "Open", failures: 3 })
+
+                    expect(yield* store.get("circuit:api")).toEqual({ state: "Open", failures: 3 })
+                }).pipe(Effect.provide(makeLayer())),
+            )
+
+            it.effect("overwrites existing values", () =>
+                Effect.gen(function* () {
+                    const store = yield* StateStore
+
+                    yield* store.set("counter", 1)
+                    yield* store.set("counter", 2)
+
+                    expect(yield* store.get<number>("counter")).toBe(2)
+                }).pipe(Effect.provide(makeLayer())),
+            )
+
+            it.effect("deletes values", () =>
+                Effect.gen(function* () {
+                    const store = yield* StateStore
+
+                    yield* store.set("key", "value")
+                    yield* store.delete("key")
+
+                    expect(yield* store.get("key")).toBeNull()
+                }).pipe(Effect.provide(makeLayer())),
+            )
+
+            it.effect("expires values after their TTL", () =>
+                Effect.gen(function* () {
+                    const store = yield* StateStore
+
+                    yield* store.set("health:api", true, "10 seconds")
+                    yield* TestClock.adjust("9 seconds")
+                    expect(yield* store.get("health:api")).toBe(true)
+
+                    yield* TestClock.adjust("1 second")
+                    expect(yield* store.get("health:api")).toBeNull()
+                }).pipe(Effect.provide(makeLayer())),
+            )
+
+            it.effect("keeps values without TTL", () =>
+                Effect.gen(function* () {
+                    const store = yield* StateStore
+
+                    yield* store.set("latency:api", 42)
+                    yield* TestClock.adjust("365 days")
+
+                    expect(yield* store.get("latency:api")).toBe(42)
+                }).pipe(Effect.provide(makeLayer())),
+            )
+
+            it.effect("handles keys with special characters", () =>
+                Effect.gen(function* () {
+                    const store = yield* StateStore
+                    const key = "circuit:https://api.example.com/v1?x=1"
+
+                    yield* store.set(key, "ok")
+
+                    expect(yield* store.get(key)).toBe("ok")
+                }).pipe(Effect.provide(makeLayer())),
+            )
+        })
+    }
+
+    describe("makeStateStoreMemory", () => {
+        it("shares state across separate provisions of the same layer", async () => {
+            const layer = makeStateStoreMemory()
+
+            await Effect.runPromise(
+                Effect.flatMap(StateStore, (store) => store.set("key", "value")).pipe(
+                    Effect.provide(layer),
+                ),
+            )
+            const value = await Effect.runPromise(
+                Effect.flatMap(StateStore, (store) => store.get("key")).pipe(Effect.provide(layer)),
+            )
+
+            expect(value).toBe("value")
+        })
+    })
+
+    describe("StateStoreKV", () => {
+        it.effect("passes TTLs to KV, rounded up to the 60 second minimum", () =>
+            Effect.gen(function* () {
+                const puts: Array<number | undefined> = []
+                const fake = makeKVNamespaceFake()
+                const kv: KVNamespaceBinding = {
+                    ...fake,
+                    put: (key, value, options) => {
+                        puts.push(options?.expirationTtl)
+                        return fake.put(key, value, options)
+                    },
+                }
+
+                yield* Effect.gen(function* () {
+                    const store = yield* StateStore
+                    yield* store.set("short", 1, "5 seconds")
+                    yield* store.set("long", 1, "90.5 seconds")
+                    yield* store.set("forever", 1)
+                }).pipe(Effect.provide(StateStoreKV(kv)))
+
+                expect(puts).toEqual([60, 91, undefined])
+            }),
+        )
+
+        it.effect("fails with StateStoreError when KV fails", () =>
+            Effect.gen(function* () {
+                const kv: KVNamespaceBinding = {
+                    get: () => Promise.reject(new Error("KV unavailable")),
+                    put: () => Promise.reject(new Error("KV unavailable")),
+                    delete: () => Promise.reject(new Error("KV unavailable")),
+                }
+
+                const result = yield* Effect.flatMap(StateStore, (store) => store.get("key")).pipe(
+                    Effect.provide(StateStoreKV(kv)),
+                    Effect.either,
+                )
+
+                expect(result._tag).toBe("Left")
+                if (result._tag === "Left") {
+                    expect(result.left._tag).toBe("StateStoreError")
+                    expect(result.left.operation).toBe("get")
+                    expect(result.left.key).toBe("key")
+                }
+            }),
+        )
+    })
+
+    describe("StateStoreDO", () => {
+        it.effect("deletes expired entries from the Durable Object on read", () =>
+            Effect.gen(function* () {
+                const fake = makeDurableObjectStubFake()
+                const methods: string[] = []
+                const stub = {
+                    fetch: (input: string, init?: RequestInit) => {
+                        methods.push(init?.method ?? "GET")
+                        return fake.fetch(input, init)
+                    },
+                }
+
+                yield* Effect.gen(function* () {
+                    const store = yield* StateStore
+                    yield* store.set("key", 1, "1 second")
+                    yield* TestClock.adjust("2 seconds")
+                    expect(yield* store.get("key")).toBeNull()
+                }).pipe(Effect.provide(StateStoreDO(stub)))
+
+                expect(methods).toEqual(["PUT", "GET", "DELETE"])
+            }),
+        )
+
+        it.effect("fails with StateStoreError on unexpected responses", () =>
+            Effect.gen(function* () {
+                const stub = { fetch: async () => new Response("boom", { status: 500 }) }
+
+                const result = yield* Effect.flatMap(StateStore, (store) => store.set("key", 1)).pipe(
+                    Effect.provide(StateStoreDO(stub)),
+                    Effect.either,
+                )
+
+                expect(result._tag).toBe("Left")
+                if (result._tag === "Left") {
+                    expect(result.left._tag).toBe("StateStoreError")
+                    expect(result.left.operation).toBe("set")
+                }
+            }),
+        )
+    })
+
+    describe("handleStateStoreRequest", () => {
+        const makeStorage = (): DurableObjectStorageBinding => {
+            const entries = new Map<string, unknown>()
+            return {
+                get: async <T>(key: string) => entries.get(key) as T | undefined,
+                put: async (key, value) => {
+                    entries.set(key, value)
+                },
+                delete: async (key) => entries.delete(key),
+            }
+        }
+
+        it("returns 404 for unknown paths", async () => {
+            const response = await handleStateStoreRequest(
+                makeStorage(),
+                new Request("http://internal/other"),
+            )
+
+            expect(response.status).toBe(404)
+        })
+
+        it("returns 405 for unsupported methods", async () => {
+            const response = await handleStateStoreRequest(
+                makeStorage(),
+                new Request("http://internal/state/key", { method: "POST" }),
+            )
+
+            expect(response.status).toBe(405)
+        })
+
+        it("round-trips stored entries", async () => {
+            const storage = makeStorage()
+
+            await handleStateStoreRequest(
+                storage,
+                new Request("http://internal/state/a%3Ab", {
+                    method: "PUT",
+                    body: JSON.stringify({ value: 1, expiresAt: null }),
+                }),
+            )
+            const response = await handleStateStoreRequest(
+                storage,
+                new Request("http://internal/state/a%3Ab"),
+            )
+
+            expect(response.status).toBe(200)
+            expect(await response.json()).toEqual({ value: 1, expiresAt: null })
+            expect(await storage.get("a:b")).toEqual({ value: 1, expiresAt: null })
+        })
+    })
+})
@@ -0,0 +1,100 @@
+/**
+ * SteeringCounters tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { Deferred, Effect, Fiber } from "effect"
+import { endpoint } from "../Endpoint.js"
+import { StateStoreError } from "../Errors.js"
+import { StateStore, makeStateStoreMemory } from "../StateStore.js"
+import {
+    makeSharedSteeringCounters,
+    makeSteeringCounters,
+    type SteeringCounters,
+} from "../SteeringCounters.js"
+
+describe("SteeringCounters", () => {
+    const a = endpoint("https://a.example.com")
+    const b = endpoint("https://b.example.com")
+
+    const sharedCounters = () =>
+        Effect.map(StateStore, (store) => makeSharedSteeringCounters(store)).pipe(
+            Effect.provide(makeStateStoreMemory()),
+        )
+
+    // Each test gets fresh counters (and a fresh store)
+    const implementations: ReadonlyArray<readonly [string, () => Effect.Effect<SteeringCounters>]> = [
+        ["memory", () => Effect.sync(makeSteeringCounters)],
+        ["shared", sharedCounters],
+    ]
+
+    for (const [name, make] of implementations) {
+        describe(name, () => {
+            it.effect("advances the offset per key", () =>
+                Effect.gen(function* () {
+                    const counters = yield* make()
+
+                    expect(yield* counters.nextOffset("pool-a")).toBe(0)
+                    expect(yield* counters.nextOffset("pool-a")).toBe(1)
+                    expect(yield* counters.nextOffset("pool-b")).toBe(0)
+                    expect(yield* counters.nextOffset("pool-a")).toBe(2)
+                }),
+            )
+
+            it.effect("counts attempts as in flight until they complete", () =>
+                Effect.gen(function* () {
+                    const counters = yield* make()
+                    const release = yield* Deferred.make<void>()
+
+                    const fiber = yield* Effect.fork(
+                        counters.trackOutstanding(a, Deferred.await(release)),
+                    )
+                    yield* Effect.yieldNow()
+                    expect(yield* counters.getOutstanding([a, b])).toEqual([1, 0])
+
+                    yield* Deferred.succeed(release, undefined)
+                    yield* Fiber.join(fiber)
+                    expect(yield* counters.getOutstanding([a, b])).toEqual([0, 0])
+                }),
+            )
+
+            it.effect("releases failed attempts", () =>
+                Effect.gen(function* () {
+                    const counters = yield* make()
+
+                    yield* counters.trackOutstanding(a, Effect.fail("boom")).pipe(Effect.either)
+
+                    expect(yield* counters.getOutstanding([a])).toEqual([0])
+                }),
+            )
+        })
+    }
+
+    describe("shared", () => {
+        it.effect("shares counters between instances using the same store", () =>
+            Effect.gen(function* () {
+                const store = yield* StateStore
+                const first = makeSharedSteeringCounters(store)
+                const second = makeSharedSteeringCounters(store)
+
+                yield* first.nextOffset("pool")
+                expect(yield* second.nextOffset("pool")).toBe(1)
+            }).pipe(Effect.provide(makeStateStoreMemory())),
+        )
+
+        it.effect("falls back to the in-memory counters when the store fails", () =>
+            Effect.gen(function* () {
+                const failing = new StateStoreError({ operation: "get", key: "", cause: "down" })
+                const counters = makeSharedSteeringCounters({
+                    get: () => Effect.fail(failing),
+                    set: () => Effect.fail(failing),
+                    delete: () => Effect.fail(failing),
+                })
+
+                expect(yield* counters.nextOffset("pool")).toBe(0)
+                expect(yield* counters.nextOffset("pool")).toBe(1)
+                expect(yield* counters.trackOutstanding(a, Effect.succeed("ok"))).toBe("ok")
+                expect(yield* counters.getOutstanding([a])).toEqual([0])
+            }),
+        )
+    })
+})
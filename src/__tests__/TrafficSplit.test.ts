@@ -0,0 +1,94 @@
+/**
+ * Traffic split tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { selectSplitPool, splitBucket, validateSplit, type SplitShare } from "../TrafficSplit.js"
+
+describe("TrafficSplit", () => {
+    const shares: ReadonlyArray<SplitShare> = [
+        { pool: "blue", percent: 90 },
+        { pool: "green", percent: 10 },
+    ]
+
+    describe("splitBucket", () => {
+        it("returns the same bucket for the same key", () => {
+            expect(splitBucket("user-42")).toBe(splitBucket("user-42"))
+        })
+
+        it("returns buckets in [0, 100)", () => {
+            for (let i = 0; i < 200; i++) {
+                const bucket = splitBucket(`user-${i}`)
+                expect(bucket).toBeGreaterThanOrEqual(0)
+                expect(bucket).toBeLessThan(100)
+            }
+        })
+
+        it("spreads keys across buckets", () => {
+            const green = Array.from({ length: 1000 }, (_, i) => splitBucket(`user-${i}`)).filter((b) => b >= 90)
+
+            expect(green.length).toBeGreaterThan(50)
+            expect(green.length).toBeLessThan(150)
+        })
+    })
+
+    describe("selectSplitPool", () => {
+        it("picks the pool whose range contains the bucket", () => {
+            expect(selectSplitPool(shares, 0)).toBe("blue")
+            expect(selectSplitPool(shares, 89.99)).toBe("blue")
+            expect(selectSplitPool(shares, 90)).toBe("green")
+            expect(selectSplitPool(shares, 99.99)).toBe("green")
+        })
+
+        it("skips pools with no traffic", () => {
+            const allBlue: ReadonlyArray<SplitShare> = [
+                { pool: "blue", percent: 100 },
+                { pool: "green", percent: 0 },
+            ]
+
+            expect(selectSplitPool(allBlue, 99.99)).toBe("blue")
+            expect(selectSplitPool([...allBlue].reverse(), 0)).toBe("blue")
+        })
+
+        it("falls back to the last pool with traffic when rounding leaves a gap", () => {
+            const thirds: ReadonlyArray<SplitShare> = [
+                { pool: "a", percent: 33.33 },
+                { pool: "b", percent: 33.33 },
+                { pool: "c", percent: 33.33 },
+            ]
+
+            expect(selectSplitPool(thirds, 99.995)).toBe("c")
+        })
+
+        it("moves only the boundary buckets when a pool's share grows", () => {
+            const split = (green: number): ReadonlyArray<SplitShare> => [
+                { pool: "green", percent: green },
+                { pool: "blue", percent: 100 - green },
+            ]
+            const before = (bucket: number) => selectSplitPool(split(10), bucket)
+            const after = (bucket: number) => selectSplitPool(split(20), bucket)
+
+            for (let bucket = 0; bucket < 100; bucket += 0.5) {
+                if (before(bucket) === "green") expect(after(bucket)).toBe("green")
+            }
+        })
+    })
+
+    describe("validateSplit", () => {
+        it("accepts percentages adding up to 100", () => {
+            expect(validateSplit(shares)).toBeUndefined()
+        })
+
+        it("rejects percentages not adding up to 100", () => {
+            expect(validateSplit([{ pool: "blue", percent: 90 }])).toContain("add up to 100")
+        })
+
+        it("rejects negative percentages", () => {
+            expect(
+                validateSplit([
+                    { pool: "blue", percent: 110 },
+                    { pool: "green", percent: -10 },
+                ]),
+            ).toContain('"green"')
+        })
+    })
+})
@@ -0,0 +1,110 @@
+/**
+ * URL rewrite tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { Schema } from "effect"
+import { RewriteRule, rewriteUrl, validateRewriteRules } from "../UrlRewrite.js"
+
+describe("UrlRewrite", () => {
+    describe("rewriteUrl", () => {
+        it("returns the URL unchanged without rules", () => {
+            expect(rewriteUrl([], "/users", "?id=1")).toEqual({ pathname: "/users", search: "?id=1" })
+        })
+
+        it("strips a prefix on segment boundaries", () => {
+            const rules: ReadonlyArray<RewriteRule> = [{ type: "strip-prefix", prefix: "/api/" }]
+
+            expect(rewriteUrl(rules, "/api/users", "").pathname).toBe("/users")
+            expect(rewriteUrl(rules, "/api", "").pathname).toBe("/")
+            expect(rewriteUrl(rules, "/apiary", "").pathname).toBe("/apiary")
+        })
+
+        it("adds a prefix", () => {
+            expect(rewriteUrl([{ type: "add-prefix", prefix: "/v2/" }], "/users", "").pathname).toBe("/v2/users")
+        })
+
+        it("replaces with a regular expression", () => {
+            const rules: ReadonlyArray<RewriteRule> = [
+                { type: "replace", pattern: "^/legacy/(\\w+)", replacement: "/$1/v1" },
+            ]
+
+            expect(rewriteUrl(rules, "/legacy/users/7", "").pathname).toBe("/users/v1/7")
+        })
+
+        it("keeps the path absolute after a replacement", () => {
+            const rules: ReadonlyArray<RewriteRule> = [{ type: "replace", pattern: "^/", replacement: "" }]
+
+            expect(rewriteUrl(rules, "/users", "").pathname).toBe("/users")
+        })
+
+        it("sets and removes query parameters", () => {
+            const rules: ReadonlyArray<RewriteRule> = [
+                { type: "set-query", params: { version: "2", page: "1" } },
+                { type: "remove-query", params: ["token"] },
+            ]
+
+            expect(rewriteUrl(rules, "/users", "?page=5&token=abc").search).toBe("?page=1&version=2")
+            expect(rewriteUrl([{ type: "remove-query", params: ["token"] }], "/", "?token=abc").search).toBe("")
+        })
+
+        it("keeps the query string as is when only the path is rewritten", () => {
+            const rules: ReadonlyArray<RewriteRule> = [{ type: "strip-prefix", prefix: "/api" }]
+
+            expect(rewriteUrl(rules, "/api/search", "?q=a+b%20c").search).toBe("?q=a+b%20c")
+        })
+
+        it("applies rules in order", () => {
+            const rules: ReadonlyArray<RewriteRule> = [
+                { type: "strip-prefix", prefix: "/users" },
+                { type: "add-prefix", prefix: "/v2/accounts" },
+            ]
+
+            expect(rewriteUrl(rules, "/users/42", "").pathname).toBe("/v2/accounts/42")
+        })
+    })
+
+    describe("RewriteRule", () => {
+        it("rejects an invalid regular expression", () => {
+            const result = Schema.decodeUnknownEither(RewriteRule)({ type: "replace", pattern: "(", replacement: "" })
+
+            expect(result._tag).toBe("Left")
+        })
+
+        it("rejects invalid regular expression flags", () => {
+            const result = Schema.decodeUnknownEither(RewriteRule)({
+                type: "replace",
+                pattern: "^/v1",
+                replacement: "/v2",
+                flags: "zz",
+            })
+
+            expect(result._tag).toBe("Left")
+        })
+
+        it("rejects a prefix without a leading slash", () => {
+            const result = Schema.decodeUnknownEither(RewriteRule)({ type: "strip-prefix", prefix: "api" })
+
+            expect(result._tag).toBe("Left")
+        })
+    })
+
+    describe("validateRewriteRules", () => {
+        it("accepts rules that compile", () => {
+            expect(
+                validateRewriteRules([
+                    { type: "strip-prefix", prefix: "/api" },
+                    { type: "replace", pattern: "/v1/", replacement: "/v2/", flags: "g" },
+                ]),
+            ).toBeUndefined()
+        })
+
+        it("reports a pattern or flags that do not compile", () => {
+            expect(validateRewriteRules([{ type: "replace", pattern: "(", replacement: "" }])).toMatch(
+                /^Rewrite rule: /,
+            )
+            expect(
+                validateRewriteRules([{ type: "replace", pattern: "^/v1", replacement: "/v2", flags: "zz" }]),
+            ).toMatch(/^Rewrite rule: /)
+        })
+    })
+})
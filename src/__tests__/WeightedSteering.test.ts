@@ -0,0 +1,86 @@
+/**
+ * WeightedSteering tests
+ */
+import { describe, expect, it } from "@effect/vitest"
+import { endpoint } from "../Endpoint.js"
+import { selectWeightedEndpoints } from "../WeightedSteering.js"
+
+/**
+ * Deterministic random source that replays the given values
+ */
+const sequence = (...values: number[]) => {
+    let i = 0
+    return () => values[i++ % values.length]!
+}
+
+describe("WeightedSteering", () => {
+    const heavy = endpoint("https://heavy.example.com", { weight: 3 })
+    const light = endpoint("https://light.example.com", { weight: 1 })
+    const medium = endpoint("https://medium.example.com", { weight: 2 })
+
+    describe("selectWeightedEndpoints", () => {
+        it("returns empty array for no endpoints", () => {
+            expect(selectWeightedEndpoints([])).toEqual([])
+        })
+
+        it("returns every endpoint exactly once", () => {
+            const result = selectWeightedEndpoints([heavy, light, medium])
+
+            expect(result).toHaveLength(3)
+            expect(new Set(result.map((ep) => ep.url)).size).toBe(3)
+        })
+
+        it("picks the first endpoint proportionally to its weight", () => {
+            // Total weight 4: [0, 3) -> heavy, [3, 4) -> light
+            expect(selectWeightedEndpoints([heavy, light], sequence(0.74))[0]?.url).toBe(
+                "https://heavy.example.com",
+            )
+            expect(selectWeightedEndpoints([heavy, light], sequence(0.75))[0]?.url).toBe(
+                "https://light.example.com",
+            )
+        })
+
+        it("keeps remaining endpoints as failover in weighted order", () => {
+            // First pick (total 6): 0.9 * 6 = 5.4 -> medium
+            // Second pick (total 4): 0.1 * 4 = 0.4 -> heavy
+            const result = selectWeightedEndpoints([heavy, light, medium], sequence(0.9, 0.1, 0))
+
+            expect(result.map((ep) => ep.url)).toEqual([
+                "https://medium.example.com",
+                "https://heavy.example.com",
+                "https://light.example.com",
+            ])
+        })
+
+        it("uses effective weights when given", () => {
+            // Weights [1, 3]: [0, 1) -> heavy, [1, 4) -> light
+            expect(selectWeightedEndpoints([heavy, light], sequence(0.3), [1, 3])[0]?.url).toBe(
+                "https://light.example.com",
+            )
+            expect(selectWeightedEndpoints([heavy, light], sequence(0.2), [1, 3])[0]?.url).toBe(
+                "https://heavy.example.com",
+            )
+        })
+
+        it("does not mutate the input array", () => {
+            const endpoints = [heavy, light, medium]
+
+            selectWeightedEndpoints(endpoints, sequence(0.99))
+
+            expect(endpoints).toEqual([heavy, light, medium])
+        })
+
+        it("distributes first picks according to weight", () => {
+            const counts = new Map<string, number>()
+
+            for (let i = 0; i < 4000; i++) {
+                const first = selectWeightedEndpoints([heavy, light])[0]!
+                counts.set(first.url, (counts.get(first.url) ?? 0) + 1)
+            }
+
+            // Expected 3000 / 1000
+            expect(counts.get("https://heavy.example.com")).toBeGreaterThan(2700)
+            expect(counts.get("https://light.example.com")).toBeGreaterThan(700)
+        })
+    })
+})
@@ -0,0 +1,58 @@
+/**
+ * In-process fakes of the Workers KV and Durable Object bindings, for StateStore tests
+ */
+import {
+    handleStateStoreRequest,
+    type DurableObjectStorageBinding,
+    type DurableObjectStubBinding,
+    type KVNamespaceBinding,
+} from "../StateStore.js"
+
+/**
+ * In-memory fake of a Workers KV binding (honors expirationTtl)
+ */
+export const makeKVNamespaceFake = (): KVNamespaceBinding => {
+    const entries = new Map<string, { readonly value: string; readonly expiresAt: number | null }>()
+
+    return {
+        get: async (key) => {
+            const entry = entries.get(key)
+            if (!entry) return null
+            if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+                entries.delete(key)
+                return null
+            }
+            return entry.value
+        },
+        put: async (key, value, options) => {
+            entries.set(key, {
+                value,
+                expiresAt:
+                    options?.expirationTtl === undefined
+                        ? null
+                        : Date.now() + options.expirationTtl * 1000,
+            })
+        },
+        delete: async (key) => {
+            entries.delete(key)
+        },
+    }
+}
+
+/**
+ * In-memory fake of a Durable Object stub serving the `StateStoreDO` protocol
+ */
+export const makeDurableObjectStubFake = (): DurableObjectStubBinding => {
+    const entries = new Map<string, unknown>()
+    const storage: DurableObjectStorageBinding = {
+        get: async <T>(key: string) => entries.get(key) as T | undefined,
+        put: async (key, value) => {
+            entries.set(key, value)
+        },
+        delete: async (key) => entries.delete(key),
+    }
+
+    return {
+        fetch: (input, init) => handleStateStoreRequest(storage, new Request(input, init)),
+    }
+}
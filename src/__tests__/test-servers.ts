@@ -20,6 +20,11 @@ export interface TestServer {
     stop: () => Promise<void>
 }
 
+/**
+ * Request counts per key for the /flaky route (shared by all servers)
+ */
+const flakyCounts = new Map<string, number>()
+
 /**
  * Create a test server with configurable behavior
  */
@@ -77,12 +82,39 @@ export const createTestServer = async (config: TestServerConfig): Promise<TestSe
                 return
             }
 
+            // Requires "Authorization: Bearer secret", echoes the request method and headers
+            if (url.pathname === "/health/auth") {
+                if (req.headers.authorization !== "Bearer secret") {
+                    sendJson({ error: "Unauthorized" }, 401)
+                    return
+                }
+                sendJson({ status: "healthy", method: req.method, headers: req.headers, checks: { db: "ok" } })
+                return
+            }
+
+            // A 200 error page, as served by a misconfigured proxy
+            if (url.pathname === "/health/proxy-error") {
+                res.writeHead(200, { "Content-Type": "text/html" })
+                res.end("<html><body><h1>502 Bad Gateway</h1></body></html>")
+                return
+            }
+
+            // Responds after `ms` milliseconds (default 5000)
             if (url.pathname === "/slow") {
-                await new Promise((r) => setTimeout(r, 5000))
+                await new Promise((r) => setTimeout(r, Number(url.searchParams.get("ms") ?? 5000)))
                 sendJson({ status: "slow response" })
                 return
             }
 
+            // Echoes the request URL and headers and answers with hop-by-hop headers of its own
+            if (url.pathname === "/headers") {
+                res.setHeader("Keep-Alive", "timeout=5")
+                res.setHeader("X-Internal", "secret")
+                res.setHeader("Connection", "X-Internal")
+                sendJson({ url: req.url, headers: req.headers, server: name })
+                return
+            }
+
             if (url.pathname === "/error") {
                 sendJson({ error: "Internal server error" }, 500)
                 return
@@ -98,6 +130,20 @@ export const createTestServer = async (config: TestServerConfig): Promise<TestSe
                 return
             }
 
+            // Returns 503 for the first `fail` requests with the same `key` (across servers), then 200
+            if (url.pathname === "/flaky") {
+                const key = url.searchParams.get("key") ?? ""
+                const fail = Number(url.searchParams.get("fail") ?? "1")
+                const count = (flakyCounts.get(key) ?? 0) + 1
+                flakyCounts.set(key, count)
+                if (count <= fail) {
+                    sendJson({ error: "Service unavailable", attempt: count, server: name }, 503)
+                    return
+                }
+                sendJson({ status: "ok", attempt: count, server: name })
+                return
+            }
+
             res.writeHead(404)
             res.end("Not Found")
         })
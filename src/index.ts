@@ -30,6 +30,26 @@
  */
 export { Endpoint, endpoint } from "./Endpoint.js"
 export type { EndpointUrl, HealthCheckPath } from "./Endpoint.js"
+export {
+    HostHeaderMode,
+    upstreamHostname,
+    resolveUpstreamTarget,
+    upstreamTargetWithHost,
+    isWorkersRuntime,
+    ignoredHostWarning,
+} from "./HostHeader.js"
+export type { UpstreamTarget } from "./HostHeader.js"
+export {
+    RewriteRule,
+    StripPrefixRule,
+    AddPrefixRule,
+    ReplacePathRule,
+    SetQueryRule,
+    RemoveQueryRule,
+    rewriteUrl,
+    validateRewriteRules,
+} from "./UrlRewrite.js"
+export type { RewrittenUrl } from "./UrlRewrite.js"
 
 export { GeoEndpoint, geoEndpoint, GeoConfig, ContinentCode } from "./GeoEndpoint.js"
 export type {
@@ -42,14 +62,29 @@ export type {
 // Errors
 export {
     NoHealthyEndpointsError,
+    DeadlineExceededError,
+    RequestTooLargeError,
+    NoRouteError,
     EndpointUnhealthyError,
     CircuitOpenError,
+    EndpointEjectedError,
     RequestForwardError,
+    StateStoreError,
 } from "./Errors.js"
 
 // Services
 export { LoadBalancer } from "./LoadBalancer.js"
-export type { LoadBalancerOptions, CfRequest, SteeringConfig } from "./LoadBalancer.js"
+export type {
+    LoadBalancerOptions,
+    CfRequest,
+    SteeringConfig,
+    RouterConfig,
+    PoolOptions,
+    TrafficSplitConfig,
+    SplitPoolOptions,
+    RolloutPools,
+    SplitTargeting,
+} from "./LoadBalancer.js"
 
 export {
     HealthChecker,
@@ -57,9 +92,75 @@ export {
     HealthCheckerTest,
     makeHealthChecker,
     getHealthCheckTimeout,
+    healthCheckRequestInit,
+    healthCheckTarget,
+    isExpectedHealthStatus,
+    checkHealthBody,
+    HealthCheckOptions,
+    HealthCheckStatusRange,
+    HealthCheckBodyAssertion,
     DEFAULT_HEALTH_CHECK_TIMEOUT_MS,
 } from "./HealthChecker.js"
 
+export {
+    runHealthChecks,
+    getHealthRecord,
+    healthRecordKey,
+    DEFAULT_HEALTH_RECORD_TTL,
+} from "./HealthStore.js"
+export type { HealthRecord, HealthCheckResult, RunHealthChecksOptions } from "./HealthStore.js"
+
+export {
+    CircuitBreaker,
+    CircuitState,
+    makeCircuitBreaker,
+    DEFAULT_FAILURE_THRESHOLD,
+    DEFAULT_CIRCUIT_COOLDOWN,
+} from "./CircuitBreaker.js"
+export type { CircuitBreakerOptions, CircuitTransition } from "./CircuitBreaker.js"
+
+export {
+    HealthMonitor,
+    HealthState,
+    makeHealthMonitor,
+    DEFAULT_HEALTH_RISE,
+    DEFAULT_HEALTH_FALL,
+    DEFAULT_HEALTH_CACHE_TTL,
+} from "./HealthMonitor.js"
+export type { HealthMonitorOptions, HealthTransition } from "./HealthMonitor.js"
+
+export {
+    OutlierDetector,
+    makeOutlierDetector,
+    classifyOutcome,
+    DEFAULT_OUTLIER_WINDOW,
+    DEFAULT_OUTLIER_MINIMUM_REQUESTS,
+    DEFAULT_OUTLIER_FAILURE_RATE,
+    DEFAULT_BASE_EJECTION_TIME,
+    DEFAULT_MAX_EJECTION_TIME,
+    DEFAULT_MAX_EJECTION_PERCENT,
+} from "./OutlierDetector.js"
+export type {
+    OutlierDetectorOptions,
+    OutlierEjection,
+    OutlierStats,
+    RequestOutcome,
+} from "./OutlierDetector.js"
+
+export {
+    StateStore,
+    StateStoreMemory,
+    makeStateStoreMemory,
+    StateStoreKV,
+    StateStoreDO,
+    handleStateStoreRequest,
+} from "./StateStore.js"
+export type {
+    KVNamespaceBinding,
+    DurableObjectStubBinding,
+    DurableObjectStorageBinding,
+} from "./StateStore.js"
+
 // Availability methods
 export {
     AvailabilityMethod,
@@ -67,27 +168,163 @@ export {
     FailForwardOptions,
     AsyncBlockOptions,
     PromiseAnyOptions,
+    CachedHealthOptions,
+    HedgedOptions,
     DEFAULT_FAILOVER_STATUSES,
+    DEFAULT_HEDGE_DELAY,
+    P95_HEDGE_MINIMUM_SAMPLES,
     failForward,
     asyncBlock,
     promiseAny,
+    cachedHealth,
+    hedged,
 } from "./AvailabilityMethod.js"
+export type { AttemptOptions, RequestDeadline } from "./AvailabilityMethod.js"
+
+// Failover policy
+export {
+    FailoverPolicy,
+    DEFAULT_IDEMPOTENT_METHODS,
+    DEFAULT_IDEMPOTENCY_KEY_HEADER,
+    decideFailover,
+    decideReplay,
+    isConnectFailure,
+} from "./FailoverPolicy.js"
+export type { FailoverDecision, FailoverReason } from "./FailoverPolicy.js"
 
 // Geo steering
 export { selectGeoEndpoints } from "./GeoSteering.js"
 export type { CfProperties } from "./GeoSteering.js"
 
+// Weighted steering
+export { selectWeightedEndpoints } from "./WeightedSteering.js"
+
+// Slow start
+export {
+    SlowStartOptions,
+    slowStartFactor,
+    selectSlowStartEndpoints,
+    DEFAULT_SLOW_START_MIN_WEIGHT,
+} from "./SlowStart.js"
+
+// Round-robin and least-outstanding steering
+export { rotateEndpoints } from "./RoundRobinSteering.js"
+export { selectLeastOutstandingEndpoints } from "./LeastOutstandingSteering.js"
+export { makeSteeringCounters, makeSharedSteeringCounters } from "./SteeringCounters.js"
+export type { SteeringCounters } from "./SteeringCounters.js"
+
+// Latency steering
+export {
+    makeLatencyTracker,
+    updateLatencyStats,
+    latencyScore,
+    selectLatencyEndpoints,
+    DEFAULT_LATENCY_ALPHA,
+    DEFAULT_ERROR_PENALTY,
+    LATENCY_SAMPLE_SIZE,
+} from "./LatencySteering.js"
+export type { LatencyStats, LatencyTracker } from "./LatencySteering.js"
+
+// Hash steering
+export { HashKey, extractHashKey, selectHashEndpoints } from "./HashSteering.js"
+
+// Session affinity
+export {
+    AffinityOptions,
+    makeSessionAffinity,
+    DEFAULT_AFFINITY_COOKIE_NAME,
+    DEFAULT_AFFINITY_TTL,
+} from "./SessionAffinity.js"
+export type { SessionAffinity } from "./SessionAffinity.js"
+
+// Cookies
+export { getCookie, serializeCookie } from "./Cookies.js"
+export type { CookieAttributes } from "./Cookies.js"
+
+// Router
+export {
+    Route,
+    RouteMatch,
+    findRoute,
+    matchesRoute,
+    makeRouteFinder,
+    validateRoutes,
+} from "./Router.js"
+
+// Traffic split
+export { splitBucket, selectSplitPool, validateSplit } from "./TrafficSplit.js"
+export type { SplitShare } from "./TrafficSplit.js"
+
+export {
+    CanaryRule,
+    HeaderRule,
+    CookieRule,
+    UserAgentRule,
+    IpRule,
+    AsnRule,
+    matchesCanaryRule,
+    isCanaryRequest,
+    makeCanaryMatcher,
+    validateCanaryRules,
+    ipInCidr,
+} from "./CanaryTargeting.js"
+export type { CanaryMatcher } from "./CanaryTargeting.js"
+
+export {
+    RolloutController,
+    RolloutState,
+    makeRolloutController,
+    rolloutPercent,
+    validateRolloutSteps,
+    DEFAULT_ROLLOUT_STEPS,
+    DEFAULT_ROLLOUT_STEP_DURATION,
+    DEFAULT_ROLLOUT_MINIMUM_REQUESTS,
+    DEFAULT_ROLLOUT_MAX_ERROR_RATE_INCREASE,
+    DEFAULT_ROLLOUT_MAX_LATENCY_RATIO,
+} from "./Rollout.js"
+export type {
+    RolloutOptions,
+    RolloutPool,
+    RolloutPoolStats,
+    RolloutStatus,
+    RolloutTransition,
+} from "./Rollout.js"
+
 // Recovery
 export { withRecovery } from "./Recovery.js"
 export type { RecoveryContext, RecoveryFn } from "./Recovery.js"
 
 // Headers
-export { HEADERS, addLoadBalancerHeaders } from "./Headers.js"
+export { HEADERS, addLoadBalancerHeaders, addRouteHeader, addPoolHeader } from "./Headers.js"
 
 // Forward
 export {
     forwardRequest,
+    forwardRequestWithRetry,
     bufferRequestBody,
+    streamRequestBody,
+    prepareRequestBody,
+    isBodyReplayable,
+    checkBodyLimit,
     methodSupportsBody,
+    retrySchedule,
+    RetryOptions,
+    RequestBodyOptions,
+    BodyNotReplayable,
+    DurationInput,
+    DEFAULT_MAX_BUFFER_BYTES,
 } from "./Forward.js"
-export type { BufferedBody } from "./Forward.js"
+export type { BufferedBody, RequestBody, StreamedBody } from "./Forward.js"
+
+// Proxy headers
+export {
+    ProxyHeadersOptions,
+    proxyRequestHeaders,
+    withProxyHeaders,
+    stripHopByHopHeaders,
+    stripHopByHopResponseHeaders,
+    formatForwardedElement,
+    HOP_BY_HOP_HEADERS,
+    DEFAULT_CLIENT_IP_HEADER,
+    DEFAULT_VIA_PSEUDONYM,
+} from "./ProxyHeaders.js"